@@ -1,7 +1,30 @@
 import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import { GoogleGenAI } from '@google/genai';
+import { z } from 'zod';
+import { jobStore, batchStateToStatus, getJobEvents, JobRecord } from './jobStore';
+import { JobPoller } from './jobPoller';
+import {
+  registerProvider,
+  getProvider,
+  getDefaultProvider,
+  listModels,
+  resolveModel,
+  describeSegmentTarget,
+  ImageProvider,
+  ProviderError,
+} from './providers';
+import {
+  generateRequestSchema,
+  editRequestSchema,
+  segmentRequestSchema,
+  videoGenerateRequestSchema,
+  toFieldErrors,
+  ApiErrorBody,
+  FieldError,
+} from '../src/types/schemas';
+import { GeminiProvider } from './providers/gemini';
+import { MockProvider } from './providers/mock';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -10,477 +33,184 @@ const PORT = process.env.PORT || 3001;
 app.use(cors());
 app.use(express.json({ limit: '50mb' }));
 
-// Initialize Gemini
-const API_KEY = process.env.GEMINI_API_KEY;
-if (!API_KEY) {
-  console.error('GEMINI_API_KEY environment variable is required');
-  process.exit(1);
-}
-
-const genAI = new GoogleGenAI({ apiKey: API_KEY });
-
-// Constants
-const DEFAULT_MODEL = 'gemini-3-pro-image-preview';
-const DEFAULT_VIDEO_MODEL = 'veo-3.0-generate-001';
-
-const VIDEO_MODELS = [
-  'veo-3.1-generate-preview',
-  'veo-3.1-fast-generate-preview',
-  'veo-3.0-generate-001',
-  'veo-3.0-fast-generate-001'
-] as const;
+// Initialize providers
+// MOCK_PROVIDER=1 serves every route from the offline mock instead of Gemini
+if (process.env.MOCK_PROVIDER === '1') {
+  console.log('Using the mock provider; no requests will reach Gemini');
+  registerProvider(new MockProvider());
+} else {
+  const API_KEY = process.env.GEMINI_API_KEY;
+  if (!API_KEY) {
+    console.error('GEMINI_API_KEY environment variable is required (or set MOCK_PROVIDER=1)');
+    process.exit(1);
+  }
 
-const DEFAULT_SAFETY_SETTINGS = [
-  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_LOW_AND_ABOVE' },
-  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_LOW_AND_ABOVE' },
-  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_LOW_AND_ABOVE' },
-  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_LOW_AND_ABOVE' },
-  { category: 'HARM_CATEGORY_CIVIC_INTEGRITY', threshold: 'BLOCK_LOW_AND_ABOVE' },
-];
+  registerProvider(new GeminiProvider(API_KEY));
+}
 
 // Helper functions
-function buildEditPrompt(instruction: string, hasMask: boolean): string {
-  const maskInstruction = hasMask
-    ? "\n\nIMPORTANT: Apply changes ONLY where the mask image shows white pixels (value 255). Leave all other areas completely unchanged. Respect the mask boundaries precisely and maintain seamless blending at the edges."
-    : "";
 
-  return `Edit this image according to the following instruction: ${instruction}
-
-Maintain the original image's lighting, perspective, and overall composition. Make the changes look natural and seamlessly integrated.${maskInstruction}
+// Batch and video jobs go back to the provider that started them; jobs recorded before
+// providers existed belong to the default one
+function getJobProvider(job: Pick<JobRecord, 'kind' | 'provider'>): ImageProvider {
+  if (job.provider) return getProvider(job.provider);
+  return getDefaultProvider(job.kind === 'video' ? 'video' : 'image');
+}
 
-Preserve image quality and ensure the edit looks professional and realistic.`;
+function getProviderByJobName(externalName: string, kind: JobRecord['kind']): ImageProvider {
+  return getJobProvider(jobStore.findByExternalName(externalName) ?? { kind });
 }
 
-function buildSegmentationPrompt(query: string): string {
-  return `Analyze this image and create a segmentation mask for: ${query}
+function sendApiError(res: express.Response, status: number, body: ApiErrorBody) {
+  res.status(status).json(body);
+}
 
-Return a JSON object with this exact structure:
-{
-  "masks": [
-    {
-      "label": "description of the segmented object",
-      "box_2d": [x, y, width, height],
-      "mask": "base64-encoded binary mask image"
-    }
-  ]
+function sendValidationError(res: express.Response, fields: FieldError[]) {
+  sendApiError(res, 400, { error: 'Invalid request', code: 'VALIDATION_ERROR', fields });
 }
 
-Only segment the specific object or region requested. The mask should be a binary PNG where white pixels (255) indicate the selected region and black pixels (0) indicate the background.`;
+function sendNotFound(res: express.Response, message: string) {
+  sendApiError(res, 404, { error: message, code: 'NOT_FOUND' });
 }
 
-function buildImageConfig(aspectRatio?: string, resolutionTier?: string) {
-  const imageConfig: Record<string, string> = {};
-  if (aspectRatio && aspectRatio !== 'auto') {
-    imageConfig.aspectRatio = aspectRatio;
-  }
-  if (resolutionTier) {
-    imageConfig.imageSize = resolutionTier;
+// Provider errors carry their own status and code (e.g. 400 NOT_READY for a video that
+// isn't ready yet); anything else is an unexpected 500
+function sendError(res: express.Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof ProviderError) {
+    return res.status(error.status).json({ error: error.message, code: error.code, ...error.details });
   }
-  return Object.keys(imageConfig).length > 0 ? imageConfig : undefined;
+  sendApiError(res, 500, { error: (error instanceof Error && error.message) || fallbackMessage, code: 'INTERNAL_ERROR' });
 }
 
-// POST /api/generate - Generate images from prompt
-app.post('/api/generate', async (req, res) => {
-  try {
-    const { prompt, referenceImages, temperature, seed, model, safetySettings, aspectRatio, resolutionTier, variantCount } = req.body;
-
-    const contents: any[] = [];
-    const config: Record<string, unknown> = {
-      safetySettings: safetySettings ?? DEFAULT_SAFETY_SETTINGS,
-    };
-
-    if (temperature !== undefined) {
-      config.temperature = temperature;
-    }
-    if (seed !== undefined) {
-      config.seed = seed;
-    }
-    if (variantCount !== undefined) {
-      config.candidateCount = Math.max(1, Number(variantCount) || 1);
-    }
-    const imageConfig = buildImageConfig(aspectRatio, resolutionTier);
-    if (imageConfig) {
-      config.imageConfig = imageConfig;
-    }
-
-    // Add prompt first
-    contents.push({ text: prompt });
-
-    // Add reference images if provided
-    if (referenceImages && referenceImages.length > 0) {
-      contents.push({
-        text: `[${referenceImages.length} reference image(s) provided as reference-1 through reference-${referenceImages.length}]`
-      });
-      referenceImages.forEach((image: string, index: number) => {
-        contents.push({ text: `reference-${index + 1}:` });
-        contents.push({
-          inlineData: {
-            mimeType: "image/png",
-            data: image,
-          },
-        });
-      });
-    }
-
-    const response = await genAI.models.generateContent({
-      model: model ?? DEFAULT_MODEL,
-      contents,
-      config,
-    });
+// Rejects bodies that don't match the shared request schema with a 400 listing each bad
+// field, and replaces req.body with the parsed value (unknown fields dropped)
+function validateBody(schema: z.ZodType): express.RequestHandler {
+  return (req, res, next) => {
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return sendValidationError(res, toFieldErrors(result.error));
+    }
+    req.body = result.data;
+    next();
+  };
+}
 
-    const images: string[] = [];
-    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
-      if (part.inlineData?.data) {
-        images.push(part.inlineData.data);
-      }
-    }
+// GET /api/models - Models offered by the registered providers
+app.get('/api/models', (_req, res) => {
+  res.json({ models: listModels() });
+});
 
-    res.json({ images });
-  } catch (error: any) {
+// POST /api/generate - Generate images from prompt
+app.post('/api/generate', validateBody(generateRequestSchema), async (req, res) => {
+  try {
+    const { provider, model } = resolveModel('image', req.body.model);
+    res.json(await provider.generate({ ...req.body, model }));
+  } catch (error) {
     console.error('Error in /api/generate:', error);
-    res.status(500).json({ error: error.message || 'Failed to generate image' });
+    sendError(res, error, 'Failed to generate image');
   }
 });
 
 // POST /api/edit - Edit an existing image
-app.post('/api/edit', async (req, res) => {
+app.post('/api/edit', validateBody(editRequestSchema), async (req, res) => {
   try {
-    const { instruction, originalImage, referenceImages, maskImage, temperature, seed, model, safetySettings, aspectRatio, resolutionTier, variantCount } = req.body;
-
-    const contents: any[] = [];
-    const config: Record<string, unknown> = {
-      safetySettings: safetySettings ?? DEFAULT_SAFETY_SETTINGS,
-    };
-
-    if (temperature !== undefined) {
-      config.temperature = temperature;
-    }
-    if (seed !== undefined) {
-      config.seed = seed;
-    }
-    if (variantCount !== undefined) {
-      config.candidateCount = Math.max(1, Number(variantCount) || 1);
-    }
-    const imageConfig = buildImageConfig(aspectRatio, resolutionTier);
-    if (imageConfig) {
-      config.imageConfig = imageConfig;
-    }
-
-    // Add instruction first
-    contents.push({ text: buildEditPrompt(instruction, !!maskImage) });
-
-    // Add original image to edit
-    contents.push({
-      inlineData: {
-        mimeType: "image/png",
-        data: originalImage,
-      },
-    });
-
-    // Add reference images if provided
-    if (referenceImages && referenceImages.length > 0) {
-      contents.push({
-        text: `[${referenceImages.length} reference image(s) provided as reference-1 through reference-${referenceImages.length}]`
-      });
-      referenceImages.forEach((image: string, index: number) => {
-        contents.push({ text: `reference-${index + 1}:` });
-        contents.push({
-          inlineData: {
-            mimeType: "image/png",
-            data: image,
-          },
-        });
-      });
-    }
-
-    // Add mask image if provided
-    if (maskImage) {
-      contents.push({
-        inlineData: {
-          mimeType: "image/png",
-          data: maskImage,
-        },
-      });
-    }
-
-    const response = await genAI.models.generateContent({
-      model: model ?? DEFAULT_MODEL,
-      contents,
-      config,
-    });
-
-    const images: string[] = [];
-    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
-      if (part.inlineData?.data) {
-        images.push(part.inlineData.data);
-      }
-    }
-
-    res.json({ images });
-  } catch (error: any) {
+    const { provider, model } = resolveModel('image', req.body.model);
+    res.json(await provider.edit({ ...req.body, model }));
+  } catch (error) {
     console.error('Error in /api/edit:', error);
-    res.status(500).json({ error: error.message || 'Failed to edit image' });
+    sendError(res, error, 'Failed to edit image');
   }
 });
 
 // POST /api/segment - Segment an image
-app.post('/api/segment', async (req, res) => {
+app.post('/api/segment', validateBody(segmentRequestSchema), async (req, res) => {
   try {
-    const { query, image, maskImage, temperature, seed, model, safetySettings, aspectRatio, resolutionTier } = req.body;
-
-    if ((image && maskImage) || (!image && !maskImage)) {
-      return res.status(400).json({ error: 'Provide either image or maskImage, but not both' });
-    }
+    const { image, maskImage, ...input } = req.body;
 
-    const targetImage = maskImage ?? image;
-
-    const contents = [
-      { text: buildSegmentationPrompt(query) },
-      {
-        inlineData: {
-          mimeType: "image/png",
-          data: targetImage,
-        },
-      },
-    ];
-
-    const config: Record<string, unknown> = {
-      safetySettings: safetySettings ?? DEFAULT_SAFETY_SETTINGS,
-    };
-
-    if (temperature !== undefined) {
-      config.temperature = temperature;
-    }
-    if (seed !== undefined) {
-      config.seed = seed;
-    }
-    const imageConfig = buildImageConfig(aspectRatio, resolutionTier);
-    if (imageConfig) {
-      config.imageConfig = imageConfig;
-    }
-
-    const response = await genAI.models.generateContent({
-      model: model ?? DEFAULT_MODEL,
-      contents,
-      config,
-    });
-
-    const responseText = response.candidates?.[0]?.content?.parts?.[0]?.text;
-    if (!responseText) {
-      throw new Error('No response text received');
-    }
-
-    // Try to parse as JSON, otherwise return raw text
-    try {
-      const jsonResponse = JSON.parse(responseText);
-      res.json(jsonResponse);
-    } catch {
-      res.json({ raw: responseText });
-    }
-  } catch (error: any) {
+    const { provider, model } = resolveModel('image', input.model);
+    res.json(await provider.segment({ ...input, model, image: maskImage ?? image }));
+  } catch (error) {
     console.error('Error in /api/segment:', error);
-    res.status(500).json({ error: error.message || 'Failed to segment image' });
+    sendError(res, error, 'Failed to segment image');
   }
 });
 
 // POST /api/batch/generate - Submit batch generation request
-app.post('/api/batch/generate', async (req, res) => {
+app.post('/api/batch/generate', validateBody(generateRequestSchema), async (req, res) => {
   try {
-    const { prompt, referenceImages, temperature, seed, model, safetySettings, aspectRatio, resolutionTier, variantCount } = req.body;
-
-    const contents: any[] = [];
-
-    contents.push({ text: prompt });
-
-    if (referenceImages && referenceImages.length > 0) {
-      contents.push({
-        text: `[${referenceImages.length} reference image(s) provided as reference-1 through reference-${referenceImages.length}]`
-      });
-      referenceImages.forEach((image: string, index: number) => {
-        contents.push({ text: `reference-${index + 1}:` });
-        contents.push({
-          inlineData: {
-            mimeType: "image/png",
-            data: image,
-          },
-        });
-      });
-    }
-
-    const inlinedConfig: Record<string, unknown> = {
-      safetySettings: safetySettings ?? DEFAULT_SAFETY_SETTINGS,
-    };
-
-    if (temperature !== undefined) {
-      inlinedConfig.temperature = temperature;
-    }
-    if (seed !== undefined) {
-      inlinedConfig.seed = seed;
-    }
-    const imageConfig = buildImageConfig(aspectRatio, resolutionTier);
-    if (imageConfig) {
-      inlinedConfig.imageConfig = imageConfig;
-    }
-
-    const requestCount = Math.max(1, Number(variantCount) || 1);
-    const inlinedRequests = Array.from({ length: requestCount }, () => ({
-      contents: [{
-        parts: contents,
-        role: 'user' as const
-      }],
-      config: inlinedConfig,
-    }));
-
-    const response = await genAI.batches.create({
-      model: model ?? DEFAULT_MODEL,
-      src: inlinedRequests,
-      config: {
-        displayName: `batch-${Date.now()}`,
-      }
+    const { prompt, temperature, seed, aspectRatio, resolutionTier, variantCount } = req.body;
+    const { provider, model } = resolveModel('image', req.body.model);
+    const batchName = await provider.submitBatchGenerate({ ...req.body, model });
+
+    const job = await jobStore.create({
+      kind: 'batch-generate',
+      provider: provider.id,
+      externalName: batchName,
+      model,
+      prompt,
+      params: { aspectRatio, resolutionTier, variantCount: variantCount ?? 1, temperature, seed },
+      clientRequestId: req.body.clientRequestId,
     });
 
-    res.json({ batchName: response.name || '' });
-  } catch (error: any) {
+    res.json({ batchName, jobId: job.id });
+  } catch (error) {
     console.error('Error in /api/batch/generate:', error);
-    res.status(500).json({ error: error.message || 'Failed to submit batch request' });
+    sendError(res, error, 'Failed to submit batch request');
   }
 });
 
 // POST /api/batch/edit - Submit batch edit request
-app.post('/api/batch/edit', async (req, res) => {
+app.post('/api/batch/edit', validateBody(editRequestSchema), async (req, res) => {
   try {
-    const { instruction, originalImage, referenceImages, maskImage, temperature, seed, model, safetySettings, aspectRatio, resolutionTier, variantCount } = req.body;
-
-    const contents: any[] = [];
-
-    contents.push({ text: buildEditPrompt(instruction, !!maskImage) });
-
-    contents.push({
-      inlineData: {
-        mimeType: "image/png",
-        data: originalImage,
+    const { instruction, maskImage, temperature, seed, aspectRatio, resolutionTier, variantCount } = req.body;
+    const { provider, model } = resolveModel('image', req.body.model);
+    const batchName = await provider.submitBatchEdit({ ...req.body, model });
+
+    const job = await jobStore.create({
+      kind: 'batch-edit',
+      provider: provider.id,
+      externalName: batchName,
+      model,
+      prompt: instruction,
+      params: {
+        aspectRatio,
+        resolutionTier,
+        variantCount: variantCount ?? 1,
+        temperature,
+        seed,
+        hasMask: !!maskImage
       },
+      clientRequestId: req.body.clientRequestId,
     });
 
-    if (referenceImages && referenceImages.length > 0) {
-      contents.push({
-        text: `[${referenceImages.length} reference image(s) provided as reference-1 through reference-${referenceImages.length}]`
-      });
-      referenceImages.forEach((image: string, index: number) => {
-        contents.push({ text: `reference-${index + 1}:` });
-        contents.push({
-          inlineData: {
-            mimeType: "image/png",
-            data: image,
-          },
-        });
-      });
-    }
-
-    if (maskImage) {
-      contents.push({
-        inlineData: {
-          mimeType: "image/png",
-          data: maskImage,
-        },
-      });
-    }
-
-    const inlinedConfig: Record<string, unknown> = {
-      safetySettings: safetySettings ?? DEFAULT_SAFETY_SETTINGS,
-    };
-
-    if (temperature !== undefined) {
-      inlinedConfig.temperature = temperature;
-    }
-    if (seed !== undefined) {
-      inlinedConfig.seed = seed;
-    }
-    const imageConfig = buildImageConfig(aspectRatio, resolutionTier);
-    if (imageConfig) {
-      inlinedConfig.imageConfig = imageConfig;
-    }
-
-    const requestCount = Math.max(1, Number(variantCount) || 1);
-    const inlinedRequests = Array.from({ length: requestCount }, () => ({
-      contents: [{
-        parts: contents,
-        role: 'user' as const
-      }],
-      config: inlinedConfig,
-    }));
-
-    const response = await genAI.batches.create({
-      model: model ?? DEFAULT_MODEL,
-      src: inlinedRequests,
-      config: {
-        displayName: `batch-edit-${Date.now()}`,
-      }
-    });
-
-    res.json({ batchName: response.name || '' });
-  } catch (error: any) {
+    res.json({ batchName, jobId: job.id });
+  } catch (error) {
     console.error('Error in /api/batch/edit:', error);
-    res.status(500).json({ error: error.message || 'Failed to submit batch edit request' });
+    sendError(res, error, 'Failed to submit batch edit request');
   }
 });
 
 // POST /api/batch/segment - Submit batch segmentation request
-app.post('/api/batch/segment', async (req, res) => {
+app.post('/api/batch/segment', validateBody(segmentRequestSchema), async (req, res) => {
   try {
-    const { query, image, maskImage, temperature, seed, model, safetySettings, aspectRatio, resolutionTier } = req.body;
-
-    if ((image && maskImage) || (!image && !maskImage)) {
-      return res.status(400).json({ error: 'Provide either image or maskImage, but not both' });
-    }
-
-    const targetImage = maskImage ?? image;
+    const { image, maskImage, ...input } = req.body;
 
-    const contents = [
-      { text: buildSegmentationPrompt(query) },
-      {
-        inlineData: {
-          mimeType: "image/png",
-          data: targetImage,
-        },
-      },
-    ];
-
-    const inlinedConfig: Record<string, unknown> = {
-      safetySettings: safetySettings ?? DEFAULT_SAFETY_SETTINGS,
-    };
-
-    if (temperature !== undefined) {
-      inlinedConfig.temperature = temperature;
-    }
-    if (seed !== undefined) {
-      inlinedConfig.seed = seed;
-    }
-    const imageConfig = buildImageConfig(aspectRatio, resolutionTier);
-    if (imageConfig) {
-      inlinedConfig.imageConfig = imageConfig;
-    }
+    const { provider, model } = resolveModel('image', input.model);
+    const batchName = await provider.submitBatchSegment({ ...input, model, image: maskImage ?? image });
 
-    const inlinedRequests = [{
-      contents: [{
-        parts: contents,
-        role: 'user' as const
-      }],
-      config: inlinedConfig,
-    }];
-
-    const response = await genAI.batches.create({
-      model: model ?? DEFAULT_MODEL,
-      src: inlinedRequests,
-      config: {
-        displayName: `batch-segment-${Date.now()}`,
-      }
+    const job = await jobStore.create({
+      kind: 'batch-segment',
+      provider: provider.id,
+      externalName: batchName,
+      model,
+      prompt: describeSegmentTarget(input),
+      params: { point: input.point, temperature: input.temperature, seed: input.seed },
     });
 
-    res.json({ batchName: response.name || '' });
-  } catch (error: any) {
+    res.json({ batchName, jobId: job.id });
+  } catch (error) {
     console.error('Error in /api/batch/segment:', error);
-    res.status(500).json({ error: error.message || 'Failed to submit batch segment request' });
+    sendError(res, error, 'Failed to submit batch segment request');
   }
 });
 
@@ -488,14 +218,15 @@ app.post('/api/batch/segment', async (req, res) => {
 app.get('/api/batch/:name', async (req, res) => {
   try {
     const { name } = req.params;
-    const response = await genAI.batches.get({ name });
-    res.json({
-      state: response.state || 'UNKNOWN',
-      destFileName: response.dest?.fileName
+    const status = await getProviderByJobName(name, 'batch-generate').getBatchStatus(name);
+    await jobStore.updateByExternalName(name, {
+      status: batchStateToStatus(status.state),
+      remoteState: status.state,
     });
-  } catch (error: any) {
+    res.json(status);
+  } catch (error) {
     console.error('Error in /api/batch/:name:', error);
-    res.status(500).json({ error: error.message || 'Failed to get batch status' });
+    sendError(res, error, 'Failed to get batch status');
   }
 });
 
@@ -503,44 +234,22 @@ app.get('/api/batch/:name', async (req, res) => {
 app.get('/api/batch/:name/results', async (req, res) => {
   try {
     const { name } = req.params;
-    const batchJob = await genAI.batches.get({ name });
-
-    if (batchJob.state !== 'JOB_STATE_SUCCEEDED') {
-      throw new Error(`Batch job not completed. Current state: ${batchJob.state}`);
-    }
-
-    const images: string[] = [];
-    const dest = batchJob.dest as any;
-
-    if (dest?.inlinedResponses && dest.inlinedResponses.length > 0) {
-      for (const item of dest.inlinedResponses) {
-        const response = item.response;
-        if (response?.candidates?.[0]?.content?.parts) {
-          for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData?.data) {
-              images.push(part.inlineData.data);
-            }
-          }
-        }
-      }
-    }
 
-    if (dest?.responses && dest.responses.length > 0) {
-      for (const response of dest.responses) {
-        if (response?.candidates?.[0]?.content?.parts) {
-          for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData?.data) {
-              images.push(part.inlineData.data);
-            }
-          }
-        }
-      }
+    // Served from disk once the job poller has collected them
+    const job = jobStore.findByExternalName(name);
+    const stored = job && await jobStore.readResults(job.id);
+    if (stored) {
+      const images = stored
+        .filter((result) => result.mimeType.startsWith('image/'))
+        .map((result) => ({ data: result.data.toString('base64'), mimeType: result.mimeType }));
+      return res.json({ images, usage: job.usage });
     }
 
-    res.json({ images });
-  } catch (error: any) {
+    const { images, usage } = await getProviderByJobName(name, 'batch-generate').getBatchResults(name);
+    res.json({ images, usage });
+  } catch (error) {
     console.error('Error in /api/batch/:name/results:', error);
-    res.status(500).json({ error: error.message || 'Failed to get batch results' });
+    sendError(res, error, 'Failed to get batch results');
   }
 });
 
@@ -549,257 +258,167 @@ app.get('/api/batch/:name/results', async (req, res) => {
 // ============================================
 
 // POST /api/video/generate - Start video generation (returns operation name for polling)
-app.post('/api/video/generate', async (req, res) => {
+app.post('/api/video/generate', validateBody(videoGenerateRequestSchema), async (req, res) => {
   try {
-    const {
-      prompt,
-      negativePrompt,
-      model,
-      aspectRatio,
-      resolution,
-      durationSeconds,
-      image,          // base64 - first frame
-      lastFrame,      // base64 - last frame
-      referenceImages, // base64[] - up to 3 style references
-      video,          // base64 - for video extension
-      seed
-    } = req.body;
-
-    if (!prompt) {
-      return res.status(400).json({ error: 'Prompt is required' });
-    }
-
-    // Build video generation config (for settings like aspectRatio, resolution, etc.)
-    const config: Record<string, unknown> = {};
-
-    // Check if this is interpolation mode (both first and last frame)
-    const isInterpolationMode = image && lastFrame;
+    const { prompt, negativePrompt, aspectRatio, resolution, durationSeconds, video, seed, interactive } = req.body;
 
-    if (negativePrompt) config.negativePrompt = negativePrompt;
-    if (aspectRatio) config.aspectRatio = aspectRatio;
+    const { provider, model } = resolveModel('video', req.body.model);
+    const operationName = await provider.startVideo({ ...req.body, model });
 
-    // Duration and resolution are NOT allowed in interpolation mode
-    if (!isInterpolationMode) {
-      if (resolution) config.resolution = resolution;
-      if (durationSeconds) config.durationSeconds = durationSeconds;
-    }
-
-    if (seed !== undefined) config.seed = seed;
-
-    // Build the generateVideos request params
-    // Note: image, video are TOP-LEVEL params, lastFrame goes in config
-    const generateParams: Record<string, unknown> = {
-      model: model && VIDEO_MODELS.includes(model) ? model : DEFAULT_VIDEO_MODEL,
+    const job = await jobStore.create({
+      kind: 'video',
+      provider: provider.id,
+      externalName: operationName,
+      model,
       prompt,
-    };
-
-    // Add config if we have any settings
-    if (Object.keys(config).length > 0) {
-      generateParams.config = config;
-    }
-
-    // Add first frame image (image-to-video) - TOP LEVEL param
-    if (image) {
-      generateParams.image = {
-        imageBytes: image,
-        mimeType: 'image/png'
-      };
-    }
-
-    // Add last frame image (interpolation mode) - INSIDE CONFIG
-    if (lastFrame) {
-      console.log('Interpolation mode:', isInterpolationMode);
-      config.lastFrame = {
-        imageBytes: lastFrame,
-        mimeType: 'image/png'
-      };
-      generateParams.config = config;
-    }
-
-    // Add reference images (up to 3) - TOP LEVEL param
-    if (referenceImages && referenceImages.length > 0) {
-      generateParams.referenceImages = referenceImages.slice(0, 3).map((img: string) => ({
-        referenceImage: {
-          imageBytes: img,
-          mimeType: 'image/png'
-        },
-        referenceType: 'REFERENCE_TYPE_STYLE'
-      }));
-    }
-
-    // Add source video for extension - TOP LEVEL param
-    if (video) {
-      generateParams.video = {
-        videoBytes: video,
-        mimeType: 'video/mp4'
-      };
-    }
-
-    // Log the params (without image bytes for brevity)
-    const paramsForLog = { ...generateParams };
-    if (paramsForLog.image) paramsForLog.image = { ...(generateParams.image as any), imageBytes: `[${(generateParams.image as any).imageBytes.length} chars]` };
-    if (paramsForLog.config && (paramsForLog.config as any).lastFrame) {
-      paramsForLog.config = { ...(paramsForLog.config as any), lastFrame: { ...((paramsForLog.config as any).lastFrame), imageBytes: `[${((paramsForLog.config as any).lastFrame).imageBytes.length} chars]` } };
-    }
-
-    // Call Veo API - returns long-running operation
-    const operation = await genAI.models.generateVideos(generateParams as any);
+      params: { negativePrompt, aspectRatio, resolution, durationSeconds, seed, extend: !!video, interactive },
+      clientRequestId: req.body.clientRequestId,
+    });
 
     res.json({
-      operationName: operation.name,
-      model: generateParams.model as string
+      operationName,
+      model,
+      jobId: job.id
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error in /api/video/generate:', error);
-    res.status(500).json({ error: error.message || 'Failed to start video generation' });
+    sendError(res, error, 'Failed to start video generation');
   }
 });
 
 // GET /api/video/operation/status - Poll video operation status
 // Operation name passed as query param to handle names with slashes
-// Uses REST API directly since SDK requires full operation object which can't be serialized
 app.get('/api/video/operation/status', async (req, res) => {
   try {
     const operationName = req.query.name as string;
 
     if (!operationName) {
-      return res.status(400).json({ error: 'Operation name is required' });
-    }
-
-    // Poll operation status using REST API directly
-    // The SDK's getVideosOperation requires the full operation object with internal methods,
-    // which we can't reconstruct from just the name string
-    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/${operationName}?key=${API_KEY}`;
-    const apiResponse = await fetch(apiUrl);
-
-    if (!apiResponse.ok) {
-      const errorData = await apiResponse.json().catch(() => ({}));
-      throw new Error(errorData.error?.message || `API request failed with status ${apiResponse.status}`);
+      return sendValidationError(res, [{ field: 'name', message: 'Operation name is required' }]);
     }
 
-    const operation = await apiResponse.json();
-
-    const response: {
-      done: boolean;
-      state: string;
-      error?: string;
-      progress?: number;
-    } = {
-      done: operation.done ?? false,
-      state: operation.done
-        ? (operation.error ? 'FAILED' : 'SUCCEEDED')
-        : 'RUNNING'
-    };
-
-    if (operation.error) {
-      response.error = operation.error.message || 'Video generation failed';
-    }
+    const status = await getProviderByJobName(operationName, 'video').getVideoStatus(operationName);
 
-    // Include progress metadata if available
-    const metadata = operation.metadata;
-    if (metadata?.progress) {
-      response.progress = metadata.progress;
-    }
+    await jobStore.updateByExternalName(operationName, {
+      status: status.state === 'SUCCEEDED' ? 'succeeded' : status.state === 'FAILED' ? 'failed' : 'processing',
+      progress: status.progress,
+      error: status.error,
+    });
 
-    res.json(response);
-  } catch (error: any) {
+    res.json(status);
+  } catch (error) {
     console.error('Error in /api/video/operation/status:', error);
-    res.status(500).json({ error: error.message || 'Failed to get operation status' });
+    sendError(res, error, 'Failed to get operation status');
   }
 });
 
 // GET /api/video/operation/result - Get completed video as base64
 // Operation name passed as query param to handle names with slashes
-// Uses REST API directly since SDK requires full operation object
 app.get('/api/video/operation/result', async (req, res) => {
   try {
     const operationName = req.query.name as string;
 
     if (!operationName) {
-      return res.status(400).json({ error: 'Operation name is required' });
-    }
-
-    // First verify operation is complete using REST API
-    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/${operationName}?key=${API_KEY}`;
-    const apiResponse = await fetch(apiUrl);
-
-    if (!apiResponse.ok) {
-      const errorData = await apiResponse.json().catch(() => ({}));
-      throw new Error(errorData.error?.message || `API request failed with status ${apiResponse.status}`);
+      return sendValidationError(res, [{ field: 'name', message: 'Operation name is required' }]);
+    }
+
+    // Served from disk once the job poller has collected it
+    const job = jobStore.findByExternalName(operationName);
+    const stored = job && await jobStore.readResults(job.id);
+    const storedVideo = stored?.find((result) => result.mimeType.startsWith('video/'));
+    if (storedVideo) {
+      return res.json({
+        video: storedVideo.data.toString('base64'),
+        mimeType: storedVideo.mimeType,
+        durationSeconds: storedVideo.durationSeconds ?? 0,
+        width: storedVideo.width ?? 1920,
+        height: storedVideo.height ?? 1080
+      });
     }
 
-    const operation = await apiResponse.json();
+    res.json(await getProviderByJobName(operationName, 'video').getVideoResult(operationName));
+  } catch (error) {
+    console.error('Error in /api/video/operation/result:', error);
+    sendError(res, error, 'Failed to retrieve video');
+  }
+});
 
-    if (!operation.done) {
-      return res.status(400).json({
-        error: 'Video generation not complete',
-        state: 'RUNNING'
-      });
-    }
+// ============================================
+// JOB REGISTRY ENDPOINTS
+// ============================================
 
-    if (operation.error) {
-      return res.status(400).json({
-        error: operation.error.message || 'Video generation failed',
-        state: 'FAILED'
-      });
-    }
+// GET /api/jobs - List every recorded batch and video job, newest first
+app.get('/api/jobs', (_req, res) => {
+  res.json({ jobs: jobStore.list() });
+});
 
-    // Get the video from the response
-    // The REST API response structure differs from SDK - check both possible formats
-    const response = operation.response;
-    const generatedVideos = response?.generateVideoResponse?.generatedSamples ||
-      response?.generatedVideos ||
-      response?.videos;
+// GET /api/jobs/:id - Get a single job record
+app.get('/api/jobs/:id', (req, res) => {
+  const job = jobStore.get(req.params.id);
+  if (!job) {
+    return sendNotFound(res, 'Job not found');
+  }
+  res.json(job);
+});
 
-    if (!generatedVideos || generatedVideos.length === 0) {
-      return res.status(404).json({ error: 'No video generated' });
-    }
+// DELETE /api/jobs/:id - Forget a job (does not cancel it upstream)
+app.delete('/api/jobs/:id', async (req, res) => {
+  const deleted = await jobStore.delete(req.params.id);
+  if (!deleted) {
+    return sendNotFound(res, 'Job not found');
+  }
+  res.json({ deleted: true });
+});
 
-    const videoData = generatedVideos[0].video || generatedVideos[0];
-
-    // Check if video has URI (needs download) or base64 data
-    if (videoData.uri) {
-      // Download video from URI directly via fetch
-      // URI may already have query params (e.g., ?alt=media), so use & if needed
-      const separator = videoData.uri.includes('?') ? '&' : '?';
-      const downloadUrl = `${videoData.uri}${separator}key=${API_KEY}`;
-      console.log('Downloading video from URI:', downloadUrl);
-      const videoResponse = await fetch(downloadUrl);
-
-      if (!videoResponse.ok) {
-        throw new Error(`Failed to download video: ${videoResponse.status}`);
-      }
-
-      const videoBuffer = await videoResponse.arrayBuffer();
-      const base64Video = Buffer.from(videoBuffer).toString('base64');
-
-      res.json({
-        video: base64Video,
-        mimeType: videoData.mimeType || videoData.encoding || 'video/mp4',
-        durationSeconds: videoData.duration || 0,
-        width: videoData.width || 1920,
-        height: videoData.height || 1080
-      });
-    } else if (videoData.encodedVideo || videoData.videoBytes) {
-      // Video is already base64 encoded
-      res.json({
-        video: videoData.encodedVideo || videoData.videoBytes,
-        mimeType: videoData.mimeType || videoData.encoding || 'video/mp4',
-        durationSeconds: videoData.duration || 0,
-        width: videoData.width || 1920,
-        height: videoData.height || 1080
-      });
-    } else {
-      console.error('Unexpected video response format:', JSON.stringify(videoData, null, 2));
-      console.error('Full response:', JSON.stringify(response, null, 2));
-      return res.status(500).json({ error: 'Unexpected video response format' });
-    }
-  } catch (error: any) {
-    console.error('Error in /api/video/operation/result:', error);
-    res.status(500).json({ error: error.message || 'Failed to retrieve video' });
+// GET /api/jobs/:id/results/:file - Download a result file saved by the job poller
+app.get('/api/jobs/:id/results/:file', (req, res) => {
+  const filePath = jobStore.getResultPath(req.params.id, req.params.file);
+  if (!filePath) {
+    return sendNotFound(res, 'Result not found');
   }
+  res.sendFile(filePath);
+});
+
+// GET /api/events - Server-Sent Events stream of job registry changes
+// Emits job-state, job-progress and job-complete (each carrying the job record) and job-deleted
+app.get('/api/events', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+  // Tells EventSource how long to wait before reconnecting after a drop
+  res.write('retry: 3000\n\n');
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  const onChange = (job: JobRecord, previous: JobRecord | undefined) => {
+    for (const event of getJobEvents(job, previous)) {
+      send(event, job);
+    }
+  };
+  const onDelete = (id: string) => send('job-deleted', { id });
+
+  jobStore.on('change', onChange);
+  jobStore.on('delete', onDelete);
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 25_000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    jobStore.off('change', onChange);
+    jobStore.off('delete', onDelete);
+  });
 });
 
+// ============================================
+// BACKGROUND JOB POLLER
+// ============================================
+
+// Collects batch and video results on the server so they're ready even if no client is open
+const jobPoller = new JobPoller(jobStore, getJobProvider);
+
 // Note: Video generation does not support the Batch API like images do.
 // Video generation is inherently async - you start a generation and poll for completion.
 // The frontend "queue" for video uses the regular /api/video/generate endpoint
@@ -807,4 +426,5 @@ app.get('/api/video/operation/result', async (req, res) => {
 
 app.listen(PORT, () => {
   console.log(`API server running on http://localhost:${PORT}`);
+  jobPoller.start();
 });
@@ -0,0 +1,155 @@
+import { JobStore, JobRecord, JobResultInput, batchStateToStatus, isJobComplete } from './jobStore';
+import { ImageProvider } from './providers';
+import type { UsageMetadata } from '../src/types';
+
+interface Backoff {
+  min: number;
+  max: number;
+}
+
+// Batches take minutes to hours, Veo operations a minute or two
+const BATCH_BACKOFF: Backoff = { min: 15_000, max: 5 * 60_000 };
+const VIDEO_BACKOFF: Backoff = { min: 5_000, max: 20_000 };
+const BACKOFF_FACTOR = 1.5;
+const TICK_MS = 2_000;
+
+const getFileExtension = (mimeType: string) => mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'bin';
+
+interface PollSchedule {
+  delay: number;
+  nextPollAt: number;
+}
+
+// Polls every unfinished job in the store on its own backoff schedule and downloads the
+// outputs once a job succeeds, so results are collected even with no client connected
+export class JobPoller {
+  private schedules = new Map<string, PollSchedule>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private polling = false;
+
+  constructor(
+    private readonly store: JobStore,
+    private readonly getProvider: (job: JobRecord) => ImageProvider
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.store.on('delete', (id) => this.schedules.delete(id));
+    this.scheduleTick();
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private scheduleTick() {
+    this.timer = setTimeout(async () => {
+      await this.tick();
+      if (this.timer) this.scheduleTick();
+    }, TICK_MS);
+  }
+
+  // Includes jobs that succeeded before their outputs were saved (e.g. the server restarted
+  // mid-download)
+  private needsPolling(job: JobRecord): boolean {
+    return !!job.externalName && !isJobComplete(job);
+  }
+
+  private getBackoff(job: JobRecord): Backoff {
+    return job.kind === 'video' ? VIDEO_BACKOFF : BATCH_BACKOFF;
+  }
+
+  private async tick() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const now = Date.now();
+      for (const job of this.store.list()) {
+        if (!this.needsPolling(job)) {
+          this.schedules.delete(job.id);
+          continue;
+        }
+
+        const schedule = this.schedules.get(job.id) ?? { delay: this.getBackoff(job).min, nextPollAt: 0 };
+        this.schedules.set(job.id, schedule);
+        if (schedule.nextPollAt > now) continue;
+
+        const changed = await this.pollJob(job);
+        const { min, max } = this.getBackoff(job);
+        schedule.delay = changed ? min : Math.min(max, schedule.delay * BACKOFF_FACTOR);
+        schedule.nextPollAt = Date.now() + schedule.delay;
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Returns true when the job moved on, which resets its backoff
+  private async pollJob(job: JobRecord): Promise<boolean> {
+    try {
+      const updated = job.kind === 'video' ? await this.pollVideo(job) : await this.pollBatch(job);
+      if (updated?.status === 'succeeded' && !updated.results) {
+        await this.collectResults(updated);
+      }
+      return !!updated && updated.updatedAt !== job.updatedAt;
+    } catch (error) {
+      console.error(`Failed to poll job ${job.id} (${job.externalName}):`, error);
+      return false;
+    }
+  }
+
+  private async pollBatch(job: JobRecord): Promise<JobRecord | undefined> {
+    const { state } = await this.getProvider(job).getBatchStatus(job.externalName);
+    const status = batchStateToStatus(state);
+    return this.store.update(job.id, {
+      status,
+      remoteState: state,
+      error: status === 'failed' ? `Job ${state.replace('JOB_STATE_', '').toLowerCase()}` : undefined,
+    });
+  }
+
+  private async pollVideo(job: JobRecord): Promise<JobRecord | undefined> {
+    const { state, error, progress } = await this.getProvider(job).getVideoStatus(job.externalName);
+    return this.store.update(job.id, {
+      status: state === 'SUCCEEDED' ? 'succeeded' : state === 'FAILED' ? 'failed' : 'processing',
+      remoteState: state,
+      progress,
+      error,
+    });
+  }
+
+  private async collectResults(job: JobRecord) {
+    const { files, usage } = job.kind === 'video' ? { files: await this.fetchVideoFiles(job) } : await this.fetchBatchFiles(job);
+    await this.store.saveResults(job.id, files, usage);
+    console.log(`Saved ${files.length} result file(s) for job ${job.id}`);
+  }
+
+  private async fetchBatchFiles(job: JobRecord): Promise<{ files: JobResultInput[]; usage?: UsageMetadata }> {
+    const { images, texts, usage } = await this.getProvider(job).getBatchResults(job.externalName);
+    const files: JobResultInput[] = images.map((image, index) => ({
+      file: `image-${index + 1}.${getFileExtension(image.mimeType)}`,
+      mimeType: image.mimeType,
+      data: Buffer.from(image.data, 'base64'),
+    }));
+    texts.forEach((text, index) => files.push({
+      file: `response-${index + 1}.txt`,
+      mimeType: 'text/plain',
+      data: Buffer.from(text, 'utf8'),
+    }));
+    return { files, usage };
+  }
+
+  private async fetchVideoFiles(job: JobRecord): Promise<JobResultInput[]> {
+    const { video, mimeType, durationSeconds, width, height } = await this.getProvider(job).getVideoResult(job.externalName);
+    return [{
+      file: `video.${getFileExtension(mimeType)}`,
+      mimeType,
+      data: Buffer.from(video, 'base64'),
+      durationSeconds,
+      width,
+      height,
+    }];
+  }
+}
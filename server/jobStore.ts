@@ -0,0 +1,240 @@
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { promises as fs, readFileSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+import type { UsageMetadata } from '../src/types';
+
+export type JobKind = 'batch-generate' | 'batch-edit' | 'batch-segment' | 'video';
+export type JobStatus = 'submitted' | 'processing' | 'succeeded' | 'failed';
+
+// A downloaded output kept on disk under <store dir>/results/<job id>/
+export interface JobResultFile {
+  file: string;
+  mimeType: string;
+  size: number;
+  // Video only
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+}
+
+export type JobResultInput = Omit<JobResultFile, 'size'> & { data: Buffer };
+
+export interface JobRecord {
+  id: string;
+  kind: JobKind;
+  // Image provider that owns the job (missing on jobs recorded before providers existed)
+  provider?: string;
+  // The provider's batch job or video operation name
+  externalName: string;
+  model: string;
+  prompt: string;
+  // Request settings without image/video payloads
+  params: Record<string, unknown>;
+  // The client's queue entry for the job, so it can tell its own submissions from jobs to recover
+  clientRequestId?: string;
+  status: JobStatus;
+  remoteState?: string;
+  progress?: number;
+  error?: string;
+  // Set once the poller has downloaded the outputs of a succeeded job
+  results?: JobResultFile[];
+  // Token usage the provider reported for a batch job's responses
+  usage?: UsageMetadata;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+export type NewJob = Pick<JobRecord, 'kind' | 'provider' | 'externalName' | 'model' | 'prompt' | 'params' | 'clientRequestId'>;
+export type JobUpdate = Partial<Pick<JobRecord, 'status' | 'remoteState' | 'progress' | 'error' | 'results' | 'usage' | 'completedAt'>>;
+
+export interface JobStoreEvents {
+  change: [job: JobRecord, previous: JobRecord | undefined];
+  delete: [id: string];
+}
+
+export type JobEventType = 'job-state' | 'job-progress' | 'job-complete';
+
+const DEFAULT_STORE_PATH = 'server/data/jobs.json';
+
+// Maps a Batch API job state onto our coarse job status
+export function batchStateToStatus(state: string | undefined): JobStatus {
+  switch (state) {
+    case 'JOB_STATE_SUCCEEDED':
+      return 'succeeded';
+    case 'JOB_STATE_FAILED':
+    case 'JOB_STATE_CANCELLED':
+    case 'JOB_STATE_EXPIRED':
+      return 'failed';
+    case 'JOB_STATE_RUNNING':
+      return 'processing';
+    default:
+      return 'submitted';
+  }
+}
+
+// Failed, or succeeded with the outputs already saved to disk
+export function isJobComplete(job: JobRecord): boolean {
+  return job.status === 'failed' || (job.status === 'succeeded' && !!job.results);
+}
+
+// The client-facing events a record change amounts to
+export function getJobEvents(job: JobRecord, previous: JobRecord | undefined): JobEventType[] {
+  const events: JobEventType[] = [];
+  if (!previous || previous.status !== job.status || previous.remoteState !== job.remoteState) {
+    events.push('job-state');
+  }
+  if (job.progress !== undefined && job.progress !== previous?.progress) {
+    events.push('job-progress');
+  }
+  if (isJobComplete(job) && !(previous && isJobComplete(previous))) {
+    events.push('job-complete');
+  }
+  return events;
+}
+
+// Durable registry of every batch and video job the server has started, kept in a
+// JSON file so jobs survive restarts and can be recovered by any client
+export class JobStore extends EventEmitter<JobStoreEvents> {
+  private jobs = new Map<string, JobRecord>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private readonly resultsDir: string;
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.resultsDir = path.join(path.dirname(filePath), 'results');
+    this.load();
+  }
+
+  private load() {
+    try {
+      const records: JobRecord[] = JSON.parse(readFileSync(this.filePath, 'utf8'));
+      for (const record of records) {
+        this.jobs.set(record.id, record);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read job store at ${this.filePath}:`, error);
+      }
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+    }
+  }
+
+  // Writes are serialized and go through a temp file + rename so a crash never leaves a torn file
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.list(), null, 2);
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, snapshot, 'utf8');
+        await fs.rename(tempPath, this.filePath);
+      })
+      .catch((error) => console.error('Failed to write job store:', error));
+    return this.writeQueue;
+  }
+
+  list(): JobRecord[] {
+    return [...this.jobs.values()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  get(id: string): JobRecord | undefined {
+    return this.jobs.get(id);
+  }
+
+  findByExternalName(externalName: string): JobRecord | undefined {
+    for (const job of this.jobs.values()) {
+      if (job.externalName === externalName) return job;
+    }
+    return undefined;
+  }
+
+  async create(job: NewJob): Promise<JobRecord> {
+    const now = Date.now();
+    const record: JobRecord = {
+      ...job,
+      id: randomUUID(),
+      status: 'submitted',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(record.id, record);
+    await this.persist();
+    this.emit('change', record, undefined);
+    return record;
+  }
+
+  async update(id: string, update: JobUpdate): Promise<JobRecord | undefined> {
+    const existing = this.jobs.get(id);
+    if (!existing) return undefined;
+
+    const changed = (Object.keys(update) as (keyof JobUpdate)[])
+      .some((key) => update[key] !== existing[key]);
+    if (!changed) return existing;
+
+    const record: JobRecord = { ...existing, ...update, updatedAt: Date.now() };
+    if (!record.completedAt && (record.status === 'succeeded' || record.status === 'failed')) {
+      record.completedAt = record.updatedAt;
+    }
+    this.jobs.set(id, record);
+    await this.persist();
+    this.emit('change', record, existing);
+    return record;
+  }
+
+  async updateByExternalName(externalName: string, update: JobUpdate): Promise<JobRecord | undefined> {
+    const job = this.findByExternalName(externalName);
+    return job ? this.update(job.id, update) : undefined;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.jobs.delete(id)) return false;
+    await this.persist();
+    await fs.rm(this.getResultsDir(id), { recursive: true, force: true });
+    this.emit('delete', id);
+    return true;
+  }
+
+  private getResultsDir(id: string): string {
+    return path.join(this.resultsDir, id);
+  }
+
+  // Writes a job's outputs to disk and records them, and their usage, on the job
+  async saveResults(id: string, files: JobResultInput[], usage?: UsageMetadata): Promise<JobRecord | undefined> {
+    if (!this.jobs.has(id)) return undefined;
+
+    const dir = this.getResultsDir(id);
+    await fs.mkdir(dir, { recursive: true });
+    for (const { file, data } of files) {
+      await fs.writeFile(path.join(dir, path.basename(file)), data);
+    }
+
+    return this.update(id, {
+      results: files.map(({ data, ...result }) => ({ ...result, file: path.basename(result.file), size: data.length })),
+      usage,
+    });
+  }
+
+  // Absolute path of a stored result, or undefined if the job has no such file
+  getResultPath(id: string, file: string): string | undefined {
+    const result = this.jobs.get(id)?.results?.find((r) => r.file === file);
+    return result ? path.join(this.getResultsDir(id), result.file) : undefined;
+  }
+
+  async readResults(id: string): Promise<(JobResultFile & { data: Buffer })[] | undefined> {
+    const job = this.jobs.get(id);
+    if (!job?.results) return undefined;
+
+    try {
+      return await Promise.all(job.results.map(async (result) => ({
+        ...result,
+        data: await fs.readFile(path.join(this.getResultsDir(id), result.file)),
+      })));
+    } catch (error) {
+      console.error(`Failed to read stored results for job ${id}:`, error);
+      return undefined;
+    }
+  }
+}
+
+export const jobStore = new JobStore(path.resolve(process.env.JOB_STORE_PATH || DEFAULT_STORE_PATH));
@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatTurn } from '../../src/types';
+import { GeminiProvider } from './gemini';
+import { EditInput, GenerateInput, SegmentInput } from './types';
+
+// The SDK client, recording what each path sends instead of calling the API
+const sdk = vi.hoisted(() => ({
+  generateContent: vi.fn(),
+  createBatch: vi.fn(),
+}));
+
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: class {
+    models = { generateContent: sdk.generateContent };
+    batches = { create: sdk.createBatch };
+  },
+}));
+
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+const MODEL = 'gemini-3-pro-image-preview';
+
+const provider = new GeminiProvider('test-key');
+
+// The requests a direct call made, as the Batch API would receive them
+const sentDirectly = () => sdk.generateContent.mock.calls.map(([{ model, ...request }]) => {
+  expect(model).toBe(MODEL);
+  return request;
+});
+const sentInBatch = () => {
+  const [{ model, src }] = sdk.createBatch.mock.calls[0];
+  expect(model).toBe(MODEL);
+  return src;
+};
+
+beforeEach(() => {
+  sdk.generateContent.mockReset().mockResolvedValue({ candidates: [] });
+  sdk.createBatch.mockReset().mockResolvedValue({ name: 'batches/test' });
+});
+
+describe('sync and batch payloads', () => {
+  it('match for generate requests, with a seed per variant', async () => {
+    const input: GenerateInput = {
+      prompt: 'A lighthouse at dusk',
+      referenceImages: [PNG, PNG],
+      model: MODEL,
+      seed: 40,
+      temperature: 0.5,
+      aspectRatio: '16:9',
+      resolutionTier: '2K',
+      variantCount: 3,
+    };
+    await provider.generate(input);
+    await provider.submitBatchGenerate(input);
+
+    const requests = sentDirectly();
+    expect(requests).toEqual(sentInBatch());
+    expect(requests).toHaveLength(3);
+    expect(requests.map((request) => request.config.seed)).toEqual([40, 41, 42]);
+    expect(requests[0].config.imageConfig).toEqual({ aspectRatio: '16:9', imageSize: '2K' });
+  });
+
+  it('label reference images reference-1..N', async () => {
+    const input: GenerateInput = { prompt: 'Combine these', referenceImages: [PNG, PNG], model: MODEL };
+    await provider.generate(input);
+    await provider.submitBatchGenerate(input);
+
+    const requests = sentDirectly();
+    expect(requests).toEqual(sentInBatch());
+    const texts = requests[0].contents[0].parts.map((part: { text?: string }) => part.text);
+    expect(texts).toEqual([
+      'Combine these',
+      '[2 reference image(s) provided as reference-1 through reference-2]',
+      'reference-1:',
+      undefined,
+      'reference-2:',
+      undefined,
+    ]);
+  });
+
+  it('match for masked edits, with the mask last', async () => {
+    const input: EditInput = {
+      instruction: 'Make the sky stormy',
+      originalImage: PNG,
+      referenceImages: [PNG],
+      maskImage: 'mask-data',
+      model: MODEL,
+      seed: 7,
+      variantCount: 2,
+    };
+    await provider.edit(input);
+    await provider.submitBatchEdit(input);
+
+    const requests = sentDirectly();
+    expect(requests).toEqual(sentInBatch());
+    expect(requests.map((request) => request.config.seed)).toEqual([7, 8]);
+    const { parts } = requests[0].contents[0];
+    expect(parts[0].text).toContain('Make the sky stormy');
+    expect(parts[0].text).toContain('ONLY where the mask image shows white pixels');
+    expect(parts[1].inlineData.data).toBe(PNG);
+    expect(parts.at(-1).inlineData.data).toBe('mask-data');
+  });
+
+  it('match for chat edits, replaying history with thought signatures', async () => {
+    const history: ChatTurn[] = [
+      { role: 'user', parts: [{ text: 'Add a boat' }, { image: PNG }] },
+      { role: 'model', parts: [{ text: 'Added a boat.', thoughtSignature: 'sig-text' }, { image: PNG, thoughtSignature: 'sig-image' }] },
+    ];
+    const input: EditInput = { instruction: 'Now make it red', originalImage: PNG, history, model: MODEL };
+    await provider.edit(input);
+    await provider.submitBatchEdit(input);
+
+    const requests = sentDirectly();
+    expect(requests).toEqual(sentInBatch());
+    const { contents } = requests[0];
+    expect(contents.map((content: { role: string }) => content.role)).toEqual(['user', 'model', 'user']);
+    expect(contents[1].parts[0]).toEqual({ text: 'Added a boat.', thoughtSignature: 'sig-text' });
+    expect(contents[1].parts[1].thoughtSignature).toBe('sig-image');
+    expect(contents[1].parts[1].inlineData.data).toBe(PNG);
+    // The turn is the instruction as typed; the history already holds the image
+    expect(contents[2].parts).toEqual([{ text: 'Now make it red' }]);
+  });
+
+  it('match for segment requests, asking for text only', async () => {
+    sdk.generateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: '[]' }] } }] });
+    const input: SegmentInput = { query: 'the boat', image: PNG, model: MODEL };
+    await provider.segment(input);
+    await provider.submitBatchSegment(input);
+
+    const requests = sentDirectly();
+    expect(requests).toEqual(sentInBatch());
+    expect(requests[0].config.responseModalities).toEqual(['TEXT']);
+  });
+});
+
+describe('input images', () => {
+  it('are sent with the mime type of their data', async () => {
+    const jpeg = '/9j/4AAQSkZJRgABAQAAAQABAAD';
+    const webp = 'UklGRiQAAABXRUJQVlA4IBgAAAA';
+    await provider.edit({
+      instruction: 'Blend these',
+      originalImage: jpeg,
+      referenceImages: [`data:image/webp;base64,${webp}`, PNG],
+      model: MODEL,
+    });
+
+    const images = sentDirectly()[0].contents[0].parts
+      .filter((part: { inlineData?: unknown }) => part.inlineData)
+      .map((part: { inlineData: { mimeType: string; data: string } }) => part.inlineData);
+    expect(images).toEqual([
+      { mimeType: 'image/jpeg', data: jpeg },
+      { mimeType: 'image/webp', data: webp },
+      { mimeType: 'image/png', data: PNG },
+    ]);
+  });
+});
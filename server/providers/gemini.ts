@@ -0,0 +1,451 @@
+import { GoogleGenAI, BatchJobDestination, Candidate, GenerateContentResponse, MediaModality, ModalityTokenCount, SafetyRating } from '@google/genai';
+import type { ChatReplyPart, GeneratedImage, GenerationFeedback, SafetyRatingInfo, UsageMetadata } from '../../src/types';
+import {
+  ImageProvider,
+  ModelInfo,
+  GenerateInput,
+  EditInput,
+  SegmentInput,
+  VideoInput,
+  ImageResult,
+  SegmentResult,
+  BatchStatus,
+  BatchOutputs,
+  VideoStatus,
+  VideoOutput,
+  ProviderError,
+} from './types';
+import { GeminiRequest, compileGenerateRequests, compileEditRequests, compileSegmentRequest } from './geminiRequest';
+
+export const GEMINI_MODELS: ModelInfo[] = [
+  { id: 'gemini-3-pro-image-preview', name: 'Nano Banana Pro', kind: 'image' },
+  { id: 'gemini-2.5-flash-image', name: 'Nano Banana', kind: 'image' },
+  { id: 'veo-3.1-generate-preview', name: 'Veo 3.1', kind: 'video' },
+  { id: 'veo-3.1-fast-generate-preview', name: 'Veo 3.1 Fast', kind: 'video' },
+  { id: 'veo-3.0-generate-001', name: 'Veo 3.0', kind: 'video', preferredDefault: true },
+  { id: 'veo-3.0-fast-generate-001', name: 'Veo 3.0 Fast', kind: 'video' },
+];
+
+function collectImages(response: GenerateContentResponse): GeneratedImage[] {
+  const images: GeneratedImage[] = [];
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    // Thought parts can carry interim drafts, which aren't results
+    if (part.inlineData?.data && !part.thought) {
+      images.push({ data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' });
+    }
+  }
+  return images;
+}
+
+// Text and image parts of a response in order, with their thought signatures. Image
+// indexes continue from `firstImage`, the number of images in earlier variants.
+function collectReply(response: GenerateContentResponse, firstImage: number): ChatReplyPart[] {
+  let imageIndex = firstImage;
+  return (response.candidates?.[0]?.content?.parts ?? []).flatMap((part): ChatReplyPart[] => {
+    if (part.thought) return [];
+    const signature = part.thoughtSignature ? { thoughtSignature: part.thoughtSignature } : {};
+    if (part.inlineData?.data) return [{ imageIndex: imageIndex++, ...signature }];
+    if (part.text) return [{ text: part.text, ...signature }];
+    return [];
+  });
+}
+
+function toRatingInfo(ratings?: SafetyRating[]): SafetyRatingInfo[] {
+  return (ratings ?? []).map((rating) => ({
+    category: rating.category ?? 'HARM_CATEGORY_UNSPECIFIED',
+    probability: rating.probability ?? 'HARM_PROBABILITY_UNSPECIFIED',
+    blocked: rating.blocked,
+  }));
+}
+
+function collectTexts(candidates: Candidate[], thoughts: boolean): string[] {
+  return candidates.flatMap((candidate) =>
+    (candidate.content?.parts ?? []).flatMap((part) => (part.text && !!part.thought === thoughts ? [part.text] : []))
+  );
+}
+
+// Block reasons, finish reasons, safety ratings, text parts and thought summaries across
+// the responses of one request's variants
+function collectFeedback(responses: GenerateContentResponse[]): GenerationFeedback {
+  const blocked = responses.find((response) => response.promptFeedback?.blockReason);
+  const promptFeedback = (blocked ?? responses[0])?.promptFeedback;
+  const candidates = responses.flatMap((response) => response.candidates ?? []);
+
+  return {
+    blockReason: promptFeedback?.blockReason,
+    blockReasonMessage: promptFeedback?.blockReasonMessage,
+    promptSafetyRatings: toRatingInfo(promptFeedback?.safetyRatings),
+    candidates: candidates.map((candidate) => ({
+      finishReason: candidate.finishReason,
+      finishMessage: candidate.finishMessage,
+      safetyRatings: toRatingInfo(candidate.safetyRatings),
+    })),
+    texts: collectTexts(candidates, false),
+    thoughts: collectTexts(candidates, true),
+  };
+}
+
+function countImageTokens(details?: ModalityTokenCount[]): number {
+  return (details ?? [])
+    .filter((detail) => detail.modality === MediaModality.IMAGE)
+    .reduce((total, detail) => total + (detail.tokenCount ?? 0), 0);
+}
+
+// Token counts summed over the responses that reported usage metadata
+function collectUsage(responses: GenerateContentResponse[]): UsageMetadata | undefined {
+  const reported = responses.flatMap((response) => (response.usageMetadata ? [response.usageMetadata] : []));
+  if (reported.length === 0) return undefined;
+
+  return reported.reduce<UsageMetadata>((usage, metadata) => ({
+    calls: usage.calls + 1,
+    promptTokens: usage.promptTokens + (metadata.promptTokenCount ?? 0),
+    candidatesTokens: usage.candidatesTokens + (metadata.candidatesTokenCount ?? 0),
+    thoughtsTokens: usage.thoughtsTokens + (metadata.thoughtsTokenCount ?? 0),
+    totalTokens: usage.totalTokens + (metadata.totalTokenCount ?? 0),
+    promptImageTokens: usage.promptImageTokens + countImageTokens(metadata.promptTokensDetails),
+    outputImageTokens: usage.outputImageTokens + countImageTokens(metadata.candidatesTokensDetails),
+  }), {
+    calls: 0,
+    promptTokens: 0,
+    candidatesTokens: 0,
+    thoughtsTokens: 0,
+    totalTokens: 0,
+    promptImageTokens: 0,
+    outputImageTokens: 0,
+  });
+}
+
+// The model answers with a JSON list of masks, often inside a ```json fence. Anything else
+// comes back as raw text.
+function parseSegmentation(text: string): SegmentResult {
+  const json = text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '');
+  try {
+    const parsed = JSON.parse(json);
+    const masks = Array.isArray(parsed) ? parsed : parsed?.masks;
+    if (Array.isArray(masks)) {
+      return {
+        masks: masks.filter((mask) => Array.isArray(mask?.box_2d) && mask.box_2d.length === 4),
+      };
+    }
+  } catch {
+    // Not JSON
+  }
+  return { masks: [], raw: text };
+}
+
+interface GeneratedVideoData {
+  uri?: string;
+  encodedVideo?: string;
+  videoBytes?: string;
+  mimeType?: string;
+  encoding?: string;
+  duration?: number;
+  width?: number;
+  height?: number;
+}
+
+interface VideoOperation {
+  done?: boolean;
+  error?: { message?: string };
+  metadata?: { progress?: number };
+  response?: {
+    generateVideoResponse?: { generatedSamples?: (GeneratedVideoData & { video?: GeneratedVideoData })[] };
+    generatedVideos?: (GeneratedVideoData & { video?: GeneratedVideoData })[];
+    videos?: (GeneratedVideoData & { video?: GeneratedVideoData })[];
+  };
+}
+
+// The REST API response structure differs from SDK - check both possible formats
+function getGeneratedVideo(operation: VideoOperation): GeneratedVideoData | undefined {
+  const response = operation.response;
+  const generatedVideos = response?.generateVideoResponse?.generatedSamples ||
+    response?.generatedVideos ||
+    response?.videos;
+
+  if (!generatedVideos || generatedVideos.length === 0) {
+    return undefined;
+  }
+  return generatedVideos[0].video || generatedVideos[0];
+}
+
+// Gemini API (Nano Banana image models, Batch API and Veo)
+export class GeminiProvider implements ImageProvider {
+  readonly id = 'gemini';
+  readonly models = GEMINI_MODELS;
+  private genAI: GoogleGenAI;
+
+  constructor(private readonly apiKey: string) {
+    this.genAI = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(input: GenerateInput): Promise<ImageResult> {
+    return this.generateImages(input.model, compileGenerateRequests(input));
+  }
+
+  async edit(input: EditInput): Promise<ImageResult> {
+    return this.generateImages(input.model, compileEditRequests(input));
+  }
+
+  async segment(input: SegmentInput): Promise<SegmentResult> {
+    const response = await this.genAI.models.generateContent({
+      model: input.model,
+      ...compileSegmentRequest(input),
+    });
+
+    const responseText = collectTexts(response.candidates ?? [], false).join('');
+    if (!responseText) {
+      throw new Error('No response text received');
+    }
+    return parseSegmentation(responseText);
+  }
+
+  async submitBatchGenerate(input: GenerateInput): Promise<string> {
+    return this.submitBatch(input.model, compileGenerateRequests(input), 'batch');
+  }
+
+  async submitBatchEdit(input: EditInput): Promise<string> {
+    return this.submitBatch(input.model, compileEditRequests(input), 'batch-edit');
+  }
+
+  async submitBatchSegment(input: SegmentInput): Promise<string> {
+    return this.submitBatch(input.model, [compileSegmentRequest(input)], 'batch-segment');
+  }
+
+  async getBatchStatus(name: string): Promise<BatchStatus> {
+    const response = await this.genAI.batches.get({ name });
+    return {
+      state: response.state || 'UNKNOWN',
+      destFileName: response.dest?.fileName
+    };
+  }
+
+  // Image and text parts of every response in a finished batch job, and their token usage
+  async getBatchResults(name: string): Promise<BatchOutputs> {
+    const batchJob = await this.genAI.batches.get({ name });
+
+    if (batchJob.state !== 'JOB_STATE_SUCCEEDED') {
+      throw new Error(`Batch job not completed. Current state: ${batchJob.state}`);
+    }
+
+    const images: BatchOutputs['images'] = [];
+    const texts: string[] = [];
+    // Results may come back as inlinedResponses or as a bare responses list
+    const dest = batchJob.dest as (BatchJobDestination & { responses?: GenerateContentResponse[] }) | undefined;
+    const responses = [
+      ...(dest?.inlinedResponses ?? []).map((item) => item.response),
+      ...(dest?.responses ?? []),
+    ].filter((response): response is GenerateContentResponse => !!response);
+
+    for (const response of responses) {
+      for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.thought) continue;
+        if (part.inlineData?.data) {
+          images.push({ data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' });
+        } else if (part.text) {
+          texts.push(part.text);
+        }
+      }
+    }
+
+    return { images, texts, usage: collectUsage(responses) };
+  }
+
+  async startVideo(input: VideoInput): Promise<string> {
+    const {
+      prompt,
+      negativePrompt,
+      model,
+      aspectRatio,
+      resolution,
+      durationSeconds,
+      image,
+      lastFrame,
+      referenceImages,
+      video,
+      seed
+    } = input;
+
+    // Build video generation config (for settings like aspectRatio, resolution, etc.)
+    const config: Record<string, unknown> = {};
+
+    // Check if this is interpolation mode (both first and last frame)
+    const isInterpolationMode = image && lastFrame;
+
+    if (negativePrompt) config.negativePrompt = negativePrompt;
+    if (aspectRatio) config.aspectRatio = aspectRatio;
+
+    // Duration and resolution are NOT allowed in interpolation mode
+    if (!isInterpolationMode) {
+      if (resolution) config.resolution = resolution;
+      if (durationSeconds) config.durationSeconds = durationSeconds;
+    }
+
+    if (seed !== undefined) config.seed = seed;
+
+    // Build the generateVideos request params
+    // Note: image, video are TOP-LEVEL params, lastFrame goes in config
+    const generateParams: Record<string, unknown> = {
+      model,
+      prompt,
+    };
+
+    // Add config if we have any settings
+    if (Object.keys(config).length > 0) {
+      generateParams.config = config;
+    }
+
+    // Add first frame image (image-to-video) - TOP LEVEL param
+    if (image) {
+      generateParams.image = {
+        imageBytes: image,
+        mimeType: 'image/png'
+      };
+    }
+
+    // Add last frame image (interpolation mode) - INSIDE CONFIG
+    if (lastFrame) {
+      console.log('Interpolation mode:', isInterpolationMode);
+      config.lastFrame = {
+        imageBytes: lastFrame,
+        mimeType: 'image/png'
+      };
+      generateParams.config = config;
+    }
+
+    // Add reference images (up to 3) - TOP LEVEL param
+    if (referenceImages && referenceImages.length > 0) {
+      generateParams.referenceImages = referenceImages.slice(0, 3).map((img: string) => ({
+        referenceImage: {
+          imageBytes: img,
+          mimeType: 'image/png'
+        },
+        referenceType: 'REFERENCE_TYPE_STYLE'
+      }));
+    }
+
+    // Add source video for extension - TOP LEVEL param
+    if (video) {
+      generateParams.video = {
+        videoBytes: video,
+        mimeType: 'video/mp4'
+      };
+    }
+
+    // Call Veo API - returns long-running operation
+    const operation = await this.genAI.models.generateVideos(generateParams as any);
+    return operation.name || '';
+  }
+
+  // Variants are sent as parallel requests, the same ones a batch job would contain
+  private async generateImages(model: string, requests: GeminiRequest[]): Promise<ImageResult> {
+    const responses = await Promise.all(
+      requests.map((request) => this.genAI.models.generateContent({ model, ...request }))
+    );
+    const images: GeneratedImage[] = [];
+    const replies = responses.map((response) => {
+      const reply = collectReply(response, images.length);
+      images.push(...collectImages(response));
+      return reply;
+    });
+    return { images, feedback: collectFeedback(responses), replies, usage: collectUsage(responses) };
+  }
+
+  private async submitBatch(model: string, requests: GeminiRequest[], displayName: string): Promise<string> {
+    const response = await this.genAI.batches.create({
+      model,
+      src: requests,
+      config: {
+        displayName: `${displayName}-${Date.now()}`,
+      }
+    });
+
+    return response.name || '';
+  }
+
+  // Poll operation status using REST API directly
+  // The SDK's getVideosOperation requires the full operation object with internal methods,
+  // which we can't reconstruct from just the name string
+  private async fetchVideoOperation(operationName: string): Promise<VideoOperation> {
+    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/${operationName}?key=${this.apiKey}`;
+    const apiResponse = await fetch(apiUrl);
+
+    if (!apiResponse.ok) {
+      const errorData = await apiResponse.json().catch(() => ({}));
+      throw new Error(errorData.error?.message || `API request failed with status ${apiResponse.status}`);
+    }
+
+    return apiResponse.json();
+  }
+
+  async getVideoStatus(name: string): Promise<VideoStatus> {
+    const operation = await this.fetchVideoOperation(name);
+
+    const status: VideoStatus = {
+      done: operation.done ?? false,
+      state: operation.done
+        ? (operation.error ? 'FAILED' : 'SUCCEEDED')
+        : 'RUNNING'
+    };
+
+    if (operation.error) {
+      status.error = operation.error.message || 'Video generation failed';
+    }
+
+    // Include progress metadata if available
+    const metadata = operation.metadata;
+    if (metadata?.progress) {
+      status.progress = metadata.progress;
+    }
+
+    return status;
+  }
+
+  async getVideoResult(name: string): Promise<VideoOutput> {
+    // First verify operation is complete using REST API
+    const operation = await this.fetchVideoOperation(name);
+
+    if (!operation.done) {
+      throw new ProviderError('Video generation not complete', 400, { state: 'RUNNING' }, 'NOT_READY');
+    }
+
+    if (operation.error) {
+      throw new ProviderError(operation.error.message || 'Video generation failed', 400, { state: 'FAILED' }, 'GENERATION_FAILED');
+    }
+
+    const videoData = getGeneratedVideo(operation);
+    if (!videoData) {
+      throw new ProviderError('No video generated', 404, undefined, 'NOT_FOUND');
+    }
+
+    let video = videoData.encodedVideo || videoData.videoBytes;
+
+    // Check if video has URI (needs download) or base64 data
+    if (videoData.uri) {
+      // URI may already have query params (e.g., ?alt=media), so use & if needed
+      const separator = videoData.uri.includes('?') ? '&' : '?';
+      const downloadUrl = `${videoData.uri}${separator}key=${this.apiKey}`;
+      console.log('Downloading video from URI:', videoData.uri);
+      const videoResponse = await fetch(downloadUrl);
+
+      if (!videoResponse.ok) {
+        throw new Error(`Failed to download video: ${videoResponse.status}`);
+      }
+
+      video = Buffer.from(await videoResponse.arrayBuffer()).toString('base64');
+    }
+
+    if (!video) {
+      console.error('Unexpected video response format:', JSON.stringify(videoData, null, 2));
+      console.error('Full response:', JSON.stringify(operation.response, null, 2));
+      throw new ProviderError('Unexpected video response format');
+    }
+
+    return {
+      video,
+      mimeType: videoData.mimeType || videoData.encoding || 'video/mp4',
+      durationSeconds: videoData.duration || 0,
+      width: videoData.width || 1920,
+      height: videoData.height || 1080
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  Content,
+  GenerateContentConfig,
+  HarmBlockThreshold,
+  HarmCategory,
+  ImageConfig,
+  Part,
+  SafetySetting,
+} from '@google/genai';
+import type { ChatTurn } from '../../src/types';
+import { detectImageMime } from '../../src/utils/imageUtils';
+import { GenerateInput, EditInput, SegmentInput, ImageOptions } from './types';
+import { describeSegmentTarget } from './segmentTarget';
+
+// Turns generate/edit/segment inputs into Gemini generateContent payloads. The sync and
+// batch paths both send exactly these requests, so a batch job asks for the same thing
+// as the equivalent direct call.
+
+const DEFAULT_SAFETY_SETTINGS: SafetySetting[] = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_CIVIC_INTEGRITY, threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE },
+];
+
+const MASK_INSTRUCTION = "\n\nIMPORTANT: Apply changes ONLY where the mask image shows white pixels (value 255). Leave all other areas completely unchanged. Respect the mask boundaries precisely and maintain seamless blending at the edges.";
+
+function buildEditPrompt(instruction: string, hasMask: boolean): string {
+  const maskInstruction = hasMask ? MASK_INSTRUCTION : "";
+
+  return `Edit this image according to the following instruction: ${instruction}
+
+Maintain the original image's lighting, perspective, and overall composition. Make the changes look natural and seamlessly integrated.${maskInstruction}
+
+Preserve image quality and ensure the edit looks professional and realistic.`;
+}
+
+// Outpainting: the image arrives padded onto a larger canvas with the new border masked,
+// and the instruction (if any) says what to fill it with
+function buildOutpaintPrompt(instruction: string): string {
+  return `Extend this image outward to fill the new area around it. The original picture sits unchanged inside a larger canvas; the area to paint is where the mask image shows white pixels, currently filled with flat gray.
+
+Continue the existing scene naturally into that area, matching its perspective, lighting, colors, textures and grain so the boundary is invisible. Do not alter, move, crop or rescale the original content.
+
+What the new area should show: ${instruction}`;
+}
+
+// Gemini's documented segmentation format: boxes as [ymin, xmin, ymax, xmax] normalized to
+// 0-1000, and a probability map PNG for each box
+function buildSegmentationPrompt(input: SegmentInput): string {
+  return `Give the segmentation masks for ${describeSegmentTarget(input)}. Points are given as [y, x] normalized to 0-1000.
+
+Output a JSON list of segmentation masks where each entry contains the 2D bounding box in the key "box_2d", the segmentation mask in key "mask", and the text label in the key "label". Use descriptive labels. Only include the specific object or region requested.`;
+}
+
+function buildImageConfig(aspectRatio?: string, resolutionTier?: string): ImageConfig | undefined {
+  const imageConfig: ImageConfig = {};
+  if (aspectRatio && aspectRatio !== 'auto') {
+    imageConfig.aspectRatio = aspectRatio;
+  }
+  if (resolutionTier) {
+    imageConfig.imageSize = resolutionTier;
+  }
+  return Object.keys(imageConfig).length > 0 ? imageConfig : undefined;
+}
+
+// Gemini 3 image models think before drawing and can return summaries of those thoughts
+function supportsThoughtSummaries(model: string): boolean {
+  return model.startsWith('gemini-3');
+}
+
+export interface GeminiRequest {
+  contents: Content[];
+  config: GenerateContentConfig;
+}
+
+// Images arrive as base64, or as data URLs; the format is read from the data itself
+function imagePart(image: string): Part {
+  const dataUrl = image.match(/^data:([^;,]+);base64,/);
+  const data = dataUrl ? image.slice(dataUrl[0].length) : image;
+  return { inlineData: { mimeType: dataUrl?.[1] ?? detectImageMime(data) ?? 'image/png', data } };
+}
+
+// Reference images are labelled reference-1..N so prompts can refer to them
+function referenceParts(referenceImages?: string[]): Part[] {
+  if (!referenceImages || referenceImages.length === 0) return [];
+  return [
+    { text: `[${referenceImages.length} reference image(s) provided as reference-1 through reference-${referenceImages.length}]` },
+    ...referenceImages.flatMap((image, index) => [{ text: `reference-${index + 1}:` }, imagePart(image)]),
+  ];
+}
+
+function buildConfig(options: ImageOptions, seedOffset = 0): GenerateContentConfig {
+  const { temperature, seed, safetySettings, aspectRatio, resolutionTier } = options;
+  const config: GenerateContentConfig = {
+    safetySettings: (safetySettings as SafetySetting[] | undefined) ?? DEFAULT_SAFETY_SETTINGS,
+  };
+
+  if (temperature !== undefined) {
+    config.temperature = temperature;
+  }
+  if (seed !== undefined) {
+    config.seed = seed + seedOffset;
+  }
+  const imageConfig = buildImageConfig(aspectRatio, resolutionTier);
+  if (imageConfig) {
+    config.imageConfig = imageConfig;
+  }
+  if (supportsThoughtSummaries(options.model)) {
+    config.thinkingConfig = { includeThoughts: true };
+  }
+  return config;
+}
+
+// Earlier chat turns as sent; signatures go back on the parts they came with
+function historyContents(history: ChatTurn[]): Content[] {
+  return history.map((turn) => ({
+    role: turn.role,
+    parts: turn.parts.map((part) => ({
+      ...(part.image ? imagePart(part.image) : { text: part.text }),
+      ...(part.thoughtSignature && { thoughtSignature: part.thoughtSignature }),
+    })),
+  }));
+}
+
+// Image models return one image per request, so variants are separate requests. Seeded
+// variants get consecutive seeds to stay reproducible without coming out identical.
+function compileVariants(parts: Part[], options: ImageOptions, history: Content[] = []): GeminiRequest[] {
+  const count = Math.max(1, Number(options.variantCount) || 1);
+  return Array.from({ length: count }, (_, index) => ({
+    contents: [...history, { role: 'user', parts }],
+    config: buildConfig(options, index),
+  }));
+}
+
+export function compileGenerateRequests(input: GenerateInput): GeminiRequest[] {
+  return compileVariants([{ text: input.prompt }, ...referenceParts(input.referenceImages)], input);
+}
+
+// Instruction, image to edit, references, then the mask. Chat turns send the instruction
+// as typed after the earlier turns, which already hold the image.
+export function compileEditRequests(input: EditInput): GeminiRequest[] {
+  const { instruction, originalImage, history, referenceImages, maskImage, mode } = input;
+  const isChatTurn = !!history && history.length > 0;
+  const prompt = mode === 'outpaint' ? buildOutpaintPrompt(instruction) : buildEditPrompt(instruction, !!maskImage);
+  const parts: Part[] = isChatTurn
+    ? [{ text: maskImage ? instruction + MASK_INSTRUCTION : instruction }]
+    : [{ text: prompt }, imagePart(originalImage)];
+  parts.push(...referenceParts(referenceImages));
+  if (maskImage) {
+    parts.push(imagePart(maskImage));
+  }
+  return compileVariants(parts, input, isChatTurn ? historyContents(history) : []);
+}
+
+// The answer is JSON text, so no image is asked for
+export function compileSegmentRequest(input: SegmentInput): GeminiRequest {
+  return {
+    contents: [{ role: 'user', parts: [{ text: buildSegmentationPrompt(input) }, imagePart(input.image)] }],
+    config: { ...buildConfig(input), responseModalities: ['TEXT'] },
+  };
+}
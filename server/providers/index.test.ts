@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { MockProvider } from './mock';
+import { ProviderError, registerProvider, resolveModel } from './index';
+
+registerProvider(new MockProvider());
+
+describe('resolveModel', () => {
+  it('uses the default model when none is given', () => {
+    expect(resolveModel('video').model).toBe('veo-3.0-generate-001');
+  });
+
+  it('picks the requested model', () => {
+    const { provider, model } = resolveModel('image', 'gemini-2.5-flash-image');
+    expect(provider.id).toBe('mock');
+    expect(model).toBe('gemini-2.5-flash-image');
+  });
+
+  it('rejects a model no provider offers, listing the supported ones', () => {
+    let error: unknown;
+    try {
+      resolveModel('image', 'gemini-2.5-flash-imag');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      details: { supportedModels: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'] },
+    });
+  });
+});
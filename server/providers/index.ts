@@ -0,0 +1,64 @@
+import { ImageProvider, ModelInfo, ModelKind, RegisteredModel, ProviderError } from './types';
+
+export * from './types';
+export { describeSegmentTarget } from './segmentTarget';
+
+const providers: ImageProvider[] = [];
+
+// Registration order matters: the first provider offering a kind supplies its default model
+export function registerProvider(provider: ImageProvider) {
+  if (providers.some((p) => p.id === provider.id)) {
+    throw new Error(`Provider "${provider.id}" is already registered`);
+  }
+  providers.push(provider);
+}
+
+export function getProvider(id: string): ImageProvider {
+  const provider = providers.find((p) => p.id === id);
+  if (!provider) {
+    throw new ProviderError(`Unknown provider: ${id}`, 400);
+  }
+  return provider;
+}
+
+export function listModels(): RegisteredModel[] {
+  // Each kind's default comes from the first provider offering that kind
+  const defaults = new Map<ModelKind, ModelInfo>();
+  for (const provider of providers) {
+    for (const kind of ['image', 'video'] as const) {
+      const models = provider.models.filter((model) => model.kind === kind);
+      const providerDefault = models.find((model) => model.preferredDefault) ?? models[0];
+      if (providerDefault && !defaults.has(kind)) defaults.set(kind, providerDefault);
+    }
+  }
+
+  return providers.flatMap((provider) => provider.models.map((model) => ({
+    id: model.id,
+    name: model.name,
+    kind: model.kind,
+    provider: provider.id,
+    isDefault: defaults.get(model.kind) === model,
+  })));
+}
+
+// Picks the provider that serves a request's model. Requests without a model get the
+// default model of that kind; a model no provider offers is rejected rather than run (and
+// billed) on a different one.
+export function resolveModel(kind: ModelKind, model?: string): { provider: ImageProvider; model: string } {
+  const models = listModels().filter((m) => m.kind === kind);
+  const match = model === undefined ? models.find((m) => m.isDefault) : models.find((m) => m.id === model);
+  if (match) {
+    return { provider: getProvider(match.provider), model: match.id };
+  }
+  if (model === undefined || models.length === 0) {
+    throw new ProviderError(`No provider offers ${kind} models`, 503);
+  }
+  const supportedModels = models.map((m) => m.id);
+  const message = `Unknown ${kind} model "${model}". Supported models: ${supportedModels.join(', ')}`;
+  throw new ProviderError(message, 400, { fields: [{ field: 'model', message }], supportedModels }, 'VALIDATION_ERROR');
+}
+
+// Provider for a job recorded before jobs stored their provider
+export function getDefaultProvider(kind: ModelKind): ImageProvider {
+  return resolveModel(kind).provider;
+}
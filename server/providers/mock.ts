@@ -0,0 +1,388 @@
+import {
+  ImageProvider,
+  ModelInfo,
+  GenerateInput,
+  EditInput,
+  SegmentInput,
+  VideoInput,
+  ImageResult,
+  SegmentResult,
+  BatchStatus,
+  BatchOutputs,
+  VideoStatus,
+  VideoOutput,
+  ProviderError,
+} from './types';
+import { GEMINI_MODELS } from './gemini';
+import { describeSegmentTarget } from './segmentTarget';
+import {
+  hashKey,
+  createRandom,
+  createScene,
+  renderScene,
+  renderEllipseMask,
+  encodePng,
+  encodeSceneVideo,
+  readPngSize,
+} from './mockMedia';
+import type { ChatReplyPart, GeneratedImage, GenerationFeedback, UsageMetadata } from '../../src/types';
+
+// Prompts containing these markers exercise the failure paths: sync calls throw and jobs
+// end FAILED, or the output comes back empty as if blocked by safety filters
+const FAIL_MARKER = '[mock:fail]';
+const BLOCK_MARKER = '[mock:block]';
+
+const IMAGE_SIZE = 512;
+// 128x72 for 16:9
+const VIDEO_SIZE = 128;
+const DEFAULT_VIDEO_SECONDS = 4;
+
+// Batch jobs stay PENDING briefly before RUNNING, like the Batch API
+const BATCH_PENDING_MS = 3000;
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+type Outcome = 'ok' | 'fail' | 'block';
+
+function getOutcome(prompt: string): Outcome {
+  if (prompt.includes(FAIL_MARKER)) return 'fail';
+  if (prompt.includes(BLOCK_MARKER)) return 'block';
+  return 'ok';
+}
+
+// Long edge of the given size, following "W:H" aspect ratios
+function getImageSize(aspectRatio?: string, longEdge = IMAGE_SIZE): { width: number; height: number } {
+  const [w, h] = (aspectRatio ?? '').split(':').map(Number);
+  if (!(w > 0 && h > 0)) return { width: longEdge, height: longEdge };
+  // Even dimensions keep 4:2:0 video happy
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  return w >= h
+    ? { width: longEdge, height: even((longEdge * h) / w) }
+    : { width: even((longEdge * w) / h), height: longEdge };
+}
+
+// Short, stable digest of a request's content
+function digest(...parts: (string | number | undefined)[]): string {
+  return hashKey(parts.map((part) => part ?? '').join('|')).toString(36);
+}
+
+// Feedback shaped like Gemini's: a prompt block for [mock:block], otherwise a clean finish
+// with a short reply and thought summary
+function mockFeedback(outcome: Outcome, count: number, prompt: string): GenerationFeedback {
+  if (outcome === 'block') {
+    return {
+      blockReason: 'SAFETY',
+      promptSafetyRatings: [
+        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH', blocked: true },
+        { category: 'HARM_CATEGORY_HARASSMENT', probability: 'NEGLIGIBLE' },
+      ],
+      candidates: [],
+      texts: [],
+      thoughts: [],
+    };
+  }
+  return {
+    promptSafetyRatings: [],
+    candidates: Array.from({ length: count }, () => ({ finishReason: 'STOP', safetyRatings: [] })),
+    texts: [`Here is a procedurally drawn image for "${prompt}".`],
+    thoughts: [`**Planning the composition**\nLaying out a gradient background with a few circles to stand in for "${prompt}".`],
+  };
+}
+
+// A short reply and one image per variant, unsigned
+function mockReplies(feedback: GenerationFeedback, count: number): ChatReplyPart[][] {
+  return Array.from({ length: count }, (_, index) => [{ text: feedback.texts[0] }, { imageIndex: index }]);
+}
+
+// Usage shaped like Gemini's for `calls` identical calls: about 4 characters per text
+// token, 258 tokens per input image and 1290 per output image. Blocked prompts are only
+// charged for their input.
+function mockUsage(calls: number, prompt: string, inputImages: number, answered: boolean): UsageMetadata {
+  const promptImageTokens = inputImages * 258;
+  const promptTokens = Math.ceil(prompt.length / 4) + promptImageTokens;
+  const outputImageTokens = answered ? 1290 : 0;
+  const candidatesTokens = answered ? outputImageTokens + 16 : 0;
+  const thoughtsTokens = answered ? 64 : 0;
+  return {
+    calls,
+    promptTokens: promptTokens * calls,
+    candidatesTokens: candidatesTokens * calls,
+    thoughtsTokens: thoughtsTokens * calls,
+    totalTokens: (promptTokens + candidatesTokens + thoughtsTokens) * calls,
+    promptImageTokens: promptImageTokens * calls,
+    outputImageTokens: outputImageTokens * calls,
+  };
+}
+
+function renderImages(key: string, count: number, aspectRatio?: string): GeneratedImage[] {
+  const { width, height } = getImageSize(aspectRatio);
+  return Array.from({ length: count }, (_, variant) => ({
+    data: encodePng(width, height, renderScene(createScene(`${key}|${variant}`), width, height)).toString('base64'),
+    mimeType: 'image/png',
+  }));
+}
+
+// Images an edit call sends: the source (or, in a chat turn, the images of earlier
+// turns), references and mask
+function countEditImages(input: EditInput): number {
+  const historyImages = (input.history ?? []).flatMap((turn) => turn.parts).filter((part) => part.image).length;
+  return (input.history?.length ? historyImages : 1) + (input.referenceImages?.length ?? 0) + (input.maskImage ? 1 : 0);
+}
+
+interface MockJob {
+  kind: 'generate' | 'edit' | 'segment' | 'video';
+  key: string;
+  outcome: Outcome;
+  createdAt: number;
+  variantCount: number;
+  aspectRatio?: string;
+  durationSeconds?: number;
+  // Prompt and number of images sent, for usage metadata
+  prompt?: string;
+  inputImages?: number;
+  // Segmentation target, point and image
+  query?: string;
+  point?: [number, number];
+  image?: string;
+}
+
+// Offline stand-in for the Gemini provider, enabled with MOCK_PROVIDER=1. Outputs are
+// procedural but deterministic for a given prompt and seed, and batch/video jobs move
+// through their states on a timer. Job names carry everything needed to answer status
+// requests, so jobs recorded before a restart still finish.
+export class MockProvider implements ImageProvider {
+  readonly id = 'mock';
+  readonly models: ModelInfo[] = GEMINI_MODELS.map((model) => ({ ...model, name: `${model.name} (Mock)` }));
+
+  private jobs = new Map<string, MockJob>();
+  private latencyMs = readNumber('MOCK_LATENCY_MS', 0);
+  private batchSeconds = readNumber('MOCK_BATCH_SECONDS', 20);
+  private videoSeconds = readNumber('MOCK_VIDEO_SECONDS', 10);
+
+  async generate(input: GenerateInput): Promise<ImageResult> {
+    await this.delay();
+    const outcome = this.checkOutcome(input.prompt);
+    const count = this.variantCount(input.variantCount);
+    const feedback = mockFeedback(outcome, count, input.prompt);
+    const usage = mockUsage(count, input.prompt, input.referenceImages?.length ?? 0, outcome === 'ok');
+    if (outcome === 'block') return { images: [], feedback, usage };
+    return {
+      images: renderImages(digest(input.prompt, input.seed), count, input.aspectRatio),
+      feedback,
+      replies: mockReplies(feedback, count),
+      usage,
+    };
+  }
+
+  async edit(input: EditInput): Promise<ImageResult> {
+    await this.delay();
+    const outcome = this.checkOutcome(input.instruction);
+    const count = this.variantCount(input.variantCount);
+    const feedback = mockFeedback(outcome, count, input.instruction);
+    const usage = mockUsage(count, input.instruction, countEditImages(input), outcome === 'ok');
+    if (outcome === 'block') return { images: [], feedback, usage };
+    // Chat turns don't resend the image, so the history stands in for it
+    const source = input.history?.length ? JSON.stringify(input.history) : input.originalImage;
+    const key = digest(input.instruction, input.seed, hashKey(source), input.maskImage && hashKey(input.maskImage));
+    return { images: renderImages(key, count, input.aspectRatio), feedback, replies: mockReplies(feedback, count), usage };
+  }
+
+  async segment(input: SegmentInput): Promise<SegmentResult> {
+    await this.delay();
+    const target = describeSegmentTarget(input);
+    const outcome = this.checkOutcome(target);
+    if (outcome === 'block') return { masks: [] };
+    return this.renderSegmentation(digest(target, input.seed, hashKey(input.image)), target, input.image, input.point);
+  }
+
+  async submitBatchGenerate(input: GenerateInput): Promise<string> {
+    return this.createJob('batches', {
+      kind: 'generate',
+      key: digest(input.prompt, input.seed),
+      outcome: getOutcome(input.prompt),
+      variantCount: this.variantCount(input.variantCount),
+      aspectRatio: input.aspectRatio,
+      prompt: input.prompt,
+      inputImages: input.referenceImages?.length ?? 0,
+    });
+  }
+
+  async submitBatchEdit(input: EditInput): Promise<string> {
+    return this.createJob('batches', {
+      kind: 'edit',
+      key: digest(input.instruction, input.seed, hashKey(input.originalImage), input.maskImage && hashKey(input.maskImage)),
+      outcome: getOutcome(input.instruction),
+      variantCount: this.variantCount(input.variantCount),
+      aspectRatio: input.aspectRatio,
+      prompt: input.instruction,
+      inputImages: countEditImages(input),
+    });
+  }
+
+  async submitBatchSegment(input: SegmentInput): Promise<string> {
+    const target = describeSegmentTarget(input);
+    return this.createJob('batches', {
+      kind: 'segment',
+      key: digest(target, input.seed, hashKey(input.image)),
+      outcome: getOutcome(target),
+      variantCount: 1,
+      prompt: target,
+      inputImages: 1,
+      query: target,
+      point: input.point,
+      image: input.image,
+    });
+  }
+
+  async getBatchStatus(name: string): Promise<BatchStatus> {
+    const job = this.getJob(name);
+    const elapsed = Date.now() - job.createdAt;
+
+    if (elapsed < Math.min(BATCH_PENDING_MS, this.batchSeconds * 1000)) {
+      return { state: 'JOB_STATE_PENDING' };
+    }
+    if (elapsed < this.batchSeconds * 1000) {
+      return { state: 'JOB_STATE_RUNNING' };
+    }
+    return { state: job.outcome === 'fail' ? 'JOB_STATE_FAILED' : 'JOB_STATE_SUCCEEDED' };
+  }
+
+  async getBatchResults(name: string): Promise<BatchOutputs> {
+    const job = this.getJob(name);
+    const { state } = await this.getBatchStatus(name);
+    if (state !== 'JOB_STATE_SUCCEEDED') {
+      throw new Error(`Batch job not completed. Current state: ${state}`);
+    }
+
+    const usage = mockUsage(job.variantCount, job.prompt ?? '', job.inputImages ?? 0, job.outcome === 'ok');
+    if (job.outcome === 'block') return { images: [], texts: [], usage };
+    if (job.kind === 'segment') {
+      return { images: [], texts: [JSON.stringify(this.renderSegmentation(job.key, job.query ?? 'segment', job.image, job.point).masks)], usage };
+    }
+    return {
+      images: renderImages(job.key, job.variantCount, job.aspectRatio),
+      texts: [],
+      usage,
+    };
+  }
+
+  async startVideo(input: VideoInput): Promise<string> {
+    return this.createJob('models/mock/operations', {
+      kind: 'video',
+      key: digest(input.prompt, input.seed, input.image && hashKey(input.image)),
+      outcome: getOutcome(input.prompt),
+      variantCount: 1,
+      aspectRatio: input.aspectRatio ?? '16:9',
+      durationSeconds: input.durationSeconds,
+    });
+  }
+
+  async getVideoStatus(name: string): Promise<VideoStatus> {
+    const job = this.getJob(name);
+    const elapsed = Date.now() - job.createdAt;
+
+    if (elapsed < this.videoSeconds * 1000) {
+      return { done: false, state: 'RUNNING', progress: Math.round((elapsed / (this.videoSeconds * 1000)) * 100) / 100 };
+    }
+    if (job.outcome === 'fail') {
+      return { done: true, state: 'FAILED', error: 'Mock video generation failed', progress: 1 };
+    }
+    if (job.outcome === 'block') {
+      return { done: true, state: 'FAILED', error: 'Video was blocked by safety filters', progress: 1 };
+    }
+    return { done: true, state: 'SUCCEEDED', progress: 1 };
+  }
+
+  async getVideoResult(name: string): Promise<VideoOutput> {
+    const job = this.getJob(name);
+    const status = await this.getVideoStatus(name);
+    if (!status.done) {
+      throw new ProviderError('Video generation not complete', 400, { state: 'RUNNING' }, 'NOT_READY');
+    }
+    if (status.error) {
+      throw new ProviderError(status.error, 400, { state: 'FAILED' }, 'GENERATION_FAILED');
+    }
+
+    const { width, height } = getImageSize(job.aspectRatio, VIDEO_SIZE);
+    const durationSeconds = job.durationSeconds || DEFAULT_VIDEO_SECONDS;
+
+    return {
+      video: encodeSceneVideo(createScene(job.key), width, height, durationSeconds).toString('base64'),
+      mimeType: 'video/mp4',
+      durationSeconds,
+      width,
+      height,
+    };
+  }
+
+  private async delay() {
+    if (this.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+    }
+  }
+
+  private checkOutcome(prompt: string): Outcome {
+    const outcome = getOutcome(prompt);
+    if (outcome === 'fail') {
+      throw new ProviderError('Mock provider failure requested by prompt', 500);
+    }
+    return outcome;
+  }
+
+  private variantCount(variantCount?: number): number {
+    return Math.min(4, Math.max(1, Number(variantCount) || 1));
+  }
+
+  // Name format: <prefix>/mock-<kind>-<createdAt>-<key>-<outcome>
+  private createJob(prefix: string, job: Omit<MockJob, 'createdAt'>): string {
+    const createdAt = Date.now();
+    const name = `${prefix}/mock-${job.kind}-${createdAt.toString(36)}-${job.key}-${job.outcome}`;
+    this.jobs.set(name, { ...job, createdAt });
+    return name;
+  }
+
+  // Jobs from before a restart are rebuilt from their name, minus the request's settings
+  private getJob(name: string): MockJob {
+    const known = this.jobs.get(name);
+    if (known) return known;
+
+    const match = /\/mock-(generate|edit|segment|video)-([0-9a-z]+)-([0-9a-z]+)-(ok|fail|block)$/.exec(name);
+    if (!match) {
+      throw new ProviderError(`Unknown mock job: ${name}`, 404, undefined, 'NOT_FOUND');
+    }
+    const [, kind, createdAt, key, outcome] = match;
+    return {
+      kind: kind as MockJob['kind'],
+      key,
+      outcome: outcome as Outcome,
+      createdAt: parseInt(createdAt, 36),
+      variantCount: 1,
+    };
+  }
+
+  // Same shape Gemini's segmentation answers take: one ellipse mask in a random box, or
+  // around the point when there is one. Boxes are [ymin, xmin, ymax, xmax] out of 1000,
+  // and each mask covers only its box.
+  private renderSegmentation(key: string, label: string, image?: string, point?: [number, number]): SegmentResult {
+    const random = createRandom(key);
+    const boxWidth = Math.round(250 + random() * 400);
+    const boxHeight = Math.round(250 + random() * 400);
+    const [ymin, xmin] = point
+      ? [point[0] - boxHeight / 2, point[1] - boxWidth / 2]
+      : [random() * (1000 - boxHeight), random() * (1000 - boxWidth)];
+    const clamp = (value: number) => Math.round(Math.min(1000, Math.max(0, value)));
+    const box_2d: [number, number, number, number] = [clamp(ymin), clamp(xmin), clamp(ymin + boxHeight), clamp(xmin + boxWidth)];
+
+    const { width, height } = (image && readPngSize(image)) || { width: IMAGE_SIZE, height: IMAGE_SIZE };
+    const maskWidth = Math.max(1, Math.round(((box_2d[3] - box_2d[1]) / 1000) * width));
+    const maskHeight = Math.max(1, Math.round(((box_2d[2] - box_2d[0]) / 1000) * height));
+    const mask = encodePng(maskWidth, maskHeight, renderEllipseMask(maskWidth, maskHeight, { x: 0, y: 0, width: maskWidth, height: maskHeight }));
+
+    return {
+      masks: [{ label, box_2d, mask: `data:image/png;base64,${mask.toString('base64')}` }],
+    };
+  }
+}
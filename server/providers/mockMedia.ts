@@ -0,0 +1,487 @@
+import { deflateSync } from 'node:zlib';
+
+// Procedural stills and clips for the mock provider. Everything is derived from a string
+// key, so the same prompt and seed always produce the same bytes.
+
+type Rgb = [number, number, number];
+
+interface Circle {
+  x: number;
+  y: number;
+  radius: number;
+  color: Rgb;
+  // Drift per second, used by video frames
+  dx: number;
+  dy: number;
+}
+
+export interface Scene {
+  top: Rgb;
+  bottom: Rgb;
+  circles: Circle[];
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// FNV-1a
+export function hashKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32
+export function createRandom(key: string): () => number {
+  let state = hashKey(key);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): Rgb {
+  const k = (n: number) => (n + hue / 30) % 12;
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const f = (n: number) => lightness - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)];
+}
+
+export function createScene(key: string): Scene {
+  const random = createRandom(key);
+  const hue = random() * 360;
+  return {
+    top: hslToRgb(hue, 0.55, 0.35),
+    bottom: hslToRgb((hue + 40 + random() * 80) % 360, 0.6, 0.15),
+    circles: Array.from({ length: 3 + Math.floor(random() * 4) }, () => ({
+      x: random(),
+      y: random(),
+      radius: 0.08 + random() * 0.22,
+      color: hslToRgb((hue + 120 + random() * 120) % 360, 0.7, 0.45 + random() * 0.25),
+      dx: (random() - 0.5) * 0.2,
+      dy: (random() - 0.5) * 0.2,
+    })),
+  };
+}
+
+// RGB pixels of the scene at time t (seconds); drifting circle centres wrap around the edges
+export function renderScene(scene: Scene, width: number, height: number, t = 0): Uint8Array {
+  const pixels = new Uint8Array(width * height * 3);
+  const size = Math.min(width, height);
+
+  for (let y = 0; y < height; y++) {
+    const mix = y / Math.max(1, height - 1);
+    const row: Rgb = [0, 1, 2].map((c) => scene.top[c] + (scene.bottom[c] - scene.top[c]) * mix) as Rgb;
+    for (let x = 0; x < width; x++) {
+      pixels.set(row, (y * width + x) * 3);
+    }
+  }
+
+  for (const circle of scene.circles) {
+    const cx = (((circle.x + circle.dx * t) % 1) + 1) % 1 * width;
+    const cy = (((circle.y + circle.dy * t) % 1) + 1) % 1 * height;
+    const radius = circle.radius * size;
+    const minY = Math.max(0, Math.floor(cy - radius));
+    const maxY = Math.min(height - 1, Math.ceil(cy + radius));
+    const minX = Math.max(0, Math.floor(cx - radius));
+    const maxX = Math.min(width - 1, Math.ceil(cx + radius));
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const distance = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+        // One pixel of antialiasing
+        const alpha = Math.max(0, Math.min(1, radius - distance)) * 0.85;
+        if (alpha === 0) continue;
+        const offset = (y * width + x) * 3;
+        for (let c = 0; c < 3; c++) {
+          pixels[offset + c] = Math.round(pixels[offset + c] * (1 - alpha) + circle.color[c] * alpha);
+        }
+      }
+    }
+  }
+
+  return pixels;
+}
+
+// White ellipse filling the box on black, as a segmentation mask
+export function renderEllipseMask(width: number, height: number, box: Box): Uint8Array {
+  const pixels = new Uint8Array(width * height * 3);
+  const rx = box.width / 2;
+  const ry = box.height / 2;
+  const cx = box.x + rx;
+  const cy = box.y + ry;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const nx = (x + 0.5 - cx) / rx;
+      const ny = (y + 0.5 - cy) / ry;
+      if (nx * nx + ny * ny <= 1) {
+        pixels.fill(255, (y * width + x) * 3, (y * width + x) * 3 + 3);
+      }
+    }
+  }
+  return pixels;
+}
+
+// ============================================
+// PNG
+// ============================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// 8-bit RGB, no filtering
+export function encodePng(width: number, height: number, rgb: Uint8Array): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+
+  const rowLength = width * 3;
+  const raw = Buffer.alloc((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// Dimensions from a base64 PNG's IHDR, or undefined for other formats
+export function readPngSize(base64: string): { width: number; height: number } | undefined {
+  const header = Buffer.from(base64.slice(0, 44), 'base64');
+  if (header.length < 24 || header.toString('ascii', 12, 16) !== 'IHDR') return undefined;
+  return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+}
+
+// ============================================
+// MP4 (H.264 Baseline, every frame an IDR of I_PCM macroblocks)
+// ============================================
+
+// Uncompressed macroblocks need no real encoder and still play everywhere, at 1.5 bytes
+// per pixel per frame, so keep clips small
+
+class BitWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private bitCount = 0;
+
+  bits(value: number, count: number) {
+    for (let i = count - 1; i >= 0; i--) {
+      this.current = (this.current << 1) | ((value >>> i) & 1);
+      if (++this.bitCount === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  // Exp-Golomb codes
+  ue(value: number) {
+    const length = Math.floor(Math.log2(value + 1)) + 1;
+    this.bits(0, length - 1);
+    this.bits(value + 1, length);
+  }
+
+  se(value: number) {
+    this.ue(value > 0 ? 2 * value - 1 : -2 * value);
+  }
+
+  alignZero() {
+    if (this.bitCount > 0) this.bits(0, 8 - this.bitCount);
+  }
+
+  byte(value: number) {
+    this.bits(value, 8);
+  }
+
+  trailing() {
+    this.bits(1, 1);
+    this.alignZero();
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+}
+
+// NAL header plus the RBSP with emulation prevention bytes inserted
+function nalUnit(refIdc: number, type: number, rbsp: Buffer): Buffer {
+  const out: number[] = [(refIdc << 5) | type];
+  let zeros = 0;
+  for (const byte of rbsp) {
+    if (zeros >= 2 && byte <= 3) {
+      out.push(3);
+      zeros = 0;
+    }
+    out.push(byte);
+    zeros = byte === 0 ? zeros + 1 : 0;
+  }
+  return Buffer.from(out);
+}
+
+const PROFILE_BASELINE = 66;
+const CONSTRAINT_FLAGS = 0xc0;
+const LEVEL = 30;
+
+function buildSps(widthInMbs: number, heightInMbs: number, cropRight: number, cropBottom: number): Buffer {
+  const w = new BitWriter();
+  w.byte(PROFILE_BASELINE);
+  w.byte(CONSTRAINT_FLAGS);
+  w.byte(LEVEL);
+  w.ue(0); // seq_parameter_set_id
+  w.ue(0); // log2_max_frame_num_minus4
+  w.ue(2); // pic_order_cnt_type
+  w.ue(1); // max_num_ref_frames
+  w.bits(0, 1); // gaps_in_frame_num_value_allowed_flag
+  w.ue(widthInMbs - 1);
+  w.ue(heightInMbs - 1);
+  w.bits(1, 1); // frame_mbs_only_flag
+  w.bits(1, 1); // direct_8x8_inference_flag
+  const cropped = cropRight > 0 || cropBottom > 0;
+  w.bits(cropped ? 1 : 0, 1);
+  if (cropped) {
+    // Offsets are in 2-pixel units for 4:2:0
+    w.ue(0);
+    w.ue(cropRight / 2);
+    w.ue(0);
+    w.ue(cropBottom / 2);
+  }
+  w.bits(0, 1); // vui_parameters_present_flag
+  w.trailing();
+  return nalUnit(3, 7, w.toBuffer());
+}
+
+function buildPps(): Buffer {
+  const w = new BitWriter();
+  w.ue(0); // pic_parameter_set_id
+  w.ue(0); // seq_parameter_set_id
+  w.bits(0, 1); // entropy_coding_mode_flag (CAVLC)
+  w.bits(0, 1); // bottom_field_pic_order_in_frame_present_flag
+  w.ue(0); // num_slice_groups_minus1
+  w.ue(0); // num_ref_idx_l0_default_active_minus1
+  w.ue(0); // num_ref_idx_l1_default_active_minus1
+  w.bits(0, 1); // weighted_pred_flag
+  w.bits(0, 2); // weighted_bipred_idc
+  w.se(0); // pic_init_qp_minus26
+  w.se(0); // pic_init_qs_minus26
+  w.se(0); // chroma_qp_index_offset
+  w.bits(1, 1); // deblocking_filter_control_present_flag
+  w.bits(0, 1); // constrained_intra_pred_flag
+  w.bits(0, 1); // redundant_pic_cnt_present_flag
+  w.trailing();
+  return nalUnit(3, 8, w.toBuffer());
+}
+
+const clampSample = (value: number, max: number) => Math.max(16, Math.min(max, Math.round(value)));
+
+// BT.601 limited range; samples stay above zero, which I_PCM doesn't allow
+function buildIdrSlice(rgb: Uint8Array, width: number, height: number, idrPicId: number): Buffer {
+  const widthInMbs = width / 16;
+  const heightInMbs = height / 16;
+  const w = new BitWriter();
+  w.ue(0); // first_mb_in_slice
+  w.ue(7); // slice_type: I (all slices)
+  w.ue(0); // pic_parameter_set_id
+  w.bits(0, 4); // frame_num
+  w.ue(idrPicId);
+  w.bits(0, 1); // no_output_of_prior_pics_flag
+  w.bits(0, 1); // long_term_reference_flag
+  w.se(0); // slice_qp_delta
+  w.ue(1); // disable_deblocking_filter_idc
+
+  const pixel = (x: number, y: number) => {
+    const offset = (y * width + x) * 3;
+    return [rgb[offset], rgb[offset + 1], rgb[offset + 2]];
+  };
+
+  for (let mbY = 0; mbY < heightInMbs; mbY++) {
+    for (let mbX = 0; mbX < widthInMbs; mbX++) {
+      w.ue(25); // mb_type: I_PCM
+      w.alignZero();
+
+      for (let y = 0; y < 16; y++) {
+        for (let x = 0; x < 16; x++) {
+          const [r, g, b] = pixel(mbX * 16 + x, mbY * 16 + y);
+          w.byte(clampSample(16 + 0.257 * r + 0.504 * g + 0.098 * b, 235));
+        }
+      }
+
+      const cb: number[] = [];
+      const cr: number[] = [];
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          let r = 0, g = 0, b = 0;
+          for (const [ox, oy] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+            const [pr, pg, pb] = pixel(mbX * 16 + x * 2 + ox, mbY * 16 + y * 2 + oy);
+            r += pr / 4;
+            g += pg / 4;
+            b += pb / 4;
+          }
+          cb.push(clampSample(128 - 0.148 * r - 0.291 * g + 0.439 * b, 240));
+          cr.push(clampSample(128 + 0.439 * r - 0.368 * g - 0.071 * b, 240));
+        }
+      }
+      cb.forEach((value) => w.byte(value));
+      cr.forEach((value) => w.byte(value));
+    }
+  }
+
+  w.trailing();
+  return nalUnit(3, 5, w.toBuffer());
+}
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8, 0);
+  header.write(type, 4, 'ascii');
+  return Buffer.concat([header, body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Buffer[]): Buffer {
+  const versionAndFlags = Buffer.alloc(4);
+  versionAndFlags.writeUInt32BE(((version << 24) | flags) >>> 0);
+  return box(type, versionAndFlags, ...payload);
+}
+
+function u32(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => buffer.writeUInt32BE(value >>> 0, index * 4));
+  return buffer;
+}
+
+function u16(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 2);
+  values.forEach((value, index) => buffer.writeUInt16BE(value, index * 2));
+  return buffer;
+}
+
+const IDENTITY_MATRIX = u32(0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000);
+const TIMESCALE = 1000;
+
+interface Mp4Options {
+  width: number;
+  height: number;
+  fps: number;
+  sps: Buffer;
+  pps: Buffer;
+  samples: Buffer[];
+}
+
+function buildMp4({ width, height, fps, sps, pps, samples }: Mp4Options): Buffer {
+  const sampleDelta = Math.round(TIMESCALE / fps);
+  const duration = sampleDelta * samples.length;
+
+  const avcC = box(
+    'avcC',
+    Buffer.from([1, PROFILE_BASELINE, CONSTRAINT_FLAGS, LEVEL, 0xff, 0xe1]),
+    u16(sps.length), sps,
+    Buffer.from([1]),
+    u16(pps.length), pps
+  );
+  const avc1 = box(
+    'avc1',
+    Buffer.alloc(6), u16(1), // reserved, data_reference_index
+    Buffer.alloc(16), // pre_defined/reserved
+    u16(width, height),
+    u32(0x00480000, 0x00480000, 0), // 72 dpi, reserved
+    u16(1), // frame_count
+    Buffer.alloc(32), // compressorname
+    u16(0x0018, 0xffff), // depth, pre_defined
+    avcC
+  );
+
+  const buildMoov = (chunkOffset: number) => box(
+    'moov',
+    fullBox('mvhd', 0, 0,
+      u32(0, 0, TIMESCALE, duration, 0x00010000), u16(0x0100, 0), Buffer.alloc(8),
+      IDENTITY_MATRIX, Buffer.alloc(24), u32(2)),
+    box('trak',
+      fullBox('tkhd', 0, 3,
+        u32(0, 0, 1, 0, duration), Buffer.alloc(8), u16(0, 0, 0, 0),
+        IDENTITY_MATRIX, u32(width << 16, height << 16)),
+      box('mdia',
+        fullBox('mdhd', 0, 0, u32(0, 0, TIMESCALE, duration), u16(0x55c4, 0)), // language "und"
+        fullBox('hdlr', 0, 0, u32(0), Buffer.from('vide', 'ascii'), Buffer.alloc(12), Buffer.from('VideoHandler\0', 'ascii')),
+        box('minf',
+          fullBox('vmhd', 0, 1, u16(0, 0, 0, 0)),
+          box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+          box('stbl',
+            fullBox('stsd', 0, 0, u32(1), avc1),
+            fullBox('stts', 0, 0, u32(1, samples.length, sampleDelta)),
+            fullBox('stsc', 0, 0, u32(1, 1, samples.length, 1)),
+            fullBox('stsz', 0, 0, u32(0, samples.length, ...samples.map((sample) => sample.length))),
+            fullBox('stco', 0, 0, u32(1, chunkOffset))
+          )
+        )
+      )
+    )
+  );
+
+  const ftyp = box('ftyp', Buffer.from('isom', 'ascii'), u32(0x200), Buffer.from('isomiso2avc1mp41', 'ascii'));
+  // The chunk offset doesn't change the moov's size, so measure it once with a placeholder
+  const moovSize = buildMoov(0).length;
+  const moov = buildMoov(ftyp.length + moovSize + 8);
+  return Buffer.concat([ftyp, moov, box('mdat', ...samples)]);
+}
+
+// A short clip of the scene with its circles drifting, as an H.264 MP4
+export function encodeSceneVideo(scene: Scene, width: number, height: number, seconds: number, fps = 4): Buffer {
+  // Frames are coded in whole macroblocks and cropped back to the requested size
+  const codedWidth = Math.ceil(width / 16) * 16;
+  const codedHeight = Math.ceil(height / 16) * 16;
+  const sps = buildSps(codedWidth / 16, codedHeight / 16, codedWidth - width, codedHeight - height);
+  const pps = buildPps();
+
+  const samples = Array.from({ length: Math.max(1, Math.round(seconds * fps)) }, (_, index) => {
+    const rgb = renderScene(scene, codedWidth, codedHeight, index / fps);
+    const slice = buildIdrSlice(rgb, codedWidth, codedHeight, index % 2);
+    // MP4 samples carry length-prefixed NAL units
+    return Buffer.concat([u32(slice.length), slice]);
+  });
+
+  return buildMp4({ width, height, fps, sps, pps, samples });
+}
@@ -0,0 +1,9 @@
+import { SegmentInput } from './types';
+
+// What a segment request asks for, in words: the query, the object under the point, or both.
+// Shared by the providers' prompts and the job registry's record of batch segment jobs.
+export function describeSegmentTarget({ query, point }: Pick<SegmentInput, 'query' | 'point'>): string {
+  const at = point ? `at point [${point[0]}, ${point[1]}]` : '';
+  if (query?.trim()) return at ? `${query.trim()} ${at}` : query.trim();
+  return `the object ${at}`;
+}
@@ -0,0 +1,137 @@
+import type { ApiErrorCode } from '../../src/types/schemas';
+import type { ChatReplyPart, ChatTurn, EditMode, GeneratedImage, GenerationFeedback, SegmentResponse, UsageMetadata } from '../../src/types';
+
+export type ModelKind = 'image' | 'video';
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  kind: ModelKind;
+  // Otherwise the provider's first model of each kind is its default
+  preferredDefault?: boolean;
+}
+
+// ModelInfo as listed by GET /api/models
+export interface RegisteredModel extends Omit<ModelInfo, 'preferredDefault'> {
+  provider: string;
+  isDefault: boolean;
+}
+
+export interface ImageOptions {
+  model: string;
+  temperature?: number;
+  seed?: number;
+  safetySettings?: { category: string; threshold: string }[];
+  aspectRatio?: string;
+  resolutionTier?: string;
+  variantCount?: number;
+}
+
+export interface GenerateInput extends ImageOptions {
+  prompt: string;
+  referenceImages?: string[];
+}
+
+export interface EditInput extends ImageOptions {
+  instruction: string;
+  originalImage: string;
+  history?: ChatTurn[];
+  referenceImages?: string[];
+  maskImage?: string;
+  mode?: EditMode;
+}
+
+export interface SegmentInput extends Omit<ImageOptions, 'variantCount'> {
+  query?: string;
+  // [y, x] normalized to 0-1000
+  point?: [number, number];
+  // The image or mask to segment
+  image: string;
+}
+
+export interface VideoInput {
+  model: string;
+  prompt: string;
+  negativePrompt?: string;
+  aspectRatio?: string;
+  resolution?: string;
+  durationSeconds?: number;
+  seed?: number;
+  image?: string;          // base64 - first frame
+  lastFrame?: string;      // base64 - last frame
+  referenceImages?: string[]; // base64[] - up to 3 style references
+  video?: string;          // base64 - for video extension
+}
+
+export interface ImageResult {
+  images: GeneratedImage[];
+  // Why images are missing (blocks, finish reasons) and any text the model returned
+  feedback?: GenerationFeedback;
+  // The model's reply parts for each variant, so a chat edit can be continued
+  replies?: ChatReplyPart[][];
+  usage?: UsageMetadata;
+}
+
+// The masks the model found, or its raw text if it didn't answer with segmentation JSON
+export type SegmentResult = SegmentResponse;
+
+// States use the Batch API vocabulary (JOB_STATE_*) whatever the backend
+export interface BatchStatus {
+  state: string;
+  destFileName?: string;
+}
+
+export interface BatchOutputs {
+  images: GeneratedImage[];
+  texts: string[];
+  usage?: UsageMetadata;
+}
+
+export interface VideoStatus {
+  done: boolean;
+  state: 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+  error?: string;
+  progress?: number;
+}
+
+export interface VideoOutput {
+  video: string;
+  mimeType: string;
+  durationSeconds: number;
+  width: number;
+  height: number;
+}
+
+// A backend that can serve the image, batch and video endpoints. Batch and video methods
+// return/accept the provider's own job names, which are recorded in the job store.
+export interface ImageProvider {
+  id: string;
+  models: ModelInfo[];
+
+  generate(input: GenerateInput): Promise<ImageResult>;
+  edit(input: EditInput): Promise<ImageResult>;
+  segment(input: SegmentInput): Promise<SegmentResult>;
+
+  submitBatchGenerate(input: GenerateInput): Promise<string>;
+  submitBatchEdit(input: EditInput): Promise<string>;
+  submitBatchSegment(input: SegmentInput): Promise<string>;
+  getBatchStatus(name: string): Promise<BatchStatus>;
+  getBatchResults(name: string): Promise<BatchOutputs>;
+
+  startVideo(input: VideoInput): Promise<string>;
+  getVideoStatus(name: string): Promise<VideoStatus>;
+  getVideoResult(name: string): Promise<VideoOutput>;
+}
+
+// Errors that should reach the client with a specific status, error code and extra fields
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status = 500,
+    readonly details?: Record<string, unknown>,
+    readonly code: ApiErrorCode = 'PROVIDER_ERROR'
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
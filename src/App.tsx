@@ -6,6 +6,9 @@ import { PromptComposer } from './components/PromptComposer';
 import { ImageCanvas } from './components/ImageCanvas';
 import { HistoryPanel } from './components/HistoryPanel';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useProjectPersistence } from './hooks/useProjects';
+import { useBudgetPersistence } from './hooks/useBudget';
+import { useServerEvents } from './hooks/useServerEvents';
 import { useAppStore } from './store/useAppStore';
 
 const queryClient = new QueryClient({
@@ -19,6 +22,9 @@ const queryClient = new QueryClient({
 
 function AppContent() {
   useKeyboardShortcuts();
+  useProjectPersistence();
+  useBudgetPersistence();
+  useServerEvents();
   
   const { showPromptPanel, setShowPromptPanel, showHistory, setShowHistory } = useAppStore();
   
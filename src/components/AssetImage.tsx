@@ -0,0 +1,31 @@
+import React from 'react';
+import { useAssetUrl } from '../hooks/useAssetUrl';
+import { Asset, VideoAsset } from '../types';
+
+interface AssetImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  asset: Asset | null | undefined;
+}
+
+export const AssetImage: React.FC<AssetImageProps> = ({ asset, className, ...props }) => {
+  const url = useAssetUrl(asset);
+
+  if (!url) {
+    return <div className={className ? `${className} bg-gray-800` : 'bg-gray-800'} />;
+  }
+
+  return <img src={url} className={className} {...props} />;
+};
+
+interface AssetVideoProps extends Omit<React.VideoHTMLAttributes<HTMLVideoElement>, 'src'> {
+  asset: VideoAsset | null | undefined;
+}
+
+export const AssetVideo: React.FC<AssetVideoProps> = ({ asset, className, ...props }) => {
+  const url = useAssetUrl(asset);
+
+  if (!url) {
+    return <div className={className ? `${className} bg-gray-800` : 'bg-gray-800'} />;
+  }
+
+  return <video src={url} className={className} {...props} />;
+};
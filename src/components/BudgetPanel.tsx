@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, DollarSign } from 'lucide-react';
+import { Input } from './ui/Input';
+import { useAppStore } from '../store/useAppStore';
+import { BudgetCheck, describeBudgetCheck } from '../utils/budget';
+import { formatCost } from '../utils/pricing';
+import { cn } from '../utils/cn';
+
+interface BudgetPanelProps {
+  // Estimate for the main button's request, and for queueing it as a batch job
+  cost: number;
+  batchCost?: number;
+  spend: { daily: number; project: number };
+  check: BudgetCheck;
+}
+
+const parseLimit = (value: string): number | null => {
+  const limit = parseFloat(value);
+  return Number.isFinite(limit) && limit >= 0 ? limit : null;
+};
+
+// Pre-submit cost estimate, running totals and the budget limits they're checked against
+export const BudgetPanel: React.FC<BudgetPanelProps> = ({ cost, batchCost, spend, check }) => {
+  const { budgetSettings, setBudgetSettings } = useAppStore();
+  const [showLimits, setShowLimits] = useState(false);
+
+  const withLimit = (total: number, limit: number | null) =>
+    limit === null ? formatCost(total) : `${formatCost(total)} / ${formatCost(limit)}`;
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="p-3 space-y-1 rounded-lg border border-gray-800 bg-gray-900/50 text-gray-500">
+        <div className="flex justify-between">
+          <span>Estimated cost</span>
+          <span className="text-gray-300">
+            {formatCost(cost)}
+            {batchCost !== undefined && <span className="text-gray-500"> · batch {formatCost(batchCost)}</span>}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span>Project total</span>
+          <span>{withLimit(spend.project, budgetSettings.projectLimit)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Today</span>
+          <span>{withLimit(spend.daily, budgetSettings.dailyLimit)}</span>
+        </div>
+      </div>
+
+      {check.overruns.length > 0 && (
+        <div className={cn(
+          'flex items-start p-3 rounded-lg border',
+          check.blocked ? 'text-red-300 bg-red-900/20 border-red-800/50' : 'text-yellow-300 bg-yellow-900/20 border-yellow-800/50'
+        )}>
+          <AlertTriangle className="flex-shrink-0 mt-0.5 mr-1.5 w-3.5 h-3.5" />
+          <span>{describeBudgetCheck(check)}</span>
+        </div>
+      )}
+
+      <button
+        onClick={() => setShowLimits(!showLimits)}
+        className="flex items-center w-full text-xs text-gray-400 transition-colors hover:text-gray-300"
+      >
+        <DollarSign className="mr-2 w-4 h-4" />
+        <span className="flex-1 text-left">Budget Limits</span>
+        {showLimits ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+      </button>
+
+      {showLimits && (
+        <div className="p-3 space-y-3 rounded-lg border border-gray-800 bg-gray-900/50">
+          <p className="text-gray-500">Estimates in USD from list prices. Leave a limit empty for none.</p>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-gray-400">
+              Daily
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                value={budgetSettings.dailyLimit ?? ''}
+                onChange={(e) => setBudgetSettings({ ...budgetSettings, dailyLimit: parseLimit(e.target.value) })}
+                className="mt-1"
+              />
+            </label>
+            <label className="text-gray-400">
+              Per project
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                value={budgetSettings.projectLimit ?? ''}
+                onChange={(e) => setBudgetSettings({ ...budgetSettings, projectLimit: parseLimit(e.target.value) })}
+                className="mt-1"
+              />
+            </label>
+          </div>
+          <div className="flex gap-2">
+            {(['warn', 'block'] as const).map((enforcement) => (
+              <button
+                key={enforcement}
+                onClick={() => setBudgetSettings({ ...budgetSettings, enforcement })}
+                className={cn(
+                  'flex-1 px-2 py-1.5 rounded border transition-colors',
+                  budgetSettings.enforcement === enforcement
+                    ? 'bg-yellow-400/10 border-yellow-400/50 text-yellow-400'
+                    : 'border-gray-700 text-gray-400 hover:bg-gray-800'
+                )}
+              >
+                {enforcement === 'warn' ? 'Warn when over' : 'Block when over'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
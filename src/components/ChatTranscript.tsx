@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import { MessagesSquare } from 'lucide-react';
+import { useAppStore } from '../store/useAppStore';
+import { AssetStore } from '../services/assetStore';
+import { AssetImage } from './AssetImage';
+import { getConversation, getEditSourceAsset, ConversationTurn } from '../utils/projectTree';
+import { cn } from '../utils/cn';
+
+// Chat mode toggle and the conversation the next edit will continue: the selected edit's
+// chain of chat turns, ending with the variant on the canvas
+export const ChatTranscript: React.FC = () => {
+  const {
+    currentProject,
+    selectedEditId,
+    canvasImage,
+    chatMode,
+    setChatMode,
+    setCanvasImages,
+    selectEdit,
+    selectGeneration,
+    selectVideoGeneration
+  } = useAppStore();
+
+  const conversation = useMemo(() => {
+    const edit = selectedEditId ? currentProject?.edits.find(e => e.id === selectedEditId) : undefined;
+    if (!currentProject || !edit) return [];
+    const assetId = edit.outputAssets.find(a => AssetStore.peekUrl(a) === canvasImage)?.id;
+    return getConversation(currentProject, { type: 'edit', id: edit.id, assetId });
+  }, [currentProject, selectedEditId, canvasImage]);
+
+  const startAsset = currentProject && conversation.length > 0
+    ? getEditSourceAsset(currentProject, conversation[0].edit)
+    : undefined;
+
+  // Going back to an earlier turn makes the next edit branch the conversation from there
+  const restoreTurn = async ({ edit }: ConversationTurn) => {
+    setCanvasImages(await AssetStore.resolveUrls(edit.outputAssets));
+    selectEdit(edit.id);
+    selectGeneration(null);
+    selectVideoGeneration(null);
+  };
+
+  const keptAsset = ({ edit, assetId }: ConversationTurn) =>
+    edit.outputAssets.find(a => a.id === assetId) ?? edit.outputAssets[0];
+
+  return (
+    <div>
+      <button
+        onClick={() => setChatMode(!chatMode)}
+        className={cn(
+          'flex items-center w-full px-3 py-2 rounded-lg border text-xs font-medium transition-colors',
+          chatMode
+            ? 'bg-yellow-400/10 border-yellow-400/50 text-yellow-400'
+            : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-800 hover:text-gray-300'
+        )}
+        title="Send earlier instructions and results with each edit"
+      >
+        <MessagesSquare className="mr-2 w-4 h-4" />
+        Chat Mode
+        <span className="ml-auto">{chatMode ? 'On' : 'Off'}</span>
+      </button>
+
+      {chatMode && (
+        <div className="mt-2 p-2 max-h-72 overflow-y-auto space-y-2 bg-gray-900 rounded-lg border border-gray-700 text-xs">
+          {conversation.length === 0 ? (
+            <p className="text-gray-500">
+              The next edit starts a new conversation from the image on the canvas. Later edits made from its result carry the earlier turns with them.
+            </p>
+          ) : (
+            <>
+              {startAsset && (
+                <div className="flex items-center gap-2 text-gray-500">
+                  <AssetImage asset={startAsset} alt="Conversation start" className="w-8 h-8 rounded object-cover" />
+                  <span>Started from this image</span>
+                </div>
+              )}
+              {conversation.map((turn) => {
+                const asset = keptAsset(turn);
+                return (
+                  <div key={turn.edit.id} className="space-y-1">
+                    <p className="ml-6 p-2 rounded-lg bg-gray-800 text-gray-200 whitespace-pre-wrap">{turn.edit.instruction}</p>
+                    <div className={cn(
+                      'flex items-start gap-2 mr-6 p-2 rounded-lg border',
+                      turn.edit.id === selectedEditId ? 'border-yellow-400/40' : 'border-gray-800'
+                    )}>
+                      {asset && (
+                        <button
+                          onClick={() => restoreTurn(turn)}
+                          className="flex-shrink-0 rounded border border-gray-700 hover:border-gray-500 overflow-hidden"
+                          title="Continue from this turn"
+                        >
+                          <AssetImage asset={asset} alt="Model result" className="w-12 h-12 object-cover" />
+                        </button>
+                      )}
+                      <p className="text-gray-400 line-clamp-4 whitespace-pre-wrap">
+                        {turn.edit.responseText ?? 'Image updated.'}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
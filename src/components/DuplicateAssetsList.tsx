@@ -0,0 +1,62 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Copy } from 'lucide-react';
+import { useAppStore } from '../store/useAppStore';
+import { AssetStore } from '../services/assetStore';
+import { AssetImage } from './AssetImage';
+import { findDuplicateAssets, findRecord, AssetUsage } from '../utils/projectTree';
+
+// Images whose exact content appears in more than one place in the project
+export const DuplicateAssetsList: React.FC = () => {
+  const { currentProject, setCanvasImages, selectGeneration, selectEdit, selectVideoGeneration } = useAppStore();
+  const [expanded, setExpanded] = useState(false);
+  const groups = useMemo(() => (currentProject ? findDuplicateAssets(currentProject) : []), [currentProject]);
+
+  if (groups.length === 0) return null;
+
+  const openUsage = async ({ ref }: AssetUsage) => {
+    const record = currentProject && findRecord(currentProject, ref);
+    if (!record || record.outputAssets.length === 0) return;
+    setCanvasImages(await AssetStore.resolveUrls(record.outputAssets));
+    selectGeneration(ref.type === 'generation' ? ref.id : null);
+    selectEdit(ref.type === 'edit' ? ref.id : null);
+    selectVideoGeneration(null);
+  };
+
+  return (
+    <div className="mb-6 flex-shrink-0">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center mb-2 text-xs font-medium text-gray-400 hover:text-gray-300"
+      >
+        {expanded ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+        Duplicate Images ({groups.length})
+      </button>
+
+      {expanded && (
+        <div className="max-h-48 overflow-y-auto pr-1 space-y-2">
+          {groups.map(({ checksum, usages }) => (
+            <div key={checksum} className="flex gap-2 p-2 bg-gray-900 rounded-lg border border-gray-700 text-xs">
+              <AssetImage asset={usages[0].asset} alt="Duplicate" className="w-10 h-10 flex-shrink-0 rounded object-cover" />
+              <div className="min-w-0 flex-1">
+                <p className="flex items-center text-gray-500" title={`SHA-256 ${checksum}`}>
+                  <Copy className="h-3 w-3 mr-1" />
+                  Used {usages.length} times · {checksum.slice(0, 8)}
+                </p>
+                {usages.map((usage, index) => (
+                  <button
+                    key={index}
+                    onClick={() => openUsage(usage)}
+                    className="block w-full text-left text-gray-300 truncate hover:text-yellow-400"
+                    title="Open this record"
+                  >
+                    <span className="capitalize text-gray-500">{usage.role}:</span> {usage.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
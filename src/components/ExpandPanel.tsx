@@ -0,0 +1,67 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { useAppStore } from '../store/useAppStore';
+import { useImageSize } from '../hooks/useImageSize';
+import { ASPECT_RATIOS } from '../services/geminiService';
+import { EMPTY_EXPAND_BOUNDS } from '../types';
+import { getAspectRatioBounds, getExpandedSize, hasExpansion } from '../utils/expandUtils';
+import { cn } from '../utils/cn';
+
+const SIDES = ['top', 'right', 'bottom', 'left'] as const;
+
+// Target aspect ratios and padding for the Expand tool; the bounds can also be dragged on the canvas
+export const ExpandPanel: React.FC = () => {
+  const { canvasImage, expandBounds, setExpandBounds } = useAppStore();
+  const imageSize = useImageSize(canvasImage);
+
+  if (!imageSize) {
+    return <p className="text-xs text-gray-500">Open an image to expand it</p>;
+  }
+
+  const expandedSize = getExpandedSize(imageSize.width, imageSize.height, expandBounds);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-1">
+        {ASPECT_RATIOS.filter((ratio) => ratio !== 'auto').map((ratio) => (
+          <button
+            key={ratio}
+            onClick={() => setExpandBounds(getAspectRatioBounds(imageSize.width, imageSize.height, ratio))}
+            className={cn(
+              'px-2 py-1.5 rounded border text-xs transition-colors',
+              expandBounds.aspectRatio === ratio
+                ? 'bg-yellow-400/10 border-yellow-400/50 text-yellow-400'
+                : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-800'
+            )}
+          >
+            {ratio}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 gap-1 text-xs text-center text-gray-500">
+        {SIDES.map((side) => (
+          <div key={side} className="capitalize">
+            {side}
+            <span className="block text-gray-300">{expandBounds[side]}px</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <span>
+          {imageSize.width}×{imageSize.height} → <span className="text-gray-300">{expandedSize.width}×{expandedSize.height}</span>
+        </span>
+        <button
+          onClick={() => setExpandBounds(EMPTY_EXPAND_BOUNDS)}
+          disabled={!hasExpansion(expandBounds)}
+          className="flex items-center transition-colors hover:text-gray-300 disabled:opacity-50 disabled:hover:text-gray-500"
+          title="Remove the padding"
+        >
+          <RotateCcw className="mr-1 w-3 h-3" />
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, ShieldAlert } from 'lucide-react';
+import { useAppStore } from '../store/useAppStore';
+import { getCategoryLabel, getTriggeredRatings } from '../utils/generationFeedback';
+
+// Generate/edit requests that came back without images, newest first
+export const FailedAttemptsList: React.FC = () => {
+  const { currentProject, clearFailedAttempts, setCurrentPrompt } = useAppStore();
+  const [expanded, setExpanded] = useState(false);
+  const attempts = currentProject?.failedAttempts ?? [];
+
+  if (attempts.length === 0) return null;
+
+  return (
+    <div className="mb-6 flex-shrink-0">
+      <div className="flex items-center justify-between mb-2">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center text-xs font-medium text-gray-400 hover:text-gray-300"
+        >
+          {expanded ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+          Failed Attempts ({attempts.length})
+        </button>
+        {expanded && (
+          <button onClick={clearFailedAttempts} className="text-xs text-gray-500 hover:text-red-400">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="max-h-48 overflow-y-auto pr-1 space-y-2">
+          {[...attempts].reverse().map((attempt) => {
+            const triggered = attempt.feedback ? getTriggeredRatings(attempt.feedback) : [];
+            return (
+              <div key={attempt.id} className="p-2 bg-gray-900 rounded-lg border border-red-900/40 text-xs">
+                <div className="flex items-start gap-1.5 text-red-300">
+                  <ShieldAlert className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                  <span>{attempt.reason}</span>
+                </div>
+                {triggered.length > 0 && (
+                  <p className="mt-1 text-gray-500">
+                    {triggered.map((rating) => `${getCategoryLabel(rating.category)} (${rating.probability.toLowerCase()})`).join(', ')}
+                  </p>
+                )}
+                <button
+                  onClick={() => setCurrentPrompt(attempt.prompt)}
+                  className="mt-1 w-full text-left text-gray-300 truncate hover:text-yellow-400"
+                  title="Use this prompt again"
+                >
+                  <span className="capitalize text-gray-500">{attempt.type}:</span> {attempt.prompt}
+                </button>
+                <p className="mt-1 text-gray-600">{new Date(attempt.timestamp).toLocaleString()}</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react';
+import { GitBranch, CornerDownRight, Trash2 } from 'lucide-react';
+import { useAppStore } from '../store/useAppStore';
+import { AssetStore } from '../services/assetStore';
+import { AssetImage } from './AssetImage';
+import { buildProjectTree, flattenProjectTree, HistoryNode } from '../utils/projectTree';
+import { Project } from '../types';
+import { cn } from '../utils/cn';
+
+interface GenerationTreeProps {
+  project: Project;
+}
+
+const getNodeLabel = (node: HistoryNode) =>
+  node.type === 'generation' ? node.record.prompt : node.record.instruction;
+
+export const GenerationTree: React.FC<GenerationTreeProps> = ({ project }) => {
+  const {
+    selectedGenerationId,
+    selectedEditId,
+    selectGeneration,
+    selectEdit,
+    selectVideoGeneration,
+    setCanvasImages,
+    setSelectedTool,
+    removeGeneration,
+    removeEdit
+  } = useAppStore();
+
+  const rows = useMemo(() => flattenProjectTree(buildProjectTree(project)), [project]);
+
+  const isSelected = (node: HistoryNode) =>
+    node.type === 'generation' ? selectedGenerationId === node.id : selectedEditId === node.id;
+
+  // Puts a node's variants back on the canvas and makes it the parent of the next edit
+  const restoreNode = async (node: HistoryNode) => {
+    if (node.record.outputAssets.length === 0) return;
+    setCanvasImages(await AssetStore.resolveUrls(node.record.outputAssets));
+    selectGeneration(node.type === 'generation' ? node.id : null);
+    selectEdit(node.type === 'edit' ? node.id : null);
+    selectVideoGeneration(null);
+  };
+
+  const branchFromNode = async (node: HistoryNode) => {
+    await restoreNode(node);
+    setSelectedTool('edit');
+  };
+
+  const deleteNode = (node: HistoryNode) => {
+    if (node.type === 'generation') {
+      removeGeneration(node.id);
+    } else {
+      removeEdit(node.id);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      {rows.map(({ node, depth }) => (
+        <div
+          key={`${node.type}-${node.id}`}
+          onClick={() => restoreNode(node)}
+          style={{ paddingLeft: depth * 14 }}
+          className="group"
+        >
+          <div
+            className={cn(
+              'flex items-center space-x-2 p-1.5 rounded-lg border cursor-pointer transition-colors',
+              isSelected(node)
+                ? 'border-yellow-400 bg-yellow-400/5'
+                : 'border-transparent hover:bg-gray-800'
+            )}
+          >
+            {depth > 0 && <CornerDownRight className="h-3 w-3 flex-shrink-0 text-gray-600" />}
+
+            <div className="relative w-10 h-10 flex-shrink-0 rounded border border-gray-700 overflow-hidden">
+              {node.record.outputAssets[0] ? (
+                <AssetImage
+                  asset={node.record.outputAssets[0]}
+                  alt={node.type === 'generation' ? 'Generated image' : 'Edited image'}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <div className="w-full h-full bg-gray-800" />
+              )}
+              {node.record.outputAssets.length > 1 && (
+                <span className="absolute bottom-0 right-0 bg-gray-900/80 text-[10px] px-1 rounded-tl text-gray-300">
+                  {node.record.outputAssets.length}
+                </span>
+              )}
+            </div>
+
+            <div className="min-w-0 flex-1">
+              <p className="text-xs text-gray-200 truncate" title={getNodeLabel(node)}>
+                {getNodeLabel(node)}
+              </p>
+              <p className="text-[11px] text-gray-500">
+                <span className={node.type === 'edit' ? 'text-purple-400' : undefined}>
+                  {node.type === 'generation' ? 'Generation' : 'Edit'}
+                </span>
+                {' • '}
+                {new Date(node.timestamp).toLocaleTimeString()}
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  branchFromNode(node);
+                }}
+                className="p-1 text-gray-500 hover:text-yellow-400"
+                title="Branch from here"
+              >
+                <GitBranch className="h-3 w-3" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteNode(node);
+                }}
+                className="p-1 text-gray-500 hover:text-red-400"
+                title={node.type === 'generation' ? 'Delete generation' : 'Delete edit'}
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 import { Button } from './ui/Button';
-import { HelpCircle } from 'lucide-react';
+import { HelpCircle, BarChart3 } from 'lucide-react';
 import { InfoModal } from './InfoModal';
+import { UsageDashboardModal } from './UsageDashboardModal';
+import { ProjectSwitcher } from './ProjectSwitcher';
 
 export const Header: React.FC = () => {
   const [showInfoModal, setShowInfoModal] = useState(false);
+  const [showUsageModal, setShowUsageModal] = useState(false);
 
   return (
     <>
@@ -22,9 +25,18 @@ export const Header: React.FC = () => {
           <div className="text-xs text-gray-500 bg-gray-800 px-2 py-1 rounded">
             1.1
           </div>
+          <ProjectSwitcher />
         </div>
 
         <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowUsageModal(true)}
+            title="Usage"
+          >
+            <BarChart3 className="h-5 w-5" />
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -36,6 +48,7 @@ export const Header: React.FC = () => {
       </header>
 
       <InfoModal open={showInfoModal} onOpenChange={setShowInfoModal} />
+      <UsageDashboardModal open={showUsageModal} onOpenChange={setShowUsageModal} />
     </>
   );
 };
\ No newline at end of file
@@ -1,14 +1,33 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAppStore } from '../store/useAppStore';
 import { Button } from './ui/Button';
-import { History, Download, Image as ImageIcon, Layers, Clock, Video, Play } from 'lucide-react';
+import { History, Download, Image as ImageIcon, Layers, Clock, Video, Play, Trash2 } from 'lucide-react';
 import { cn } from '../utils/cn';
 import { ImagePreviewModal } from './ImagePreviewModal';
 import { QueuedRequestsPanel } from './QueuedRequestsPanel';
 import { CacheService } from '../services/cacheService';
+import { useServerEvent, useServerEventsConnected } from '../hooks/useServerEvents';
+import { AssetStore } from '../services/assetStore';
+import { AssetImage, AssetVideo } from './AssetImage';
+import { GenerationTree } from './GenerationTree';
+import { FailedAttemptsList } from './FailedAttemptsList';
+import { DuplicateAssetsList } from './DuplicateAssetsList';
+import { ModelResponseNotes } from './ModelResponseNotes';
+import { useMaskLibrary } from '../hooks/useMaskLibrary';
+import { getEditParent, getEditSourceAsset } from '../utils/projectTree';
+import { downloadImageUrl } from '../utils/imageUtils';
+import { Asset, EditOperation } from '../types';
 
 type TabType = 'history' | 'queue';
 
+const OPERATION_LABELS: Record<EditOperation['type'], string> = {
+  expand: 'Expansion',
+  crop: 'Crop',
+  rotate: 'Rotation',
+  flip: 'Flip',
+  resize: 'Resize',
+};
+
 export const HistoryPanel: React.FC = () => {
   const {
     currentProject,
@@ -25,9 +44,11 @@ export const HistoryPanel: React.FC = () => {
     setCanvasImage,
     setCanvasImages,
     setCanvasVideo,
+    removeVideoGeneration,
     selectedTool
   } = useAppStore();
 
+  const { loadMask } = useMaskLibrary();
   const [activeTab, setActiveTab] = useState<TabType>('history');
   const [queueCount, setQueueCount] = useState(0);
 
@@ -47,22 +68,34 @@ export const HistoryPanel: React.FC = () => {
   const edits = currentProject?.edits || [];
   const videoGenerations = currentProject?.videoGenerations || [];
 
+  const openAssetPreview = async (asset: Asset | undefined, title: string, description?: string) => {
+    const imageUrl = asset ? await AssetStore.resolveUrl(asset) : null;
+    if (!imageUrl) return;
+    setPreviewModal({ open: true, imageUrl, title, description });
+  };
+
   // Get current image dimensions
   const [imageDimensions, setImageDimensions] = React.useState<{ width: number; height: number } | null>(null);
 
   // Load queue count (includes both image batch and video requests)
+  const loadQueueCount = useCallback(async () => {
+    const imageRequests = await CacheService.getAllQueuedRequests();
+    const videoRequests = await CacheService.getAllVideoQueuedRequests();
+    setQueueCount(imageRequests.length + videoRequests.length);
+  }, []);
+
+  // Every queued request has a server job, so job events cover queue changes
+  useServerEvent(loadQueueCount);
+  const streamConnected = useServerEventsConnected();
+
   useEffect(() => {
-    const loadQueueCount = async () => {
-      const imageRequests = await CacheService.getAllQueuedRequests();
-      const videoRequests = await CacheService.getAllVideoQueuedRequests();
-      setQueueCount(imageRequests.length + videoRequests.length);
-    };
     loadQueueCount();
+    if (streamConnected) return;
 
-    // Refresh count periodically
+    // Refresh count periodically while the event stream is down
     const interval = setInterval(loadQueueCount, 5000);
     return () => clearInterval(interval);
-  }, []);
+  }, [loadQueueCount, streamConnected]);
   
   React.useEffect(() => {
     if (canvasImage) {
@@ -149,155 +182,99 @@ export const HistoryPanel: React.FC = () => {
       {activeTab === 'history' && (
         <>
 
-      {/* Variants Grid */}
+      {/* Generation Tree */}
       <div className="mb-6 flex-shrink-0">
-        <h4 className="text-xs font-medium text-gray-400 mb-3">Current Variants</h4>
-        {generations.length === 0 && edits.length === 0 && videoGenerations.length === 0 ? (
+        <h4 className="text-xs font-medium text-gray-400 mb-3">Generation Tree</h4>
+        {!currentProject || (generations.length === 0 && edits.length === 0 && videoGenerations.length === 0) ? (
           <div className="text-center py-8">
             <div className="text-4xl mb-2">🖼️</div>
             <p className="text-sm text-gray-500">No generations yet</p>
           </div>
         ) : (
-          <div className="grid grid-cols-2 gap-3">
-            {/* Show generations */}
-            {generations.slice(-2).map((generation, index) => (
-              <div
-                key={generation.id}
-                className={cn(
-                  'relative aspect-square rounded-lg border-2 cursor-pointer transition-all duration-200 overflow-hidden',
-                  selectedGenerationId === generation.id
-                    ? 'border-yellow-400'
-                    : 'border-gray-700 hover:border-gray-600'
-                )}
-                onClick={() => {
-                  selectGeneration(generation.id);
-                  selectVideoGeneration(null);
-                  if (generation.outputAssets.length > 0) {
-                    setCanvasImages(generation.outputAssets.map((asset) => asset.url));
-                  }
-                }}
-              >
-                {generation.outputAssets[0] ? (
-                  <>
-                    <img
-                      src={generation.outputAssets[0].url}
-                      alt="Generated variant"
-                      className="w-full h-full object-cover"
-                    />
-                  </>
-                ) : (
-                  <div className="w-full h-full bg-gray-800 flex items-center justify-center">
-                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-yellow-400" />
-                  </div>
-                )}
-
-                {/* Variant Number */}
-                <div className="absolute top-2 left-2 bg-gray-900/80 text-xs px-2 py-1 rounded">
-                  #{index + 1}
-                </div>
-              </div>
-            ))}
-
-            {/* Show edits */}
-            {edits.slice(-2).map((edit, index) => (
-              <div
-                key={edit.id}
-                className={cn(
-                  'relative aspect-square rounded-lg border-2 cursor-pointer transition-all duration-200 overflow-hidden',
-                  selectedEditId === edit.id
-                    ? 'border-yellow-400'
-                    : 'border-gray-700 hover:border-gray-600'
-                )}
-                onClick={() => {
-                  if (edit.outputAssets.length > 0) {
-                    setCanvasImages(edit.outputAssets.map((asset) => asset.url));
-                    selectEdit(edit.id);
-                    selectGeneration(null);
-                    selectVideoGeneration(null);
-                  }
-                }}
-              >
-                {edit.outputAssets[0] ? (
-                  <img
-                    src={edit.outputAssets[0].url}
-                    alt="Edited variant"
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
-                  <div className="w-full h-full bg-gray-800 flex items-center justify-center">
-                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-yellow-400" />
-                  </div>
-                )}
-
-                {/* Edit Label */}
-                <div className="absolute top-2 left-2 bg-purple-900/80 text-xs px-2 py-1 rounded">
-                  Edit #{index + 1}
-                </div>
-              </div>
-            ))}
-
-            {/* Show video generations */}
-            {videoGenerations.slice(-2).map((videoGen, index) => (
-              <div
-                key={videoGen.id}
-                className={cn(
-                  'relative aspect-video rounded-lg border-2 cursor-pointer transition-all duration-200 overflow-hidden',
-                  selectedVideoGenerationId === videoGen.id
-                    ? 'border-purple-400'
-                    : 'border-gray-700 hover:border-gray-600'
-                )}
-                onClick={() => {
-                  selectVideoGeneration(videoGen.id);
-                  selectGeneration(null);
-                  selectEdit(null);
-                  if (videoGen.outputAsset?.url) {
-                    setCanvasVideo(videoGen.outputAsset.url);
-                  }
-                }}
-              >
-                {videoGen.outputAsset ? (
-                  <>
-                    {/* Video thumbnail - use first frame of video or a placeholder */}
-                    <div className="w-full h-full bg-gray-800 flex items-center justify-center">
-                      <video
-                        src={videoGen.outputAsset.url}
-                        className="w-full h-full object-cover"
-                        muted
-                        playsInline
-                        preload="metadata"
-                      />
-                    </div>
-                    {/* Play icon overlay */}
-                    <div className="absolute inset-0 flex items-center justify-center bg-black/20">
-                      <div className="w-10 h-10 rounded-full bg-purple-500/80 flex items-center justify-center">
-                        <Play className="w-5 h-5 text-white ml-0.5" fill="white" />
+          <div className="max-h-72 overflow-y-auto pr-1 space-y-3">
+            <GenerationTree project={currentProject} />
+
+            {videoGenerations.length > 0 && (
+              <div className="grid grid-cols-2 gap-3">
+                {/* Show video generations */}
+                {videoGenerations.map((videoGen, index) => (
+                  <div
+                    key={videoGen.id}
+                    className={cn(
+                      'group relative aspect-video rounded-lg border-2 cursor-pointer transition-all duration-200 overflow-hidden',
+                      selectedVideoGenerationId === videoGen.id
+                        ? 'border-purple-400'
+                        : 'border-gray-700 hover:border-gray-600'
+                    )}
+                    onClick={async () => {
+                      selectVideoGeneration(videoGen.id);
+                      selectGeneration(null);
+                      selectEdit(null);
+                      if (videoGen.outputAsset) {
+                        setCanvasVideo(await AssetStore.resolveUrl(videoGen.outputAsset));
+                      }
+                    }}
+                  >
+                    {videoGen.outputAsset ? (
+                      <>
+                        {/* Video thumbnail - use first frame of video or a placeholder */}
+                        <div className="w-full h-full bg-gray-800 flex items-center justify-center">
+                          <AssetVideo
+                            asset={videoGen.outputAsset}
+                            className="w-full h-full object-cover"
+                            muted
+                            playsInline
+                            preload="metadata"
+                          />
+                        </div>
+                        {/* Play icon overlay */}
+                        <div className="absolute inset-0 flex items-center justify-center bg-black/20">
+                          <div className="w-10 h-10 rounded-full bg-purple-500/80 flex items-center justify-center">
+                            <Play className="w-5 h-5 text-white ml-0.5" fill="white" />
+                          </div>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="w-full h-full bg-gray-800 flex items-center justify-center">
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-400" />
                       </div>
+                    )}
+    
+                    {/* Video Label */}
+                    <div className="absolute top-2 left-2 bg-purple-600/80 text-xs px-2 py-1 rounded flex items-center gap-1">
+                      <Video className="w-3 h-3" />
+                      Video #{index + 1}
                     </div>
-                  </>
-                ) : (
-                  <div className="w-full h-full bg-gray-800 flex items-center justify-center">
-                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-400" />
-                  </div>
-                )}
-
-                {/* Video Label */}
-                <div className="absolute top-2 left-2 bg-purple-600/80 text-xs px-2 py-1 rounded flex items-center gap-1">
-                  <Video className="w-3 h-3" />
-                  Video #{index + 1}
-                </div>
-
-                {/* Duration badge */}
-                {videoGen.outputAsset?.duration && (
-                  <div className="absolute bottom-2 right-2 bg-gray-900/80 text-xs px-2 py-1 rounded">
-                    {videoGen.outputAsset.duration}s
+    
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeVideoGeneration(videoGen.id);
+                      }}
+                      className="absolute top-2 right-2 p-1 bg-gray-900/80 rounded text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete video"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+    
+                    {/* Duration badge */}
+                    {videoGen.outputAsset?.duration && (
+                      <div className="absolute bottom-2 right-2 bg-gray-900/80 text-xs px-2 py-1 rounded">
+                        {videoGen.outputAsset.duration}s
+                      </div>
+                    )}
                   </div>
-                )}
+                ))}
               </div>
-            ))}
+            )}
           </div>
         )}
       </div>
 
+      <FailedAttemptsList />
+
+      <DuplicateAssetsList />
+
       {/* Current Image/Video Info */}
       {(canvasImage || canvasVideo || imageDimensions) && (
         <div className="mb-4 p-3 bg-gray-900 rounded-lg border border-gray-700">
@@ -401,16 +378,15 @@ export const HistoryPanel: React.FC = () => {
                   <div>
                     <h5 className="text-xs font-medium text-gray-400 mb-2">Start Frame</h5>
                     <button
-                      onClick={() => setPreviewModal({
-                        open: true,
-                        imageUrl: videoGen.startFrameAsset!.url,
-                        title: 'Start Frame',
-                        description: 'The first frame used to guide the video generation'
-                      })}
+                      onClick={() => openAssetPreview(
+                        videoGen.startFrameAsset,
+                        'Start Frame',
+                        'The first frame used to guide the video generation'
+                      )}
                       className="relative aspect-video w-20 rounded border border-purple-700 hover:border-purple-600 transition-colors overflow-hidden group"
                     >
-                      <img
-                        src={videoGen.startFrameAsset.url}
+                      <AssetImage
+                        asset={videoGen.startFrameAsset}
                         alt="Start frame"
                         className="w-full h-full object-cover"
                       />
@@ -426,16 +402,15 @@ export const HistoryPanel: React.FC = () => {
                   <div>
                     <h5 className="text-xs font-medium text-gray-400 mb-2">Last Frame</h5>
                     <button
-                      onClick={() => setPreviewModal({
-                        open: true,
-                        imageUrl: videoGen.lastFrameAsset!.url,
-                        title: 'Last Frame',
-                        description: 'The last frame used to guide the video generation'
-                      })}
+                      onClick={() => openAssetPreview(
+                        videoGen.lastFrameAsset,
+                        'Last Frame',
+                        'The last frame used to guide the video generation'
+                      )}
                       className="relative aspect-video w-20 rounded border border-purple-700 hover:border-purple-600 transition-colors overflow-hidden group"
                     >
-                      <img
-                        src={videoGen.lastFrameAsset.url}
+                      <AssetImage
+                        asset={videoGen.lastFrameAsset}
                         alt="Last frame"
                         className="w-full h-full object-cover"
                       />
@@ -467,6 +442,8 @@ export const HistoryPanel: React.FC = () => {
                   )}
                 </div>
 
+                <ModelResponseNotes responseText={gen.responseText} thoughtSummary={gen.thoughtSummary} />
+
                 {/* Reference Images */}
                 {gen.sourceAssets.length > 0 && (
                   <div>
@@ -475,16 +452,15 @@ export const HistoryPanel: React.FC = () => {
                       {gen.sourceAssets.map((asset, index) => (
                         <button
                           key={asset.id}
-                          onClick={() => setPreviewModal({
-                            open: true,
-                            imageUrl: asset.url,
-                            title: `Reference Image ${index + 1}`,
-                            description: 'This reference image was used to guide the generation'
-                          })}
+                          onClick={() => openAssetPreview(
+                            asset,
+                            `Reference Image ${index + 1}`,
+                            'This reference image was used to guide the generation'
+                          )}
                           className="relative aspect-square rounded border border-gray-700 hover:border-gray-600 transition-colors overflow-hidden group"
                         >
-                          <img
-                            src={asset.url}
+                          <AssetImage
+                            asset={asset}
                             alt={`Reference ${index + 1}`}
                             className="w-full h-full object-cover"
                           />
@@ -502,45 +478,98 @@ export const HistoryPanel: React.FC = () => {
               </div>
             );
           } else if (selectedEdit) {
-            const parentGen = generations.find(g => g.id === selectedEdit.parentGenerationId);
+            const parent = getEditParent(selectedEdit);
+            const sourceAsset = currentProject && getEditSourceAsset(currentProject, selectedEdit);
+            const savedMask = currentProject?.masks?.find(mask => mask.asset.id === selectedEdit.maskAssetId);
+            const showingRaw = !!selectedEdit.rawOutputAssets?.some(asset => AssetStore.peekUrl(asset) === canvasImage);
             return (
               <div className="space-y-3">
                 <div className="space-y-2 text-xs text-gray-500">
                   <div>
-                    <span className="text-gray-400">Edit Instruction:</span>
+                    <span className="text-gray-400">{selectedEdit.operation && selectedEdit.operation.type !== 'expand' ? 'Operation:' : 'Edit Instruction:'}</span>
                     <p className="text-gray-300 mt-1">{selectedEdit.instruction}</p>
                   </div>
                   <div className="flex justify-between">
                     <span>Type:</span>
-                    <span>Image Edit</span>
+                    <span>{selectedEdit.operation ? OPERATION_LABELS[selectedEdit.operation.type] : 'Image Edit'}</span>
                   </div>
+                  {selectedEdit.operation?.type === 'expand' && (
+                    <div className="flex justify-between">
+                      <span>Expanded:</span>
+                      <span title="Top, right, bottom, left">
+                        {[selectedEdit.operation.bounds.top, selectedEdit.operation.bounds.right, selectedEdit.operation.bounds.bottom, selectedEdit.operation.bounds.left].join(' / ')}px
+                        {selectedEdit.operation.bounds.aspectRatio && ` to ${selectedEdit.operation.bounds.aspectRatio}`}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span>Created:</span>
                     <span>{new Date(selectedEdit.timestamp).toLocaleTimeString()}</span>
                   </div>
-                  {selectedEdit.maskAssetId && (
+                  <div className="flex justify-between">
+                    <span>Branched from:</span>
+                    <span>{parent ? (parent.type === 'edit' ? 'Edit' : 'Generation') : 'Uploaded image'}</span>
+                  </div>
+                  {(selectedEdit.maskAssetId || selectedEdit.maskReferenceAsset) && (
                     <div className="flex justify-between">
                       <span>Mask:</span>
-                      <span className="text-purple-400">Applied</span>
+                      {savedMask ? (
+                        <button
+                          onClick={() => loadMask(savedMask)}
+                          disabled={!canvasImage}
+                          className="text-purple-400 hover:text-purple-300 disabled:text-gray-500 transition-colors truncate"
+                          title="Use this mask on the canvas image"
+                        >
+                          {savedMask.name} · Use
+                        </button>
+                      ) : (
+                        <span className="text-purple-400">Applied</span>
+                      )}
+                    </div>
+                  )}
+                  {selectedEdit.rawOutputAssets && (
+                    <div className="flex justify-between items-center">
+                      <span>Result:</span>
+                      <div className="flex">
+                        {[
+                          { label: 'Composited', assets: selectedEdit.outputAssets, active: !showingRaw, title: 'The results blended onto the original inside the mask' },
+                          { label: 'Raw', assets: selectedEdit.rawOutputAssets, active: showingRaw, title: 'The images as the model returned them' },
+                        ].map(({ label, assets, active, title }) => (
+                          <button
+                            key={label}
+                            onClick={async () => setCanvasImages(await AssetStore.resolveUrls(assets))}
+                            className={cn(
+                              'px-2 py-0.5 border first:rounded-l last:rounded-r last:border-l-0 transition-colors',
+                              active
+                                ? 'bg-yellow-400/10 border-yellow-400/50 text-yellow-400'
+                                : 'border-gray-700 text-gray-400 hover:bg-gray-800'
+                            )}
+                            title={title}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
                     </div>
                   )}
                 </div>
 
-                {/* Parent Generation Reference */}
-                {parentGen && (
+                <ModelResponseNotes responseText={selectedEdit.responseText} thoughtSummary={selectedEdit.thoughtSummary} />
+
+                {/* Source Image Reference */}
+                {sourceAsset && (
                   <div>
                     <h5 className="text-xs font-medium text-gray-400 mb-2">Original Image</h5>
                     <button
-                      onClick={() => setPreviewModal({
-                        open: true,
-                        imageUrl: parentGen.outputAssets[0]?.url || '',
-                        title: 'Original Image',
-                        description: 'The base image that was edited'
-                      })}
+                      onClick={() => openAssetPreview(
+                        sourceAsset,
+                        'Original Image',
+                        'The base image that was edited'
+                      )}
                       className="relative aspect-square w-16 rounded border border-gray-700 hover:border-gray-600 transition-colors overflow-hidden group"
                     >
-                      <img
-                        src={parentGen.outputAssets[0]?.url}
+                      <AssetImage
+                        asset={sourceAsset}
                         alt="Original"
                         className="w-full h-full object-cover"
                       />
@@ -556,16 +585,15 @@ export const HistoryPanel: React.FC = () => {
                   <div>
                     <h5 className="text-xs font-medium text-gray-400 mb-2">Masked Reference</h5>
                     <button
-                      onClick={() => setPreviewModal({
-                        open: true,
-                        imageUrl: selectedEdit.maskReferenceAsset!.url,
-                        title: 'Masked Reference Image',
-                        description: 'This image with mask overlay was sent to the AI model to guide the edit'
-                      })}
+                      onClick={() => openAssetPreview(
+                        selectedEdit.maskReferenceAsset,
+                        'Masked Reference Image',
+                        'This image with mask overlay was sent to the AI model to guide the edit'
+                      )}
                       className="relative aspect-square w-16 rounded border border-gray-700 hover:border-gray-600 transition-colors overflow-hidden group"
                     >
-                      <img
-                        src={selectedEdit.maskReferenceAsset.url}
+                      <AssetImage
+                        asset={selectedEdit.maskReferenceAsset}
                         alt="Masked reference"
                         className="w-full h-full object-cover"
                       />
@@ -596,11 +624,11 @@ export const HistoryPanel: React.FC = () => {
           variant="outline"
           size="sm"
           className="w-full"
-          onClick={() => {
+          onClick={async () => {
             // Check for video first
             if (selectedVideoGenerationId) {
               const videoGen = videoGenerations.find(v => v.id === selectedVideoGenerationId);
-              const videoUrl = videoGen?.outputAsset?.url;
+              const videoUrl = videoGen?.outputAsset && await AssetStore.resolveUrl(videoGen.outputAsset);
               if (videoUrl) {
                 const link = document.createElement('a');
                 link.href = videoUrl;
@@ -617,7 +645,7 @@ export const HistoryPanel: React.FC = () => {
 
             if (selectedGenerationId) {
               const gen = generations.find(g => g.id === selectedGenerationId);
-              imageUrl = gen?.outputAssets[0]?.url || null;
+              imageUrl = gen?.outputAssets[0] ? await AssetStore.resolveUrl(gen.outputAssets[0]) : null;
             } else {
               // If no generation selected, try to get the current canvas image
               const { canvasImage } = useAppStore.getState();
@@ -625,29 +653,7 @@ export const HistoryPanel: React.FC = () => {
             }
 
             if (imageUrl) {
-              // Handle both data URLs and regular URLs
-              if (imageUrl.startsWith('data:')) {
-                const link = document.createElement('a');
-                link.href = imageUrl;
-                link.download = `nano-banana-${Date.now()}.png`;
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
-              } else {
-                // For external URLs, we need to fetch and convert to blob
-                fetch(imageUrl)
-                  .then(response => response.blob())
-                  .then(blob => {
-                    const url = URL.createObjectURL(blob);
-                    const link = document.createElement('a');
-                    link.href = url;
-                    link.download = `nano-banana-${Date.now()}.png`;
-                    document.body.appendChild(link);
-                    link.click();
-                    document.body.removeChild(link);
-                    URL.revokeObjectURL(url);
-                  });
-              }
+              await downloadImageUrl(imageUrl, `nano-banana-${Date.now()}`);
             }
           }}
           disabled={!selectedGenerationId && !selectedVideoGenerationId && !useAppStore.getState().canvasImage}
@@ -1,10 +1,27 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Stage, Layer, Image as KonvaImage, Line } from 'react-konva';
+import { Stage, Layer, Image as KonvaImage, Line, Rect, Ellipse, Transformer } from 'react-konva';
+import type Konva from 'konva';
 import { useAppStore } from '../store/useAppStore';
 import { Button } from './ui/Button';
 import { VideoToolbar } from './VideoToolbar';
-import { ZoomIn, ZoomOut, RotateCcw, Download, Eye, EyeOff, Eraser, ChevronLeft, ChevronRight, Video } from 'lucide-react';
+import { ZoomIn, ZoomOut, RotateCcw, Download, Eye, EyeOff, ChevronLeft, ChevronRight, Video } from 'lucide-react';
+import { ExpandBounds } from '../types';
 import { cn } from '../utils/cn';
+import { downloadImageUrl } from '../utils/imageUtils';
+import { rasterizeMask, colorizeMask, MASK_PREVIEW_COLOR } from '../utils/maskUtils';
+import { clampCropRect, getAspectRatioCrop, MIN_CROP_SIZE } from '../utils/transformUtils';
+import { useSegmentation } from '../hooks/useSegmentation';
+import { MaskToolbar, MaskAdjustments } from './MaskToolbar';
+import { MaskLibrary } from './MaskLibrary';
+
+// Color of in-progress strokes that cut away from the mask
+const ERASE_PREVIEW_COLOR = '#F3F4F6';
+// How close (in screen pixels) a click must be to a polygon's first vertex to close it
+const CLOSE_POLYGON_DISTANCE = 10;
+// Size (in screen pixels) of the Expand tool's edge handles
+const EXPAND_HANDLE_SIZE = 12;
+const EXPAND_SIDES = ['top', 'right', 'bottom', 'left'] as const;
+type ExpandSide = typeof EXPAND_SIDES[number];
 
 export const ImageCanvas: React.FC = () => {
   const {
@@ -17,13 +34,19 @@ export const ImageCanvas: React.FC = () => {
     setCanvasPan,
     brushStrokes,
     addBrushStroke,
-    clearBrushStrokes,
+    maskTool,
+    maskSettings,
+    expandBounds,
+    setExpandBounds,
+    cropRect,
+    setCropRect,
+    cropAspectRatio,
+    previewRotation,
     showMasks,
     setShowMasks,
     selectedTool,
     isGenerating,
     brushSize,
-    setBrushSize,
     setCanvasImageIndex,
     // Video state
     canvasVideo,
@@ -43,6 +66,15 @@ export const ImageCanvas: React.FC = () => {
   const [stageSize, setStageSize] = useState({ width: 800, height: 600 });
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentStroke, setCurrentStroke] = useState<number[]>([]);
+  // Alt held when the stroke started: shapes and the brush subtract from the mask
+  const [isSubtracting, setIsSubtracting] = useState(false);
+  // Lasso vertices placed by clicking, until the polygon is closed
+  const [polygonPoints, setPolygonPoints] = useState<number[]>([]);
+  const [segmentQuery, setSegmentQuery] = useState('');
+  const [maskPreview, setMaskPreview] = useState<HTMLCanvasElement | null>(null);
+  const cropNodeRef = useRef<Konva.Rect>(null);
+  const cropTransformerRef = useRef<Konva.Transformer>(null);
+  const { segment, isSegmenting, error: segmentError } = useSegmentation();
 
   // Determine if we're in video mode
   const isVideoMode = selectedTool === 'video' || canvasVideo !== null;
@@ -78,6 +110,29 @@ export const ImageCanvas: React.FC = () => {
     }
   }, [canvasImage, stageSize, setCanvasZoom, setCanvasPan, canvasZoom, canvasPan]);
 
+  // The mask as it will be sent, tinted for display; opacity is applied when it's drawn
+  const { invert, grow, feather } = maskSettings;
+  useEffect(() => {
+    if (!image || brushStrokes.length === 0) {
+      setMaskPreview(null);
+      return;
+    }
+    let cancelled = false;
+    rasterizeMask(brushStrokes, { invert, grow, feather }, image.width, image.height)
+      .then((mask) => {
+        if (!cancelled) setMaskPreview(colorizeMask(mask, MASK_PREVIEW_COLOR));
+      })
+      .catch((error) => console.error('Failed to render mask:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [brushStrokes, image, invert, grow, feather]);
+
+  // An unfinished polygon belongs to the lasso
+  useEffect(() => {
+    if (maskTool !== 'lasso' || selectedTool !== 'mask') setPolygonPoints([]);
+  }, [maskTool, selectedTool]);
+
   // Handle stage resize
   useEffect(() => {
     const updateSize = () => {
@@ -95,69 +150,113 @@ export const ImageCanvas: React.FC = () => {
     return () => window.removeEventListener('resize', updateSize);
   }, []);
 
+  // Pointer position relative to the image's top-left corner
+  const getImagePoint = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    const relativePos = e.target.getStage()!.getRelativePointerPosition()!;
+    const imageX = (stageSize.width / canvasZoom - image!.width) / 2;
+    const imageY = (stageSize.height / canvasZoom - image!.height) / 2;
+    const x = relativePos.x - imageX;
+    const y = relativePos.y - imageY;
+    return { x, y, inside: x >= 0 && x <= image!.width && y >= 0 && y <= image!.height };
+  };
+
+  // Shapes keep going to the image's edge when dragged past it
+  const clampToImage = ({ x, y }: { x: number; y: number }) => [
+    Math.max(0, Math.min(image!.width, x)),
+    Math.max(0, Math.min(image!.height, y)),
+  ];
+
+  const commitStroke = (points: number[], shape?: 'rectangle' | 'ellipse' | 'polygon') => {
+    addBrushStroke({
+      id: `stroke-${Date.now()}`,
+      points,
+      brushSize,
+      color: MASK_PREVIEW_COLOR,
+      shape,
+      erase: maskTool === 'eraser' || isSubtracting || undefined,
+    });
+  };
+
   const handleMouseDown = (e: any) => {
     if (selectedTool !== 'mask' || !image) return;
-    
-    setIsDrawing(true);
-    const stage = e.target.getStage();
-    const pos = stage.getPointerPosition();
-    
-    // Use Konva's getRelativePointerPosition for accurate coordinates
-    const relativePos = stage.getRelativePointerPosition();
-    
-    // Calculate image bounds on the stage
-    const imageX = (stageSize.width / canvasZoom - image.width) / 2;
-    const imageY = (stageSize.height / canvasZoom - image.height) / 2;
-    
-    // Convert to image-relative coordinates
-    const relativeX = relativePos.x - imageX;
-    const relativeY = relativePos.y - imageY;
-    
-    // Check if click is within image bounds
-    if (relativeX >= 0 && relativeX <= image.width && relativeY >= 0 && relativeY <= image.height) {
-      setCurrentStroke([relativeX, relativeY]);
+    const point = getImagePoint(e);
+
+    if (maskTool === 'select') {
+      if (point.inside && !isSegmenting) segment({ query: segmentQuery, point: { x: point.x, y: point.y } });
+      return;
+    }
+    if (maskTool === 'brush' || maskTool === 'eraser') {
+      if (!point.inside) return;
+      setCurrentStroke([point.x, point.y]);
+    } else {
+      const [x, y] = clampToImage(point);
+      setCurrentStroke(maskTool === 'lasso' ? [x, y] : [x, y, x, y]);
     }
+    setIsSubtracting(e.evt.altKey);
+    setIsDrawing(true);
+  };
+
+  const handleSegmentQuery = () => {
+    if (segmentQuery.trim() && !isSegmenting) segment({ query: segmentQuery });
   };
 
   const handleMouseMove = (e: any) => {
     if (!isDrawing || selectedTool !== 'mask' || !image) return;
-    
-    const stage = e.target.getStage();
-    const pos = stage.getPointerPosition();
-    
-    // Use Konva's getRelativePointerPosition for accurate coordinates
-    const relativePos = stage.getRelativePointerPosition();
-    
-    // Calculate image bounds on the stage
-    const imageX = (stageSize.width / canvasZoom - image.width) / 2;
-    const imageY = (stageSize.height / canvasZoom - image.height) / 2;
-    
-    // Convert to image-relative coordinates
-    const relativeX = relativePos.x - imageX;
-    const relativeY = relativePos.y - imageY;
-    
-    // Check if within image bounds
-    if (relativeX >= 0 && relativeX <= image.width && relativeY >= 0 && relativeY <= image.height) {
-      setCurrentStroke([...currentStroke, relativeX, relativeY]);
+    const point = getImagePoint(e);
+
+    if (maskTool === 'rectangle' || maskTool === 'ellipse') {
+      setCurrentStroke([currentStroke[0], currentStroke[1], ...clampToImage(point)]);
+    } else if (maskTool === 'lasso') {
+      setCurrentStroke([...currentStroke, ...clampToImage(point)]);
+    } else if (point.inside) {
+      setCurrentStroke([...currentStroke, point.x, point.y]);
     }
   };
 
-  const handleMouseUp = () => {
-    if (!isDrawing || currentStroke.length < 4) {
-      setIsDrawing(false);
-      setCurrentStroke([]);
+  const closePolygon = (points: number[]) => {
+    if (points.length >= 6) commitStroke(points, 'polygon');
+    setPolygonPoints([]);
+  };
+
+  // A lasso drag outlines the selection freehand; clicks place polygon vertices instead,
+  // closed by clicking the first one again or double-clicking
+  const finishLasso = () => {
+    const closeDistance = CLOSE_POLYGON_DISTANCE / canvasZoom;
+    const xs = currentStroke.filter((_, i) => i % 2 === 0);
+    const ys = currentStroke.filter((_, i) => i % 2 === 1);
+    const isDrag = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) > closeDistance;
+    if (polygonPoints.length === 0 && isDrag) {
+      closePolygon(currentStroke);
       return;
     }
-    
+    const [x, y] = currentStroke;
+    const [firstX, firstY] = polygonPoints;
+    if (polygonPoints.length >= 6 && Math.hypot(x - firstX, y - firstY) <= closeDistance) {
+      closePolygon(polygonPoints);
+    } else {
+      setPolygonPoints([...polygonPoints, x, y]);
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (!isDrawing) return;
     setIsDrawing(false);
-    addBrushStroke({
-      id: `stroke-${Date.now()}`,
-      points: currentStroke,
-      brushSize,
-    });
+
+    if (maskTool === 'lasso') {
+      finishLasso();
+    } else if (maskTool === 'rectangle' || maskTool === 'ellipse') {
+      const [x1, y1, x2, y2] = currentStroke;
+      if (x1 !== x2 && y1 !== y2) commitStroke(currentStroke, maskTool);
+    } else if (currentStroke.length >= 4) {
+      commitStroke(currentStroke);
+    }
     setCurrentStroke([]);
   };
 
+  const handleDoubleClick = () => {
+    if (selectedTool === 'mask' && maskTool === 'lasso') closePolygon(polygonPoints);
+  };
+
   const handleZoom = (delta: number) => {
     const newZoom = Math.max(0.1, Math.min(3, canvasZoom + delta));
     setCanvasZoom(newZoom);
@@ -233,17 +332,68 @@ export const ImageCanvas: React.FC = () => {
 
   const handleDownload = () => {
     if (canvasImage) {
-      if (canvasImage.startsWith('data:')) {
-        const link = document.createElement('a');
-        link.href = canvasImage;
-        link.download = `nano-banana-${Date.now()}.png`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-      }
+      downloadImageUrl(canvasImage, `nano-banana-${Date.now()}`);
+    }
+  };
+
+  // Where the image sits on the stage, so mask coordinates line up with it
+  const imageOffset = {
+    x: (stageSize.width / canvasZoom - (image?.width || 0)) / 2,
+    y: (stageSize.height / canvasZoom - (image?.height || 0)) / 2,
+  };
+  const strokeColor = maskTool === 'eraser' || isSubtracting ? ERASE_PREVIEW_COLOR : MASK_PREVIEW_COLOR;
+
+  // Centre of the Expand handle on each side of the expanded bounds
+  const getExpandHandlePosition = (side: ExpandSide, bounds: ExpandBounds) => {
+    const width = image?.width || 0;
+    const height = image?.height || 0;
+    switch (side) {
+      case 'top': return { x: imageOffset.x + width / 2, y: imageOffset.y - bounds.top };
+      case 'bottom': return { x: imageOffset.x + width / 2, y: imageOffset.y + height + bounds.bottom };
+      case 'left': return { x: imageOffset.x - bounds.left, y: imageOffset.y + height / 2 };
+      case 'right': return { x: imageOffset.x + width + bounds.right, y: imageOffset.y + height / 2 };
     }
   };
 
+  // Dragging a handle moves its side of the bounds; it can't go inside the image
+  const handleExpandDrag = (side: ExpandSide, e: Konva.KonvaEventObject<DragEvent>) => {
+    const { x, y } = e.target.position();
+    const width = image?.width || 0;
+    const height = image?.height || 0;
+    const distance = {
+      top: imageOffset.y - y,
+      bottom: y - imageOffset.y - height,
+      left: imageOffset.x - x,
+      right: x - imageOffset.x - width,
+    }[side];
+    const bounds = { ...expandBounds, [side]: Math.max(0, Math.round(distance)), aspectRatio: undefined };
+    e.target.position(getExpandHandlePosition(side, bounds));
+    setExpandBounds(bounds);
+  };
+
+  // The Transform tool's crop box in image pixels, hidden while a rotation is previewed
+  const cropBox = selectedTool === 'transform' && image && previewRotation === 0
+    ? cropRect ?? getAspectRatioCrop(image.width, image.height, cropAspectRatio)
+    : null;
+  const showCropBox = cropBox !== null;
+
+  useEffect(() => {
+    cropTransformerRef.current?.nodes(cropNodeRef.current ? [cropNodeRef.current] : []);
+  }, [showCropBox]);
+
+  // Moving or resizing the crop box keeps it inside the image and at the locked aspect ratio
+  const handleCropChange = (node: Konva.Rect) => {
+    if (!image) return;
+    const rect = clampCropRect({
+      x: node.x() - imageOffset.x,
+      y: node.y() - imageOffset.y,
+      width: node.width() * node.scaleX(),
+      height: node.height() * node.scaleY(),
+    }, image.width, image.height, cropAspectRatio);
+    node.setAttrs({ x: imageOffset.x + rect.x, y: imageOffset.y + rect.y, width: rect.width, height: rect.height, scaleX: 1, scaleY: 1 });
+    setCropRect(rect);
+  };
+
   const hasVariants = canvasImages.length > 1;
   const totalVariants = canvasImages.length || (canvasImage ? 1 : 0);
 
@@ -296,28 +446,12 @@ export const ImageCanvas: React.FC = () => {
             {/* Right side - Tools and actions */}
             <div className="flex items-center space-x-2">
               {selectedTool === 'mask' && (
-                <>
-                  <div className="flex items-center mr-2 space-x-2">
-                    <span className="text-xs text-gray-400">Brush:</span>
-                    <input
-                      type="range"
-                      min="5"
-                      max="50"
-                      value={brushSize}
-                      onChange={(e) => setBrushSize(parseInt(e.target.value))}
-                      className="w-16 h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer slider"
-                    />
-                    <span className="w-6 text-xs text-gray-400">{brushSize}</span>
-                  </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={clearBrushStrokes}
-                    disabled={brushStrokes.length === 0}
-                  >
-                    <Eraser className="w-4 h-4" />
-                  </Button>
-                </>
+                <MaskToolbar
+                  segmentQuery={segmentQuery}
+                  onSegmentQueryChange={setSegmentQuery}
+                  onSegmentQuery={handleSegmentQuery}
+                  isSegmenting={isSegmenting}
+                />
               )}
 
               <Button
@@ -361,6 +495,14 @@ export const ImageCanvas: React.FC = () => {
           </div>
         )}
 
+        {/* Mask adjustments */}
+        {!isVideoMode && selectedTool === 'mask' && image && (
+          <div className="absolute top-3 left-3 z-10 space-y-2">
+            <MaskAdjustments />
+            <MaskLibrary />
+          </div>
+        )}
+
         {/* Empty state */}
         {!image && !canvasVideo && !isGenerating && (
           <div className="flex absolute inset-0 justify-center items-center">
@@ -434,51 +576,154 @@ export const ImageCanvas: React.FC = () => {
             onMouseDown={handleMouseDown}
             onMousemove={handleMouseMove}
             onMouseup={handleMouseUp}
+            onDblClick={handleDoubleClick}
             style={{
-              cursor: selectedTool === 'mask' ? 'crosshair' : 'default'
+              cursor: selectedTool !== 'mask' ? 'default' : isSegmenting ? 'progress' : maskTool === 'select' ? 'pointer' : 'crosshair'
             }}
           >
             <Layer>
               {image && (
                 <KonvaImage
                   image={image}
-                  x={(stageSize.width / canvasZoom - image.width) / 2}
-                  y={(stageSize.height / canvasZoom - image.height) / 2}
+                  x={imageOffset.x + image.width / 2}
+                  y={imageOffset.y + image.height / 2}
+                  offsetX={image.width / 2}
+                  offsetY={image.height / 2}
+                  rotation={selectedTool === 'transform' ? previewRotation : 0}
                 />
               )}
 
-              {/* Brush Strokes */}
-              {showMasks && brushStrokes.map((stroke) => (
-                <Line
-                  key={stroke.id}
-                  points={stroke.points}
-                  stroke="#A855F7"
-                  strokeWidth={stroke.brushSize}
-                  tension={0.5}
-                  lineCap="round"
-                  lineJoin="round"
-                  globalCompositeOperation="source-over"
-                  opacity={0.6}
-                  x={(stageSize.width / canvasZoom - (image?.width || 0)) / 2}
-                  y={(stageSize.height / canvasZoom - (image?.height || 0)) / 2}
+              {/* Mask */}
+              {showMasks && maskPreview && (
+                <KonvaImage
+                  image={maskPreview}
+                  opacity={maskSettings.opacity}
+                  x={imageOffset.x}
+                  y={imageOffset.y}
+                  listening={false}
                 />
-              ))}
+              )}
 
-              {/* Current stroke being drawn */}
-              {isDrawing && currentStroke.length > 2 && (
+              {/* Current stroke or shape being drawn */}
+              {isDrawing && (maskTool === 'brush' || maskTool === 'eraser') && currentStroke.length > 2 && (
                 <Line
                   points={currentStroke}
-                  stroke="#A855F7"
+                  stroke={strokeColor}
                   strokeWidth={brushSize}
                   tension={0.5}
                   lineCap="round"
                   lineJoin="round"
-                  globalCompositeOperation="source-over"
-                  opacity={0.6}
-                  x={(stageSize.width / canvasZoom - (image?.width || 0)) / 2}
-                  y={(stageSize.height / canvasZoom - (image?.height || 0)) / 2}
+                  opacity={maskSettings.opacity}
+                  x={imageOffset.x}
+                  y={imageOffset.y}
+                />
+              )}
+              {isDrawing && maskTool === 'rectangle' && (
+                <Rect
+                  x={imageOffset.x + Math.min(currentStroke[0], currentStroke[2])}
+                  y={imageOffset.y + Math.min(currentStroke[1], currentStroke[3])}
+                  width={Math.abs(currentStroke[2] - currentStroke[0])}
+                  height={Math.abs(currentStroke[3] - currentStroke[1])}
+                  fill={strokeColor}
+                  opacity={maskSettings.opacity}
                 />
               )}
+              {isDrawing && maskTool === 'ellipse' && (
+                <Ellipse
+                  x={imageOffset.x + (currentStroke[0] + currentStroke[2]) / 2}
+                  y={imageOffset.y + (currentStroke[1] + currentStroke[3]) / 2}
+                  radiusX={Math.abs(currentStroke[2] - currentStroke[0]) / 2}
+                  radiusY={Math.abs(currentStroke[3] - currentStroke[1]) / 2}
+                  fill={strokeColor}
+                  opacity={maskSettings.opacity}
+                />
+              )}
+              {maskTool === 'lasso' && (polygonPoints.length > 0 || (isDrawing && currentStroke.length > 2)) && (
+                <Line
+                  points={polygonPoints.length > 0 ? polygonPoints : currentStroke}
+                  stroke={strokeColor}
+                  strokeWidth={2 / canvasZoom}
+                  dash={[6 / canvasZoom, 4 / canvasZoom]}
+                  closed={polygonPoints.length === 0}
+                  x={imageOffset.x}
+                  y={imageOffset.y}
+                />
+              )}
+
+              {/* Expanded bounds with a handle on each side */}
+              {selectedTool === 'expand' && image && (
+                <>
+                  <Rect
+                    x={imageOffset.x - expandBounds.left}
+                    y={imageOffset.y - expandBounds.top}
+                    width={image.width + expandBounds.left + expandBounds.right}
+                    height={image.height + expandBounds.top + expandBounds.bottom}
+                    stroke="#FACC15"
+                    strokeWidth={2 / canvasZoom}
+                    dash={[6 / canvasZoom, 4 / canvasZoom]}
+                    listening={false}
+                  />
+                  {EXPAND_SIDES.map((side) => (
+                    <Rect
+                      key={side}
+                      {...getExpandHandlePosition(side, expandBounds)}
+                      width={EXPAND_HANDLE_SIZE / canvasZoom}
+                      height={EXPAND_HANDLE_SIZE / canvasZoom}
+                      offsetX={EXPAND_HANDLE_SIZE / canvasZoom / 2}
+                      offsetY={EXPAND_HANDLE_SIZE / canvasZoom / 2}
+                      fill="#FACC15"
+                      stroke="#111827"
+                      strokeWidth={1 / canvasZoom}
+                      draggable
+                      onDragMove={(e) => handleExpandDrag(side, e)}
+                      onMouseEnter={(e) => {
+                        const container = e.target.getStage()?.container();
+                        if (container) container.style.cursor = side === 'top' || side === 'bottom' ? 'ns-resize' : 'ew-resize';
+                      }}
+                      onMouseLeave={(e) => {
+                        const container = e.target.getStage()?.container();
+                        if (container) container.style.cursor = 'default';
+                      }}
+                    />
+                  ))}
+                </>
+              )}
+
+              {/* Crop box */}
+              {cropBox && (
+                <>
+                  <Rect
+                    ref={cropNodeRef}
+                    x={imageOffset.x + cropBox.x}
+                    y={imageOffset.y + cropBox.y}
+                    width={cropBox.width}
+                    height={cropBox.height}
+                    fill="rgba(250, 204, 21, 0.08)"
+                    stroke="#FACC15"
+                    strokeWidth={2 / canvasZoom}
+                    dash={[6 / canvasZoom, 4 / canvasZoom]}
+                    draggable
+                    onDragMove={(e) => handleCropChange(e.target as Konva.Rect)}
+                    onTransformEnd={(e) => handleCropChange(e.target as Konva.Rect)}
+                  />
+                  <Transformer
+                    ref={cropTransformerRef}
+                    rotateEnabled={false}
+                    flipEnabled={false}
+                    keepRatio={cropAspectRatio !== 'auto'}
+                    enabledAnchors={cropAspectRatio === 'auto'
+                      ? ['top-left', 'top-center', 'top-right', 'middle-right', 'bottom-right', 'bottom-center', 'bottom-left', 'middle-left']
+                      : ['top-left', 'top-right', 'bottom-right', 'bottom-left']}
+                    anchorFill="#FACC15"
+                    anchorStroke="#111827"
+                    borderEnabled={false}
+                    ignoreStroke
+                    boundBoxFunc={(oldBox, newBox) =>
+                      newBox.width < MIN_CROP_SIZE * canvasZoom || newBox.height < MIN_CROP_SIZE * canvasZoom ? oldBox : newBox
+                    }
+                  />
+                </>
+              )}
             </Layer>
           </Stage>
         )}
@@ -491,6 +736,19 @@ export const ImageCanvas: React.FC = () => {
             {brushStrokes.length > 0 && (
               <span className="text-yellow-400">{brushStrokes.length} brush stroke{brushStrokes.length !== 1 ? 's' : ''}</span>
             )}
+            {selectedTool === 'mask' && maskTool === 'lasso' && polygonPoints.length > 0 && (
+              <span>Click the first point or double-click to close the selection</span>
+            )}
+            {showCropBox && (
+              <span>Drag the crop box or its corners to choose what to keep</span>
+            )}
+            {selectedTool === 'expand' && image && (
+              <span>Drag the handles to expand the canvas, or pick an aspect ratio</span>
+            )}
+            {selectedTool === 'mask' && isSegmenting && <span className="text-purple-400">Selecting...</span>}
+            {selectedTool === 'mask' && !isSegmenting && segmentError && (
+              <span className="text-red-300">{segmentError.message}</span>
+            )}
           </div>
           
           <div className="flex items-center space-x-2">
@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Download, Save, X } from 'lucide-react';
+import { Button } from './ui/Button';
+import { useAppStore } from '../store/useAppStore';
+import { useMaskLibrary } from '../hooks/useMaskLibrary';
+import { cn } from '../utils/cn';
+
+// Mask import/export and the project's saved masks
+export const MaskLibrary: React.FC = () => {
+  const { brushStrokes } = useAppStore();
+  const { masks, importMask, exportMask, saveMask, loadMask, deleteMask, error } = useMaskLibrary();
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeMaskId = brushStrokes.length === 1 ? brushStrokes[0].maskAssetId : undefined;
+  const hasMask = brushStrokes.length > 0;
+
+  const handleSave = () => {
+    if (!hasMask) return;
+    saveMask(name);
+    setName('');
+  };
+
+  return (
+    <div className="p-3 space-y-2 w-52 text-xs rounded-lg border backdrop-blur bg-gray-900/80 border-gray-800">
+      <div className="flex gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          onClick={() => fileInputRef.current?.click()}
+          title="Use a black-and-white or transparent PNG as the mask"
+        >
+          <Upload className="mr-1.5 w-3.5 h-3.5" />
+          Import
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1" onClick={exportMask} disabled={!hasMask}>
+          <Download className="mr-1.5 w-3.5 h-3.5" />
+          Export
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importMask(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Mask name..."
+          className="flex-1 px-2 min-w-0 h-8 placeholder-gray-500 text-gray-100 bg-gray-900 rounded border border-gray-700 focus:outline-none focus:border-yellow-400"
+        />
+        <Button variant="outline" size="sm" onClick={handleSave} disabled={!hasMask} title="Save the mask to this project">
+          <Save className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      {masks.length > 0 && (
+        <div className="overflow-y-auto space-y-1 max-h-32">
+          {masks.map((mask) => (
+            <div
+              key={mask.asset.id}
+              className={cn(
+                'flex items-center rounded border transition-colors',
+                activeMaskId === mask.asset.id
+                  ? 'bg-yellow-400/10 border-yellow-400/50 text-yellow-400'
+                  : 'border-gray-700 text-gray-400 hover:bg-gray-800'
+              )}
+            >
+              <button onClick={() => loadMask(mask)} className="flex-1 px-2 py-1 text-left truncate" title={`Load "${mask.name}"`}>
+                {mask.name}
+              </button>
+              <button
+                onClick={() => deleteMask(mask.asset.id)}
+                className="p-1 text-gray-500 transition-colors hover:text-red-300"
+                title="Delete saved mask"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-red-300">{error.message}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React from 'react';
+import { Brush, Eraser, Square, Circle, Lasso, MousePointerClick, Search, Trash2, Contrast } from 'lucide-react';
+import { Button } from './ui/Button';
+import { useAppStore } from '../store/useAppStore';
+import { MaskTool } from '../types';
+import { cn } from '../utils/cn';
+
+interface MaskToolbarProps {
+  segmentQuery: string;
+  onSegmentQueryChange: (query: string) => void;
+  onSegmentQuery: () => void;
+  isSegmenting: boolean;
+}
+
+const TOOLS: { id: MaskTool; icon: React.ElementType; title: string }[] = [
+  { id: 'brush', icon: Brush, title: 'Brush: paint the mask (hold Alt to erase)' },
+  { id: 'eraser', icon: Eraser, title: 'Eraser: remove from the mask' },
+  { id: 'rectangle', icon: Square, title: 'Rectangle: drag to select (hold Alt to subtract)' },
+  { id: 'ellipse', icon: Circle, title: 'Ellipse: drag to select (hold Alt to subtract)' },
+  { id: 'lasso', icon: Lasso, title: 'Lasso: drag an outline, or click points and double-click to close (hold Alt to subtract)' },
+  { id: 'select', icon: MousePointerClick, title: 'Select object: click it, or describe it and press Enter' },
+];
+
+// Mask tool picker with the active tool's options
+export const MaskToolbar: React.FC<MaskToolbarProps> = ({ segmentQuery, onSegmentQueryChange, onSegmentQuery, isSegmenting }) => {
+  const { maskTool, setMaskTool, brushSize, setBrushSize, brushStrokes, clearBrushStrokes } = useAppStore();
+
+  return (
+    <>
+      <div className="flex items-center">
+        {TOOLS.map(({ id, icon: Icon, title }, index) => (
+          <Button
+            key={id}
+            variant="outline"
+            size="sm"
+            onClick={() => setMaskTool(id)}
+            className={cn(
+              index > 0 && 'rounded-l-none border-l-0',
+              index < TOOLS.length - 1 && 'rounded-r-none',
+              maskTool === id && 'bg-yellow-400/10 border-yellow-400/50'
+            )}
+            title={title}
+          >
+            <Icon className="w-4 h-4" />
+          </Button>
+        ))}
+      </div>
+      {maskTool === 'brush' || maskTool === 'eraser' ? (
+        <div className="flex items-center mr-2 space-x-2">
+          <span className="text-xs text-gray-400">Size:</span>
+          <input
+            type="range"
+            min="5"
+            max="50"
+            value={brushSize}
+            onChange={(e) => setBrushSize(parseInt(e.target.value))}
+            className="w-16 h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer slider"
+          />
+          <span className="w-6 text-xs text-gray-400">{brushSize}</span>
+        </div>
+      ) : maskTool === 'select' && (
+        <div className="flex items-center mr-2 space-x-1">
+          <input
+            type="text"
+            value={segmentQuery}
+            onChange={(e) => onSegmentQueryChange(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && onSegmentQuery()}
+            placeholder="Object to select..."
+            className="px-2 w-36 h-8 text-xs placeholder-gray-500 text-gray-100 bg-gray-900 rounded border border-gray-700 focus:outline-none focus:border-yellow-400"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onSegmentQuery}
+            disabled={!segmentQuery.trim() || isSegmenting}
+          >
+            <Search className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={clearBrushStrokes}
+        disabled={brushStrokes.length === 0}
+        title="Clear the mask"
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </>
+  );
+};
+
+const SLIDERS = [
+  { key: 'grow', label: 'Grow', min: -50, max: 50, step: 1, format: (value: number) => `${value}px` },
+  { key: 'feather', label: 'Feather', min: 0, max: 30, step: 1, format: (value: number) => `${value}px` },
+  { key: 'opacity', label: 'Opacity', min: 0.1, max: 1, step: 0.05, format: (value: number) => `${Math.round(value * 100)}%` },
+] as const;
+
+// Adjustments applied to the whole mask: invert, grow/shrink, feather and preview opacity
+export const MaskAdjustments: React.FC = () => {
+  const { maskSettings, setMaskSettings } = useAppStore();
+
+  return (
+    <div className="p-3 space-y-2 w-52 text-xs rounded-lg border backdrop-blur bg-gray-900/80 border-gray-800">
+      <button
+        onClick={() => setMaskSettings({ invert: !maskSettings.invert })}
+        className={cn(
+          'flex items-center justify-center w-full px-2 py-1.5 rounded border transition-colors',
+          maskSettings.invert
+            ? 'bg-yellow-400/10 border-yellow-400/50 text-yellow-400'
+            : 'border-gray-700 text-gray-400 hover:bg-gray-800'
+        )}
+      >
+        <Contrast className="mr-1.5 w-3.5 h-3.5" />
+        Invert
+      </button>
+      {SLIDERS.map(({ key, label, min, max, step, format }) => (
+        <label key={key} className="block text-gray-400">
+          <span className="flex justify-between">
+            <span>{label}</span>
+            <span className="text-gray-500">{format(maskSettings[key])}</span>
+          </span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={maskSettings[key]}
+            onChange={(e) => setMaskSettings({ [key]: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer slider"
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
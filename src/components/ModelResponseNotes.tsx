@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, MessageSquare } from 'lucide-react';
+
+interface ModelResponseNotesProps {
+  responseText?: string;
+  thoughtSummary?: string;
+}
+
+// What the model said alongside its images, with its thought summary folded away
+export const ModelResponseNotes: React.FC<ModelResponseNotesProps> = ({ responseText, thoughtSummary }) => {
+  const [showThoughts, setShowThoughts] = useState(false);
+
+  if (!responseText && !thoughtSummary) return null;
+
+  return (
+    <div className="space-y-2 text-xs">
+      {responseText && (
+        <div>
+          <h5 className="flex items-center text-xs font-medium text-gray-400 mb-1">
+            <MessageSquare className="h-3 w-3 mr-1" />
+            Model Response
+          </h5>
+          <p className="max-h-40 overflow-y-auto whitespace-pre-wrap text-gray-300">{responseText}</p>
+        </div>
+      )}
+      {thoughtSummary && (
+        <div>
+          <button
+            onClick={() => setShowThoughts(!showThoughts)}
+            className="flex items-center text-xs font-medium text-gray-400 hover:text-gray-300"
+          >
+            {showThoughts ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+            Thought Summary
+          </button>
+          {showThoughts && (
+            <p className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap pl-2 italic text-gray-500 border-l-2 border-gray-700">
+              {thoughtSummary}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,283 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ChevronDown, FolderOpen, Plus, Pencil, Copy, Trash2, Check, X, Download, Upload } from 'lucide-react';
+import { useProjects } from '../hooks/useProjects';
+import { ProjectArchiveError } from '../services/projectArchive';
+import { Project } from '../types';
+import { cn } from '../utils/cn';
+
+const formatUpdatedAt = (ts: number) =>
+  new Date(ts).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const countItems = (project: Project) =>
+  project.generations.length + project.edits.length + (project.videoGenerations?.length ?? 0);
+
+export const ProjectSwitcher: React.FC = () => {
+  const {
+    projects,
+    currentProjectId,
+    refresh,
+    switchProject,
+    createProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    exportProject,
+    importProject
+  } = useProjects();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [archiveError, setArchiveError] = useState<string | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const currentProject = projects.find(p => p.id === currentProjectId);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setRenamingId(null);
+        setConfirmDeleteId(null);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleToggle = () => {
+    if (!isOpen) refresh();
+    setArchiveError(null);
+    setIsOpen(!isOpen);
+  };
+
+  const startRename = (project: Project, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setConfirmDeleteId(null);
+    setRenamingId(project.id);
+    setRenameValue(project.title);
+  };
+
+  const commitRename = async () => {
+    if (renamingId) {
+      await renameProject(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const handleSwitch = async (id: string) => {
+    if (renamingId) return;
+    await switchProject(id);
+    setIsOpen(false);
+  };
+
+  const handleCreate = async () => {
+    await createProject();
+    setIsOpen(false);
+  };
+
+  const getArchiveErrorMessage = (error: unknown, fallback: string) =>
+    error instanceof ProjectArchiveError ? error.message : fallback;
+
+  const handleExport = async (id: string) => {
+    setArchiveError(null);
+    try {
+      await exportProject(id);
+    } catch (error) {
+      console.error('Failed to export project:', error);
+      setArchiveError(getArchiveErrorMessage(error, 'Failed to export project.'));
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setArchiveError(null);
+    try {
+      await importProject(file);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to import project:', error);
+      setArchiveError(getArchiveErrorMessage(error, 'Failed to import project.'));
+    }
+  };
+
+  return (
+    <div ref={dropdownRef} className="relative">
+      <button
+        onClick={handleToggle}
+        className="flex items-center space-x-2 h-8 px-3 rounded-lg border border-gray-700 bg-gray-900 text-sm text-gray-300 hover:bg-gray-800 transition-colors max-w-[220px]"
+        title="Switch project"
+      >
+        <FolderOpen className="h-4 w-4 flex-shrink-0 text-gray-400" />
+        <span className="truncate">{currentProject?.title ?? 'No project'}</span>
+        <ChevronDown className={cn('h-4 w-4 flex-shrink-0 transition-transform duration-200', isOpen && 'rotate-180')} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-50 overflow-hidden">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-800">
+            <span className="text-xs font-medium text-gray-400">Projects</span>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex items-center text-xs text-gray-400 hover:text-gray-300 transition-colors"
+                title="Import a project archive (.zip)"
+              >
+                <Upload className="h-3 w-3 mr-1" />
+                Import
+              </button>
+              <button
+                onClick={handleCreate}
+                className="flex items-center text-xs text-yellow-400 hover:text-yellow-300 transition-colors"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                New project
+              </button>
+            </div>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+
+          {archiveError && (
+            <p className="px-3 py-2 text-xs text-red-300 bg-red-900/20 border-b border-gray-800">
+              {archiveError}
+            </p>
+          )}
+
+          {projects.length === 0 ? (
+            <p className="px-3 py-6 text-center text-xs text-gray-500">
+              No saved projects yet. Generate something to start one.
+            </p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto py-1">
+              {projects.map((project) => (
+                <div
+                  key={project.id}
+                  onClick={() => handleSwitch(project.id)}
+                  className={cn(
+                    'group px-3 py-2 cursor-pointer transition-colors',
+                    project.id === currentProjectId
+                      ? 'bg-yellow-400/10'
+                      : 'hover:bg-gray-800'
+                  )}
+                >
+                  {renamingId === project.id ? (
+                    <div className="flex items-center space-x-2" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="flex-1 h-7 px-2 text-xs text-gray-100 bg-gray-950 rounded border border-gray-700"
+                      />
+                      <button onClick={commitRename} className="text-green-400 hover:text-green-300" title="Save name">
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => setRenamingId(null)} className="text-gray-500 hover:text-gray-300" title="Cancel">
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ) : confirmDeleteId === project.id ? (
+                    <div className="flex items-center justify-between" onClick={(e) => e.stopPropagation()}>
+                      <span className="text-xs text-red-300 truncate">Delete “{project.title}”?</span>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={async () => {
+                            await deleteProject(project.id);
+                            setConfirmDeleteId(null);
+                          }}
+                          className="text-xs text-red-400 hover:text-red-300"
+                        >
+                          Delete
+                        </button>
+                        <button
+                          onClick={() => setConfirmDeleteId(null)}
+                          className="text-xs text-gray-400 hover:text-gray-300"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between">
+                      <div className="min-w-0">
+                        <p className={cn(
+                          'text-sm truncate',
+                          project.id === currentProjectId ? 'text-yellow-300' : 'text-gray-200'
+                        )}>
+                          {project.title}
+                        </p>
+                        <p className="text-[11px] text-gray-500">
+                          {countItems(project)} item{countItems(project) !== 1 ? 's' : ''} • {formatUpdatedAt(project.updatedAt)}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={(e) => startRename(project, e)}
+                          className="text-gray-500 hover:text-gray-300"
+                          title="Rename"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleExport(project.id);
+                          }}
+                          className="text-gray-500 hover:text-gray-300"
+                          title="Export"
+                        >
+                          <Download className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            duplicateProject(project.id);
+                          }}
+                          className="text-gray-500 hover:text-gray-300"
+                          title="Duplicate"
+                        >
+                          <Copy className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setRenamingId(null);
+                            setConfirmDeleteId(project.id);
+                          }}
+                          className="text-gray-500 hover:text-red-400"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
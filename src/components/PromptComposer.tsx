@@ -6,13 +6,24 @@ import { Input } from './ui/Input';
 import { useAppStore } from '../store/useAppStore';
 import { useImageGeneration, useImageEditing } from '../hooks/useImageGeneration';
 import { useVideoGenerationWithPolling } from '../hooks/useVideoGeneration';
-import { Upload, Wand2, Edit3, MousePointer, HelpCircle, ChevronDown, ChevronRight, RotateCcw, Clock, Shield, Video, X } from 'lucide-react';
-import { blobToBase64, generateId } from '../utils/imageUtils';
+import { useModelOptions } from '../hooks/useModelOptions';
+import { enforceBudget, useBudgetCheck } from '../hooks/useBudget';
+import { Upload, Wand2, Edit3, MousePointer, HelpCircle, ChevronDown, ChevronRight, RotateCcw, Clock, Shield, Video, X, Layers, Expand, Crop } from 'lucide-react';
+import { blobToBase64, generateId, urlToBase64 } from '../utils/imageUtils';
 import { PromptHints } from './PromptHints';
+import { RequestErrorNotice } from './RequestErrorNotice';
+import { ChatTranscript } from './ChatTranscript';
+import { BudgetPanel } from './BudgetPanel';
+import { ExpandPanel } from './ExpandPanel';
+import { TransformPanel } from './TransformPanel';
 import { cn } from '../utils/cn';
+import { HARM_CATEGORY_LABELS } from '../utils/generationFeedback';
+import { estimateImageCost, estimateVideoCost } from '../utils/pricing';
+import { buildEditMask } from '../utils/maskUtils';
+import { hasExpansion } from '../utils/expandUtils';
 import { CacheService } from '../services/cacheService';
-import { geminiService, MODEL_OPTIONS, ASPECT_RATIOS, RESOLUTION_TIERS, DEFAULT_ASPECT_RATIO, DEFAULT_RESOLUTION_TIER, VIDEO_MODEL_OPTIONS, VIDEO_ASPECT_RATIOS, VIDEO_RESOLUTIONS, VIDEO_DURATIONS } from '../services/geminiService';
-import { AspectRatio, BatchQueueRequest, VideoBatchQueueRequest, ResolutionTier, SafetyThreshold, HarmCategory, VideoModel, VideoAspectRatio, VideoResolution, VideoDuration } from '../types';
+import { geminiService, ASPECT_RATIOS, RESOLUTION_TIERS, DEFAULT_ASPECT_RATIO, DEFAULT_RESOLUTION_TIER, VIDEO_ASPECT_RATIOS, VIDEO_RESOLUTIONS, VIDEO_DURATIONS } from '../services/geminiService';
+import { AspectRatio, BatchQueueRequest, VideoBatchQueueRequest, ResolutionTier, SafetyThreshold, VideoModel, VideoAspectRatio, VideoResolution, VideoDuration } from '../types';
 
 // Safety threshold options for the slider
 const SAFETY_THRESHOLDS: { value: SafetyThreshold; label: string }[] = [
@@ -23,15 +34,6 @@ const SAFETY_THRESHOLDS: { value: SafetyThreshold; label: string }[] = [
   { value: 'BLOCK_LOW_AND_ABOVE', label: 'Block most' },
 ];
 
-// Human-readable category names
-const CATEGORY_LABELS: Record<HarmCategory, string> = {
-  HARM_CATEGORY_HARASSMENT: 'Harassment',
-  HARM_CATEGORY_HATE_SPEECH: 'Hate Speech',
-  HARM_CATEGORY_SEXUALLY_EXPLICIT: 'Sexually Explicit',
-  HARM_CATEGORY_DANGEROUS_CONTENT: 'Dangerous Content',
-  HARM_CATEGORY_CIVIC_INTEGRITY: 'Civic Integrity',
-};
-
 export const PromptComposer: React.FC = () => {
   const {
     currentPrompt,
@@ -61,6 +63,10 @@ export const PromptComposer: React.FC = () => {
     showPromptPanel,
     setShowPromptPanel,
     brushStrokes,
+    maskSettings,
+    compositeEdits,
+    setCompositeEdits,
+    expandBounds,
     clearBrushStrokes,
     aspectRatio,
     setAspectRatio,
@@ -86,15 +92,18 @@ export const PromptComposer: React.FC = () => {
     videoNegativePrompt,
     setVideoNegativePrompt,
     clearVideoSession,
+    recordQueuedSpend,
   } = useAppStore();
 
-  const { generate } = useImageGeneration();
-  const { edit } = useImageEditing();
-  const { generate: generateVideo, isGenerating: isVideoGenerating, progress: videoProgress } = useVideoGenerationWithPolling();
+  const { generate, error: generateError } = useImageGeneration();
+  const { edit, expand, error: editError } = useImageEditing();
+  const { generate: generateVideo, isGenerating: isVideoGenerating, progress: videoProgress, error: videoError } = useVideoGenerationWithPolling();
+  const { imageModels, videoModels, placeholder: modelPlaceholder } = useModelOptions();
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [showHintsModal, setShowHintsModal] = useState(false);
   const [showSafetySettings, setShowSafetySettings] = useState(false);
+  const [queueError, setQueueError] = useState<Error | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Helper to get slider index from threshold value
@@ -134,8 +143,14 @@ export const PromptComposer: React.FC = () => {
     setResolutionTier(tier);
   };
 
+  // Expanding can go without a prompt; the model continues the image on its own
+  const canSubmit = selectedTool === 'expand'
+    ? Boolean(canvasImage) && hasExpansion(expandBounds)
+    : Boolean(currentPrompt.trim());
+
   const handleGenerate = () => {
-    if (!currentPrompt.trim()) return;
+    if (!canSubmit) return;
+    setQueueError(null);
 
     if (selectedTool === 'generate') {
       const referenceImages = uploadedImages
@@ -153,6 +168,8 @@ export const PromptComposer: React.FC = () => {
       });
     } else if (selectedTool === 'edit' || selectedTool === 'mask') {
       edit(currentPrompt, 1);
+    } else if (selectedTool === 'expand') {
+      expand(currentPrompt.trim(), expandBounds);
     } else if (selectedTool === 'video') {
       handleVideoGenerate();
     }
@@ -216,6 +233,14 @@ export const PromptComposer: React.FC = () => {
   const handleQueueForBatch = async () => {
     if (!currentPrompt.trim()) return;
 
+    setQueueError(null);
+    try {
+      enforceBudget(batchCost);
+    } catch (error) {
+      setQueueError(error as Error);
+      return;
+    }
+
     // Use the correct image set based on mode
     const isEditMode = selectedTool === 'edit' || selectedTool === 'mask';
     const imageSource = isEditMode ? editReferenceImages : uploadedImages;
@@ -224,50 +249,16 @@ export const PromptComposer: React.FC = () => {
       .filter(img => img.includes('base64,'))
       .map(img => img.split('base64,')[1]);
 
-    const originalImage = canvasImage?.includes('base64,') ? canvasImage.split('base64,')[1] : undefined;
+    const originalImage = canvasImage ? await urlToBase64(canvasImage) : undefined;
 
-    // Create mask from brush strokes if in edit mode and strokes exist
+    // Create mask from brush strokes if in edit mode and strokes exist, and send the
+    // masked preview along with the references like a direct edit does
     let maskImage: string | undefined;
     if (isEditMode && brushStrokes.length > 0 && canvasImage) {
       try {
-        // Create a temporary image to get actual dimensions
-        const tempImg = new Image();
-        tempImg.src = canvasImage;
-        await new Promise<void>((resolve) => {
-          tempImg.onload = () => resolve();
-        });
-
-        // Create mask canvas with exact image dimensions
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d')!;
-        canvas.width = tempImg.width;
-        canvas.height = tempImg.height;
-
-        // Fill with black (unmasked areas)
-        ctx.fillStyle = 'black';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-        // Draw white strokes (masked areas)
-        ctx.strokeStyle = 'white';
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-
-        brushStrokes.forEach(stroke => {
-          if (stroke.points.length >= 4) {
-            ctx.lineWidth = stroke.brushSize;
-            ctx.beginPath();
-            ctx.moveTo(stroke.points[0], stroke.points[1]);
-
-            for (let i = 2; i < stroke.points.length; i += 2) {
-              ctx.lineTo(stroke.points[i], stroke.points[i + 1]);
-            }
-            ctx.stroke();
-          }
-        });
-
-        // Convert mask to base64
-        const maskDataUrl = canvas.toDataURL('image/png');
-        maskImage = maskDataUrl.split('base64,')[1];
+        const mask = await buildEditMask(brushStrokes, maskSettings, canvasImage);
+        maskImage = mask.maskImage;
+        referenceImages.unshift(mask.maskedReferenceImage);
       } catch (error) {
         console.error('Failed to create mask:', error);
       }
@@ -285,6 +276,7 @@ export const PromptComposer: React.FC = () => {
       temperature,
       seed: seed || undefined,
       variantCount,
+      model: selectedModel,
       status: 'pending',
       createdAt: Date.now()
     };
@@ -295,6 +287,7 @@ export const PromptComposer: React.FC = () => {
     // Submit to batch API
     try {
       let batchName: string;
+      let jobId: string | undefined;
 
       if (isEditMode && originalImage) {
         // Use edit batch request for edit/mask mode
@@ -309,9 +302,10 @@ export const PromptComposer: React.FC = () => {
           model: selectedModel,
           safetySettings,
           aspectRatio,
-          resolutionTier
+          resolutionTier,
+          clientRequestId: queueRequest.id
         });
-        batchName = result.batchName;
+        ({ batchName, jobId } = result);
       } else {
         // Use generate batch request
         const result = await geminiService.submitBatchRequest({
@@ -323,15 +317,18 @@ export const PromptComposer: React.FC = () => {
           model: selectedModel,
           safetySettings,
           aspectRatio,
-          resolutionTier
+          resolutionTier,
+          clientRequestId: queueRequest.id
         });
-        batchName = result.batchName;
+        ({ batchName, jobId } = result);
       }
+      recordQueuedSpend(batchCost);
 
       // Update with batch job name
       await CacheService.updateQueuedRequest(queueRequest.id, {
         status: 'submitted',
         batchJobName: batchName,
+        jobId,
         submittedAt: Date.now()
       });
     } catch (error) {
@@ -346,6 +343,14 @@ export const PromptComposer: React.FC = () => {
   const handleVideoQueueForBatch = async () => {
     if (!currentPrompt.trim()) return;
 
+    setQueueError(null);
+    try {
+      enforceBudget(requestCost);
+    } catch (error) {
+      setQueueError(error as Error);
+      return;
+    }
+
     // Extract base64 from data URLs
     const startFrameBase64 = extractBase64(videoStartFrame);
     const lastFrameBase64 = extractBase64(videoLastFrame);
@@ -386,12 +391,15 @@ export const PromptComposer: React.FC = () => {
         lastFrame: lastFrameBase64,
         video: sourceVideoBase64,
         seed: seed || undefined,
+        clientRequestId: videoQueueRequest.id,
       });
+      recordQueuedSpend(requestCost);
 
       // Update with operation name
       await CacheService.updateVideoQueuedRequest(videoQueueRequest.id, {
         status: 'submitted',
         operationName: result.operationName,
+        jobId: result.jobId,
         submittedAt: Date.now()
       });
     } catch (error) {
@@ -424,8 +432,8 @@ export const PromptComposer: React.FC = () => {
           if (!canvasImage) {
             setCanvasImage(dataUrl);
           }
-        } else if (selectedTool === 'mask') {
-          // For mask mode, set as canvas image immediately
+        } else if (selectedTool === 'mask' || selectedTool === 'expand' || selectedTool === 'transform') {
+          // For mask, expand and transform modes, set as canvas image immediately
           clearUploadedImages();
           addUploadedImage(dataUrl);
           setCanvasImage(dataUrl);
@@ -460,10 +468,33 @@ export const PromptComposer: React.FC = () => {
   const videoLastFrameRef = useRef<HTMLInputElement>(null);
   const videoSourceRef = useRef<HTMLInputElement>(null);
 
+  // Last failure for the current tool; cleared when the next request starts
+  const requestError = queueError ?? (selectedTool === 'video' ? videoError : selectedTool === 'generate' ? generateError : editError);
+
+  // Images sent with each request: references when generating; the canvas, references,
+  // and the mask plus its preview overlay when editing; the padded canvas, references and
+  // the mask over the new area when expanding
+  const inputImageCount = selectedTool === 'generate'
+    ? uploadedImages.filter(img => img.includes('base64,')).length
+    : selectedTool === 'expand'
+      ? (canvasImage ? 2 : 0) + editReferenceImages.length
+      : (canvasImage ? 1 : 0) + editReferenceImages.length + (brushStrokes.length > 0 ? 2 : 0);
+  const imageCostRequest = { model: selectedModel, resolutionTier, inputImages: inputImageCount };
+  // Sync requests produce one variant; the batch queue sends `variantCount`
+  const requestCost = selectedTool === 'video'
+    ? estimateVideoCost(videoModel, videoDurationSetting)
+    : estimateImageCost({ ...imageCostRequest, variantCount: 1 });
+  const batchCost = selectedTool === 'video'
+    ? requestCost
+    : estimateImageCost({ ...imageCostRequest, variantCount, batch: true });
+  const { spend, check: budgetCheck } = useBudgetCheck(requestCost);
+
   const tools = [
     { id: 'generate', icon: Wand2, label: 'Generate', description: 'Create from text' },
     { id: 'edit', icon: Edit3, label: 'Edit', description: 'Modify existing' },
     { id: 'mask', icon: MousePointer, label: 'Select', description: 'Click to select' },
+    { id: 'expand', icon: Expand, label: 'Expand', description: 'Extend the canvas' },
+    { id: 'transform', icon: Crop, label: 'Transform', description: 'Crop, rotate, flip' },
     { id: 'video', icon: Video, label: 'Video', description: 'Generate video' },
   ] as const;
 
@@ -540,6 +571,12 @@ export const PromptComposer: React.FC = () => {
               {selectedTool === 'mask' && (
                 <p className="mb-3 text-xs text-gray-400">Edit an image with masks</p>
               )}
+              {selectedTool === 'expand' && (
+                <p className="mb-3 text-xs text-gray-400">Extend an image past its edges</p>
+              )}
+              {selectedTool === 'transform' && (
+                <p className="mb-3 text-xs text-gray-400">Crop, rotate, flip or resize an image</p>
+              )}
               {selectedTool === 'generate' && (
                 <p className="mb-3 text-xs text-gray-500">Optional, up to 10 images</p>
               )}
@@ -596,6 +633,22 @@ export const PromptComposer: React.FC = () => {
           </div>
         )}
 
+        {/* Expand Settings - target aspect ratio and padding */}
+        {selectedTool === 'expand' && (
+          <div>
+            <label className="block mb-3 text-sm font-medium text-gray-300">Expand To</label>
+            <ExpandPanel />
+          </div>
+        )}
+
+        {/* Transform Settings - applied locally, each saved to history */}
+        {selectedTool === 'transform' && (
+          <div>
+            <label className="block mb-3 text-sm font-medium text-gray-300">Transform</label>
+            <TransformPanel />
+          </div>
+        )}
+
         {/* Video Settings - Show for video mode */}
         {selectedTool === 'video' && (
           <div className="space-y-4">
@@ -607,9 +660,11 @@ export const PromptComposer: React.FC = () => {
               <select
                 value={videoModel}
                 onChange={(e) => setVideoModel(e.target.value as VideoModel)}
-                className="px-3 w-full h-9 text-sm text-gray-100 bg-gray-900 rounded border border-gray-700"
+                disabled={videoModels.length === 0}
+                className="px-3 w-full h-9 text-sm text-gray-100 bg-gray-900 rounded border border-gray-700 disabled:opacity-50"
               >
-                {VIDEO_MODEL_OPTIONS.map((opt) => (
+                {videoModels.length === 0 && <option value={videoModel}>{modelPlaceholder}</option>}
+                {videoModels.map((opt) => (
                   <option key={opt.model} value={opt.model}>{opt.name}</option>
                 ))}
               </select>
@@ -821,91 +876,135 @@ export const PromptComposer: React.FC = () => {
           </div>
         )}
 
-        {/* Prompt Input */}
-        <div>
-          <label className="block mb-3 text-sm font-medium text-gray-300">
-            {selectedTool === 'video'
-              ? 'Describe your video'
-              : selectedTool === 'generate'
-                ? 'Describe what you want to create'
-                : 'Describe your changes'}
-          </label>
-          <Textarea
-            value={currentPrompt}
-            onChange={(e) => setCurrentPrompt(e.target.value)}
-            placeholder={
-              selectedTool === 'video'
-                ? 'A cinematic shot of a golden retriever running through a field of sunflowers at sunset...'
-                : selectedTool === 'generate'
-                  ? 'A serene mountain landscape at sunset with a lake reflecting the golden sky...'
-                  : 'Make the sky more dramatic, add storm clouds...'
-            }
-            className="min-h-[120px] resize-none"
-          />
-
-          {/* Prompt Quality Indicator */}
+        {/* Mask compositing - keep masked edits inside the mask */}
+        {(((selectedTool === 'edit' || selectedTool === 'mask') && brushStrokes.length > 0) || selectedTool === 'expand') && (
           <button
-            onClick={() => setShowHintsModal(true)}
-            className="flex items-center mt-2 text-xs transition-colors hover:text-gray-400 group"
-          >
-            {currentPrompt.length < 20 ? (
-              <HelpCircle className="mr-2 w-3 h-3 text-red-500 group-hover:text-red-400" />
-            ) : (
-              <div className={cn(
-                'h-2 w-2 rounded-full mr-2',
-                currentPrompt.length < 50 ? 'bg-yellow-500' : 'bg-green-500'
-              )} />
+            onClick={() => setCompositeEdits(!compositeEdits)}
+            className={cn(
+              'flex items-center w-full px-3 py-2 rounded-lg border text-xs font-medium transition-colors',
+              compositeEdits
+                ? 'bg-yellow-400/10 border-yellow-400/50 text-yellow-400'
+                : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-800 hover:text-gray-300'
             )}
-            <span className="text-gray-500 group-hover:text-gray-400">
-              {currentPrompt.length < 20 ? 'Add detail for better results' :
-                currentPrompt.length < 50 ? 'Good detail level' : 'Excellent prompt detail'}
-            </span>
+            title="Blend results onto the original through the mask, so nothing outside it changes. The raw results are kept too."
+          >
+            <Layers className="mr-2 w-4 h-4" />
+            Keep Edits Inside Mask
+            <span className="ml-auto">{compositeEdits ? 'On' : 'Off'}</span>
           </button>
-        </div>
+        )}
 
+        {/* Chat Mode - multi-turn editing */}
+        {(selectedTool === 'edit' || selectedTool === 'mask') && <ChatTranscript />}
 
-        {/* Generate Button with Batch Queue Option */}
-        <DropdownButton
-          onClick={handleGenerate}
-          disabled={(isGenerating || isVideoGenerating) || !currentPrompt.trim()}
-          options={selectedTool === 'video' ? [
-            {
-              id: 'queue-video',
-              label: 'Add to Queue',
-              icon: <Clock className="w-4 h-4" />,
-              onClick: handleVideoQueueForBatch
-            }
-          ] : [
-            {
-              id: 'queue-batch',
-              label: 'Queue for Batch (50% cost)',
-              icon: <Clock className="w-4 h-4" />,
-              onClick: handleQueueForBatch
-            }
-          ]}
-        >
-          {isGenerating || isVideoGenerating ? (
-            <span className="flex items-center">
-              <div className="mr-2 w-4 h-4 rounded-full border-b-2 border-gray-900 animate-spin" />
-              {selectedTool === 'video' ? (
-                videoProgress ? `Generating... ${Math.round(videoProgress * 100)}%` : 'Starting...'
-              ) : 'Generating...'}
-            </span>
-          ) : (
-            <span className="flex items-center">
-              {selectedTool === 'video' ? (
-                <Video className="mr-2 w-4 h-4" />
+        {/* Prompt, generate button and cost - transforms don't use the model */}
+        {selectedTool !== 'transform' && (
+          <>
+            {/* Prompt Input */}
+            <div>
+              <label className="block mb-3 text-sm font-medium text-gray-300">
+                {selectedTool === 'video'
+                  ? 'Describe your video'
+                  : selectedTool === 'generate'
+                    ? 'Describe what you want to create'
+                    : selectedTool === 'expand'
+                      ? 'Describe the new area (optional)'
+                      : 'Describe your changes'}
+              </label>
+              <Textarea
+                value={currentPrompt}
+                onChange={(e) => setCurrentPrompt(e.target.value)}
+                placeholder={
+                  selectedTool === 'video'
+                    ? 'A cinematic shot of a golden retriever running through a field of sunflowers at sunset...'
+                    : selectedTool === 'generate'
+                      ? 'A serene mountain landscape at sunset with a lake reflecting the golden sky...'
+                      : selectedTool === 'expand'
+                        ? 'More of the beach, with a pier on the left...'
+                        : 'Make the sky more dramatic, add storm clouds...'
+                }
+                className="min-h-[120px] resize-none"
+              />
+
+              {/* Prompt Quality Indicator */}
+              <button
+                onClick={() => setShowHintsModal(true)}
+                className="flex items-center mt-2 text-xs transition-colors hover:text-gray-400 group"
+              >
+                {currentPrompt.length < 20 ? (
+                  <HelpCircle className="mr-2 w-3 h-3 text-red-500 group-hover:text-red-400" />
+                ) : (
+                  <div className={cn(
+                    'h-2 w-2 rounded-full mr-2',
+                    currentPrompt.length < 50 ? 'bg-yellow-500' : 'bg-green-500'
+                  )} />
+                )}
+                <span className="text-gray-500 group-hover:text-gray-400">
+                  {currentPrompt.length < 20 ? 'Add detail for better results' :
+                    currentPrompt.length < 50 ? 'Good detail level' : 'Excellent prompt detail'}
+                </span>
+              </button>
+            </div>
+
+
+            {/* Generate Button with Batch Queue Option */}
+            <DropdownButton
+              onClick={handleGenerate}
+              disabled={(isGenerating || isVideoGenerating) || !canSubmit || budgetCheck.blocked}
+              // Expansions run one at a time: they aren't supported by the batch queue
+              options={selectedTool === 'expand' ? [] : selectedTool === 'video' ? [
+                {
+                  id: 'queue-video',
+                  label: 'Add to Queue',
+                  icon: <Clock className="w-4 h-4" />,
+                  onClick: handleVideoQueueForBatch
+                }
+              ] : [
+                {
+                  id: 'queue-batch',
+                  label: 'Queue for Batch (50% cost)',
+                  icon: <Clock className="w-4 h-4" />,
+                  onClick: handleQueueForBatch
+                }
+              ]}
+            >
+              {isGenerating || isVideoGenerating ? (
+                <span className="flex items-center">
+                  <div className="mr-2 w-4 h-4 rounded-full border-b-2 border-gray-900 animate-spin" />
+                  {selectedTool === 'video' ? (
+                    videoProgress ? `Generating... ${Math.round(videoProgress * 100)}%` : 'Starting...'
+                  ) : 'Generating...'}
+                </span>
               ) : (
-                <Wand2 className="mr-2 w-4 h-4" />
+                <span className="flex items-center">
+                  {selectedTool === 'video' ? (
+                    <Video className="mr-2 w-4 h-4" />
+                  ) : selectedTool === 'expand' ? (
+                    <Expand className="mr-2 w-4 h-4" />
+                  ) : (
+                    <Wand2 className="mr-2 w-4 h-4" />
+                  )}
+                  {selectedTool === 'video'
+                    ? 'Generate Video'
+                    : selectedTool === 'generate'
+                      ? 'Generate'
+                      : selectedTool === 'expand'
+                        ? 'Expand Image'
+                        : 'Apply Edit'}
+                </span>
               )}
-              {selectedTool === 'video'
-                ? 'Generate Video'
-                : selectedTool === 'generate'
-                  ? 'Generate'
-                  : 'Apply Edit'}
-            </span>
-          )}
-        </DropdownButton>
+            </DropdownButton>
+
+            <BudgetPanel
+              cost={requestCost}
+              batchCost={selectedTool === 'video' || selectedTool === 'expand' ? undefined : batchCost}
+              spend={spend}
+              check={budgetCheck}
+            />
+
+            {requestError && <RequestErrorNotice error={requestError} />}
+          </>
+        )}
 
         {/* Advanced Controls */}
         <div>
@@ -964,9 +1063,11 @@ export const PromptComposer: React.FC = () => {
                     <select
                       value={selectedModel}
                       onChange={(e) => handleModelChange(e.target.value)}
-                      className="px-2 w-full h-8 text-xs text-gray-100 bg-gray-900 rounded border border-gray-700"
+                      disabled={imageModels.length === 0}
+                      className="px-2 w-full h-8 text-xs text-gray-100 bg-gray-900 rounded border border-gray-700 disabled:opacity-50"
                     >
-                      {MODEL_OPTIONS.map((opt) => (
+                      {imageModels.length === 0 && <option value={selectedModel}>{modelPlaceholder}</option>}
+                      {imageModels.map((opt) => (
                         <option key={opt.model} value={opt.model}>{opt.name}</option>
                       ))}
                     </select>
@@ -1106,7 +1207,7 @@ export const PromptComposer: React.FC = () => {
                         <div key={setting.category}>
                           <div className="flex justify-between items-center mb-1">
                             <label className="text-xs text-gray-400">
-                              {CATEGORY_LABELS[setting.category]}
+                              {HARM_CATEGORY_LABELS[setting.category]}
                             </label>
                             <span className="text-xs text-indigo-400">
                               {SAFETY_THRESHOLDS[getThresholdIndex(setting.threshold)].label}
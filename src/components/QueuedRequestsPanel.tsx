@@ -3,13 +3,57 @@ import { Clock, CheckCircle2, XCircle, Loader2, Trash2, RefreshCw, Copy, Video,
 import { cn } from '../utils/cn';
 import { CacheService } from '../services/cacheService';
 import { geminiService } from '../services/geminiService';
-import { BatchQueueRequest, VideoBatchQueueRequest } from '../types';
+import { serverEvents } from '../services/serverEvents';
+import { BatchQueueRequest, VideoBatchQueueRequest, ServerJob, ServerJobEvent, GeneratedImage, AspectRatio, ResolutionTier, VideoAspectRatio, VideoResolution, VideoDuration } from '../types';
 import { useAppStore } from '../store/useAppStore';
+import { generateId, toImageDataUrl } from '../utils/imageUtils';
 import { Button } from './ui/Button';
 
 // Combined type for queue items
 type QueueItem = (BatchQueueRequest & { isVideo?: false }) | (VideoBatchQueueRequest & { isVideo: true });
 
+const toResultUrl = (image: GeneratedImage | string) =>
+  typeof image === 'string' ? toImageDataUrl(image) : toImageDataUrl(image.data, image.mimeType);
+
+// Local queue entries for jobs recovered from the server registry. Anything not failed is
+// left in-flight so the usual status check collects its results.
+const serverJobToBatchRequest = (job: ServerJob): BatchQueueRequest => ({
+  id: generateId(),
+  type: job.kind === 'batch-edit' ? 'edit' : 'generate',
+  prompt: job.prompt,
+  aspectRatio: job.params.aspectRatio as AspectRatio | undefined,
+  resolutionTier: job.params.resolutionTier as ResolutionTier | undefined,
+  temperature: job.params.temperature as number | undefined,
+  seed: job.params.seed as number | undefined,
+  variantCount: job.params.variantCount as number | undefined,
+  model: job.model,
+  batchJobName: job.externalName,
+  jobId: job.id,
+  status: job.status === 'failed' ? 'failed' : 'submitted',
+  usage: job.usage,
+  error: job.error,
+  createdAt: job.createdAt,
+  submittedAt: job.createdAt
+});
+
+const serverJobToVideoRequest = (job: ServerJob): VideoBatchQueueRequest => ({
+  id: generateId(),
+  type: job.params.extend ? 'video-extend' : 'video-generate',
+  prompt: job.prompt,
+  negativePrompt: job.params.negativePrompt as string | undefined,
+  aspectRatio: job.params.aspectRatio as VideoAspectRatio | undefined,
+  resolution: job.params.resolution as VideoResolution | undefined,
+  durationSeconds: job.params.durationSeconds as VideoDuration | undefined,
+  seed: job.params.seed as number | undefined,
+  operationName: job.externalName,
+  jobId: job.id,
+  status: job.status === 'failed' ? 'failed' : 'processing',
+  progressPercent: job.progress,
+  error: job.error,
+  createdAt: job.createdAt,
+  submittedAt: job.createdAt
+});
+
 export const QueuedRequestsPanel: React.FC = () => {
   const [queuedRequests, setQueuedRequests] = useState<QueueItem[]>([]);
   const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null);
@@ -17,18 +61,13 @@ export const QueuedRequestsPanel: React.FC = () => {
   const { setCanvasImage, setCanvasImages, setCanvasZoom, setCanvasPan, setCanvasVideo } = useAppStore();
 
   // Helper to load image and reset canvas view
-  const loadImageToCanvas = (base64Data: string | string[]) => {
+  const loadImageToCanvas = (images: Array<GeneratedImage | string>) => {
     // Clear video first so image shows
     setCanvasVideo(null);
     // Reset zoom/pan so the new image is visible
     setCanvasZoom(1);
     setCanvasPan({ x: 0, y: 0 });
-    if (Array.isArray(base64Data)) {
-      const urls = base64Data.map((data) => `data:image/png;base64,${data}`);
-      setCanvasImages(urls);
-    } else {
-      setCanvasImage(`data:image/png;base64,${base64Data}`);
-    }
+    setCanvasImages(images.map(toResultUrl));
   };
 
   // Helper to load video to canvas
@@ -53,8 +92,93 @@ export const QueuedRequestsPanel: React.FC = () => {
     setQueuedRequests(combinedRequests);
   };
 
+  // Pulls the server's job registry, links it to local entries and recovers jobs this
+  // browser never saw (e.g. after clearing site data or from another machine). Videos
+  // started from the Video tool aren't queue entries, so they're left out. Entries are
+  // matched on their own ID too, since a job can show up here before its submit returns.
+  const syncServerJobs = async () => {
+    try {
+      const jobs = await geminiService.listJobs();
+      const imageRequests = await CacheService.getAllQueuedRequests();
+      const videoRequests = await CacheService.getAllVideoQueuedRequests();
+
+      for (const job of jobs) {
+        if (!job.externalName || job.params.interactive) continue;
+
+        if (job.kind === 'video') {
+          const local = videoRequests.find(r => r.operationName === job.externalName || r.id === job.clientRequestId);
+          if (!local) {
+            await CacheService.saveVideoQueuedRequest(serverJobToVideoRequest(job));
+          } else if (!local.jobId) {
+            await CacheService.updateVideoQueuedRequest(local.id, { jobId: job.id, operationName: job.externalName });
+          }
+        } else if (job.kind === 'batch-generate' || job.kind === 'batch-edit') {
+          const local = imageRequests.find(r => r.batchJobName === job.externalName || r.id === job.clientRequestId);
+          if (!local) {
+            await CacheService.saveQueuedRequest(serverJobToBatchRequest(job));
+          } else if (!local.jobId) {
+            await CacheService.updateQueuedRequest(local.id, { jobId: job.id, batchJobName: job.externalName });
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Failed to sync jobs from server:', error);
+    }
+  };
+
+  // Drops the queue entries of a job deleted on the server (e.g. from another tab)
+  const removeLocalEntries = async (jobId: string) => {
+    const imageRequests = await CacheService.getAllQueuedRequests();
+    const videoRequests = await CacheService.getAllVideoQueuedRequests();
+    for (const request of imageRequests.filter(r => r.jobId === jobId)) {
+      await CacheService.deleteQueuedRequest(request.id);
+    }
+    for (const request of videoRequests.filter(r => r.jobId === jobId)) {
+      await CacheService.deleteVideoQueuedRequest(request.id);
+    }
+  };
+
   useEffect(() => {
     loadQueuedRequests();
+    syncServerJobs().then(loadQueuedRequests);
+
+    // Pushed by the server's job poller whenever a batch/video job changes
+    const handleServerEvent = async (event: ServerJobEvent) => {
+      if (event.type === 'resync') {
+        await syncServerJobs();
+        loadQueuedRequests();
+        return;
+      }
+      if (event.type === 'job-deleted') {
+        await removeLocalEntries(event.id);
+        loadQueuedRequests();
+        return;
+      }
+
+      const { job } = event;
+      if (job.params.interactive) return;
+      const request: QueueItem | undefined = job.kind === 'video'
+        ? (await CacheService.getAllVideoQueuedRequests())
+          .filter(r => r.jobId === job.id || r.operationName === job.externalName || r.id === job.clientRequestId)
+          .map(r => ({ ...r, isVideo: true as const }))[0]
+        : (await CacheService.getAllQueuedRequests())
+          .filter(r => r.jobId === job.id || r.batchJobName === job.externalName || r.id === job.clientRequestId)
+          .map(r => ({ ...r, isVideo: false as const }))[0];
+
+      if (!request) {
+        await syncServerJobs();
+      } else if (event.type === 'job-complete') {
+        // Results are already on the server's disk at this point
+        await collectRequest(request);
+      } else if (event.type === 'job-progress' && request.isVideo) {
+        await CacheService.updateVideoQueuedRequest(request.id, { progressPercent: job.progress });
+      }
+      loadQueuedRequests();
+    };
+
+    return serverEvents.subscribe((event) => {
+      handleServerEvent(event).catch((error) => console.error('Failed to apply job update:', error));
+    });
   }, []);
 
   const handleSelectRequest = async (request: QueueItem) => {
@@ -120,11 +244,12 @@ export const QueuedRequestsPanel: React.FC = () => {
         const { state } = await geminiService.getBatchStatus(freshRequest.batchJobName);
 
         if (state === 'JOB_STATE_SUCCEEDED') {
-          const images = await geminiService.getBatchResults(freshRequest.batchJobName);
+          const { images, usage } = await geminiService.getBatchResults(freshRequest.batchJobName);
 
           await CacheService.updateQueuedRequest(freshRequest.id, {
             status: 'succeeded',
             resultImages: images,
+            usage,
             completedAt: Date.now()
           });
 
@@ -147,71 +272,83 @@ export const QueuedRequestsPanel: React.FC = () => {
     }
   };
 
-  const handleRefreshAll = async () => {
-    setIsRefreshing(true);
-
-    for (const request of queuedRequests) {
-      // Handle video requests
-      if (request.isVideo) {
-        if ((request.status === 'submitted' || request.status === 'processing') && request.operationName) {
-          try {
-            const status = await geminiService.getVideoOperationStatus(request.operationName);
-
-            if (status.state === 'SUCCEEDED') {
-              const result = await geminiService.getVideoOperationResult(request.operationName);
-              await CacheService.updateVideoQueuedRequest(request.id, {
-                status: 'succeeded',
-                resultVideo: result.video,
-                completedAt: Date.now()
-              });
-            } else if (status.state === 'FAILED') {
-              await CacheService.updateVideoQueuedRequest(request.id, {
-                status: 'failed',
-                error: status.error || 'Video generation failed'
-              });
-            }
-          } catch (error) {
-            console.error('Error checking video operation status:', error);
-          }
-        }
-        continue;
-      }
-
-      // Handle image requests
-      if (request.status === 'submitted' && request.batchJobName) {
+  // Checks an in-flight request and stores its results once the job has finished
+  const collectRequest = async (request: QueueItem) => {
+    // Handle video requests
+    if (request.isVideo) {
+      if ((request.status === 'submitted' || request.status === 'processing') && request.operationName) {
         try {
-          const { state } = await geminiService.getBatchStatus(request.batchJobName);
+          const status = await geminiService.getVideoOperationStatus(request.operationName);
 
-          if (state === 'JOB_STATE_SUCCEEDED') {
-            const images = await geminiService.getBatchResults(request.batchJobName);
-            await CacheService.updateQueuedRequest(request.id, {
+          if (status.state === 'SUCCEEDED') {
+            const result = await geminiService.getVideoOperationResult(request.operationName);
+            await CacheService.updateVideoQueuedRequest(request.id, {
               status: 'succeeded',
-              resultImages: images,
+              resultVideo: result.video,
               completedAt: Date.now()
             });
-          } else if (state === 'JOB_STATE_FAILED' || state === 'JOB_STATE_CANCELLED') {
-            await CacheService.updateQueuedRequest(request.id, {
+          } else if (status.state === 'FAILED') {
+            await CacheService.updateVideoQueuedRequest(request.id, {
               status: 'failed',
-              error: `Job ${state.replace('JOB_STATE_', '').toLowerCase()}`
+              error: status.error || 'Video generation failed'
             });
           }
         } catch (error) {
-          console.error('Error checking batch status:', error);
+          console.error('Error checking video operation status:', error);
+        }
+      }
+      return;
+    }
+
+    // Handle image requests
+    if (request.status === 'submitted' && request.batchJobName) {
+      try {
+        const { state } = await geminiService.getBatchStatus(request.batchJobName);
+
+        if (state === 'JOB_STATE_SUCCEEDED') {
+          const { images, usage } = await geminiService.getBatchResults(request.batchJobName);
+          await CacheService.updateQueuedRequest(request.id, {
+            status: 'succeeded',
+            resultImages: images,
+            usage,
+            completedAt: Date.now()
+          });
+        } else if (state === 'JOB_STATE_FAILED' || state === 'JOB_STATE_CANCELLED') {
+          await CacheService.updateQueuedRequest(request.id, {
+            status: 'failed',
+            error: `Job ${state.replace('JOB_STATE_', '').toLowerCase()}`
+          });
         }
+      } catch (error) {
+        console.error('Error checking batch status:', error);
       }
     }
+  };
+
+  const handleRefreshAll = async () => {
+    setIsRefreshing(true);
+    await syncServerJobs();
+
+    for (const request of queuedRequests) {
+      await collectRequest(request);
+    }
 
     await loadQueuedRequests();
     setIsRefreshing(false);
   };
 
-  const handleDeleteRequest = async (id: string, isVideo: boolean, e: React.MouseEvent) => {
+  const handleDeleteRequest = async (request: QueueItem, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (isVideo) {
+    const { id } = request;
+    if (request.isVideo) {
       await CacheService.deleteVideoQueuedRequest(id);
     } else {
       await CacheService.deleteQueuedRequest(id);
     }
+    // Otherwise the next sync would recover it again
+    if (request.jobId) {
+      await geminiService.deleteJob(request.jobId).catch(() => undefined);
+    }
     loadQueuedRequests();
     if (selectedRequestId === id) {
       setSelectedRequestId(null);
@@ -342,7 +479,7 @@ export const QueuedRequestsPanel: React.FC = () => {
                     <Copy className="h-3 w-3" />
                   </button>
                   <button
-                    onClick={(e) => handleDeleteRequest(request.id, !!request.isVideo, e)}
+                    onClick={(e) => handleDeleteRequest(request, e)}
                     className="text-gray-500 hover:text-red-400 transition-colors"
                     title="Delete"
                   >
@@ -374,7 +511,7 @@ export const QueuedRequestsPanel: React.FC = () => {
               {!request.isVideo && request.status === 'succeeded' && request.resultImages?.[0] && (
                 <div className="mt-2">
                   <img
-                    src={`data:image/png;base64,${request.resultImages[0]}`}
+                    src={toResultUrl(request.resultImages[0])}
                     alt="Result"
                     className="w-full h-20 object-cover rounded border border-gray-700"
                   />
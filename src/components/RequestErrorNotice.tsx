@@ -0,0 +1,64 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { ApiError } from '../services/apiService';
+import { NoImagesError } from '../services/geminiService';
+import { getCategoryLabel, getTriggeredRatings } from '../utils/generationFeedback';
+
+interface RequestErrorNoticeProps {
+  error: Error;
+}
+
+// Explains why the last request failed: rejected fields, or which safety categories
+// blocked it and what the model said instead
+export const RequestErrorNotice: React.FC<RequestErrorNoticeProps> = ({ error }) => {
+  if (error instanceof ApiError && error.fields.length > 0) {
+    return (
+      <div className="p-3 text-xs text-red-300 rounded-lg border bg-red-900/20 border-red-800/50">
+        <p className="mb-1 font-medium">Request rejected:</p>
+        <ul className="space-y-0.5 list-disc list-inside">
+          {error.fields.map((field, index) => (
+            <li key={index}>
+              <span className="font-mono">{field.field}</span>: {field.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  if (error instanceof NoImagesError) {
+    const triggered = error.feedback ? getTriggeredRatings(error.feedback) : [];
+    const texts = error.feedback?.texts ?? [];
+    return (
+      <div className="p-3 space-y-2 text-xs text-red-300 rounded-lg border bg-red-900/20 border-red-800/50">
+        <p className="flex items-start font-medium">
+          <ShieldAlert className="flex-shrink-0 mt-0.5 mr-1.5 w-3.5 h-3.5" />
+          {error.message}
+        </p>
+        {triggered.length > 0 && (
+          <ul className="space-y-0.5">
+            {triggered.map((rating) => (
+              <li key={rating.category} className="flex justify-between">
+                <span>{getCategoryLabel(rating.category)}</span>
+                <span className="text-red-200">
+                  {rating.probability.toLowerCase()} probability{rating.blocked ? ' (blocked)' : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {texts.length > 0 && (
+          <p className="pl-2 italic text-gray-400 border-l-2 border-gray-700 line-clamp-4">
+            {texts.join('\n')}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 text-xs text-red-300 rounded-lg border bg-red-900/20 border-red-800/50">
+      <p>{error.message}</p>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Crop, RotateCcw, RotateCw, FlipHorizontal, FlipVertical, Scaling, Lock, Unlock } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { useAppStore } from '../store/useAppStore';
+import { useImageSize } from '../hooks/useImageSize';
+import { useImageTransform } from '../hooks/useImageGeneration';
+import { ASPECT_RATIOS } from '../services/geminiService';
+import { getAspectRatioCrop, isWholeImage, MAX_RESIZE_DIMENSION } from '../utils/transformUtils';
+import { cn } from '../utils/cn';
+
+// Crop, rotate, flip and resize for the Transform tool; the crop box and rotation preview
+// are on the canvas. Each change is saved to history as an edit.
+export const TransformPanel: React.FC = () => {
+  const {
+    canvasImage,
+    cropRect,
+    cropAspectRatio,
+    setCropAspectRatio,
+    previewRotation,
+    setPreviewRotation,
+  } = useAppStore();
+  const imageSize = useImageSize(canvasImage);
+  const { transform, isTransforming, error } = useImageTransform();
+  const [resizeWidth, setResizeWidth] = useState(0);
+  const [resizeHeight, setResizeHeight] = useState(0);
+  const [lockResizeRatio, setLockResizeRatio] = useState(true);
+
+  useEffect(() => {
+    if (!imageSize) return;
+    setResizeWidth(imageSize.width);
+    setResizeHeight(imageSize.height);
+  }, [imageSize]);
+
+  if (!imageSize) {
+    return <p className="text-xs text-gray-500">Open an image to transform it</p>;
+  }
+
+  const crop = cropRect ?? getAspectRatioCrop(imageSize.width, imageSize.height, cropAspectRatio);
+  const clampDimension = (value: number) => Math.min(MAX_RESIZE_DIMENSION, Math.max(1, Math.round(value) || 1));
+
+  const handleResizeWidth = (value: number) => {
+    const width = clampDimension(value);
+    setResizeWidth(width);
+    if (lockResizeRatio) setResizeHeight(clampDimension((width * imageSize.height) / imageSize.width));
+  };
+
+  const handleResizeHeight = (value: number) => {
+    const height = clampDimension(value);
+    setResizeHeight(height);
+    if (lockResizeRatio) setResizeWidth(clampDimension((height * imageSize.width) / imageSize.height));
+  };
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div className="space-y-2">
+        <p className="font-medium text-gray-400">Crop</p>
+        <div className="grid grid-cols-4 gap-1">
+          {ASPECT_RATIOS.map((ratio) => (
+            <button
+              key={ratio}
+              onClick={() => setCropAspectRatio(ratio)}
+              className={cn(
+                'px-2 py-1.5 rounded border transition-colors',
+                cropAspectRatio === ratio
+                  ? 'bg-yellow-400/10 border-yellow-400/50 text-yellow-400'
+                  : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-800'
+              )}
+              title={ratio === 'auto' ? 'Free crop' : `Lock the crop to ${ratio}`}
+            >
+              {ratio === 'auto' ? 'Free' : ratio}
+            </button>
+          ))}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => transform({
+            type: 'crop',
+            rect: crop,
+            aspectRatio: cropAspectRatio === 'auto' ? undefined : cropAspectRatio,
+          })}
+          disabled={isTransforming || isWholeImage(crop, imageSize.width, imageSize.height)}
+        >
+          <Crop className="mr-1.5 w-3.5 h-3.5" />
+          Crop to {crop.width}×{crop.height}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="font-medium text-gray-400">Rotate &amp; Flip</p>
+        <div className="grid grid-cols-4 gap-1">
+          <Button variant="outline" size="sm" onClick={() => transform({ type: 'rotate', degrees: -90 })} disabled={isTransforming} title="Rotate 90° counterclockwise">
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => transform({ type: 'rotate', degrees: 90 })} disabled={isTransforming} title="Rotate 90° clockwise">
+            <RotateCw className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => transform({ type: 'flip', direction: 'horizontal' })} disabled={isTransforming} title="Flip horizontally">
+            <FlipHorizontal className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => transform({ type: 'flip', direction: 'vertical' })} disabled={isTransforming} title="Flip vertically">
+            <FlipVertical className="w-4 h-4" />
+          </Button>
+        </div>
+        <label className="block text-gray-400">
+          <span className="flex justify-between">
+            <span>Rotation</span>
+            <span className="text-gray-500">{previewRotation}°</span>
+          </span>
+          <input
+            type="range"
+            min={-180}
+            max={180}
+            step={1}
+            value={previewRotation}
+            onChange={(e) => setPreviewRotation(parseInt(e.target.value))}
+            className="w-full h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer slider"
+          />
+        </label>
+        <div className="flex gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => transform({ type: 'rotate', degrees: previewRotation })}
+            disabled={isTransforming || previewRotation === 0}
+            title="Corners the rotated image doesn't cover are left transparent"
+          >
+            <RotateCw className="mr-1.5 w-3.5 h-3.5" />
+            Apply Rotation
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setPreviewRotation(0)} disabled={previewRotation === 0}>
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="font-medium text-gray-400">Resize</p>
+        <div className="flex gap-1 items-center">
+          <Input
+            type="number"
+            min={1}
+            max={MAX_RESIZE_DIMENSION}
+            value={resizeWidth}
+            onChange={(e) => handleResizeWidth(parseInt(e.target.value, 10))}
+            className="h-8 text-xs"
+            aria-label="Width"
+          />
+          <span className="text-gray-500">×</span>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_RESIZE_DIMENSION}
+            value={resizeHeight}
+            onChange={(e) => handleResizeHeight(parseInt(e.target.value, 10))}
+            className="h-8 text-xs"
+            aria-label="Height"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setLockResizeRatio(!lockResizeRatio)}
+            className={cn(lockResizeRatio && 'text-yellow-400')}
+            title={lockResizeRatio ? 'Keeping the aspect ratio' : 'Aspect ratio unlocked'}
+          >
+            {lockResizeRatio ? <Lock className="w-3.5 h-3.5" /> : <Unlock className="w-3.5 h-3.5" />}
+          </Button>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => transform({ type: 'resize', width: resizeWidth, height: resizeHeight })}
+          disabled={isTransforming || (resizeWidth === imageSize.width && resizeHeight === imageSize.height)}
+        >
+          <Scaling className="mr-1.5 w-3.5 h-3.5" />
+          Resize to {resizeWidth}×{resizeHeight}
+        </Button>
+      </div>
+
+      {error && <p className="text-red-300">{error.message}</p>}
+    </div>
+  );
+};
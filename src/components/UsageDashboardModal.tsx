@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, Download } from 'lucide-react';
+import { Button } from './ui/Button';
+import { CacheService } from '../services/cacheService';
+import { projectPersistence } from '../services/projectPersistence';
+import { cn } from '../utils/cn';
+import { collectUsageEntries, groupUsage, usageToCsv, addUsage, EMPTY_USAGE, UsageEntry, UsageGrouping } from '../utils/usage';
+
+interface UsageDashboardModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const GROUPINGS: { id: UsageGrouping; label: string; column: string }[] = [
+  { id: 'model', label: 'By Model', column: 'Model' },
+  { id: 'day', label: 'By Day', column: 'Day' },
+  { id: 'project', label: 'By Project', column: 'Project' },
+];
+
+const formatTokens = (count: number) => count.toLocaleString();
+
+// Token counts and calls across every saved project and batch job
+export const UsageDashboardModal: React.FC<UsageDashboardModalProps> = ({ open, onOpenChange }) => {
+  const [entries, setEntries] = useState<UsageEntry[]>([]);
+  const [grouping, setGrouping] = useState<UsageGrouping>('model');
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    (async () => {
+      // Include the open project's latest changes
+      await projectPersistence.flush();
+      const [projects, batches] = await Promise.all([
+        CacheService.getAllProjects(),
+        CacheService.getAllQueuedRequests(),
+      ]);
+      if (!cancelled) setEntries(collectUsageEntries(projects, batches));
+    })().catch((error) => console.error('Failed to load usage:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const rows = useMemo(() => groupUsage(entries, grouping), [entries, grouping]);
+  const totals = useMemo(() => entries.reduce((sum, entry) => addUsage(sum, entry.usage), EMPTY_USAGE), [entries]);
+
+  const exportCsv = () => {
+    const url = URL.createObjectURL(new Blob([usageToCsv(entries)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `nano-banana-usage-${Date.now()}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const summary = [
+    { label: 'Calls', value: totals.calls },
+    { label: 'Prompt Tokens', value: totals.promptTokens },
+    { label: 'Output Tokens', value: totals.candidatesTokens },
+    { label: 'Total Tokens', value: totals.totalTokens },
+  ];
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 border border-gray-700 rounded-lg p-6 w-full max-w-4xl max-h-[85vh] flex flex-col z-50">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-lg font-semibold text-gray-100">
+              Usage
+            </Dialog.Title>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={exportCsv} disabled={entries.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+              <Dialog.Close asChild>
+                <Button variant="ghost" size="icon" className="h-6 w-6">
+                  <X className="h-4 w-4" />
+                </Button>
+              </Dialog.Close>
+            </div>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="py-8 text-sm text-center text-gray-500">
+              No usage recorded yet. Token counts are kept for generations, edits and batch jobs as their results come in.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                {summary.map(({ label, value }) => (
+                  <div key={label} className="p-3 bg-gray-800/50 rounded-lg border border-gray-700">
+                    <p className="text-xs text-gray-500">{label}</p>
+                    <p className="text-lg font-semibold text-gray-100">{formatTokens(value)}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-2 mb-3">
+                {GROUPINGS.map(({ id, label }) => (
+                  <button
+                    key={id}
+                    onClick={() => setGrouping(id)}
+                    className={cn(
+                      'px-3 py-1.5 text-xs rounded border transition-colors',
+                      grouping === id
+                        ? 'bg-yellow-400/10 border-yellow-400/50 text-yellow-400'
+                        : 'border-gray-700 text-gray-400 hover:bg-gray-800'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="overflow-y-auto min-h-0">
+                <table className="w-full text-xs text-right">
+                  <thead className="sticky top-0 bg-gray-900 text-gray-500">
+                    <tr className="border-b border-gray-800">
+                      <th className="py-2 text-left font-medium">{GROUPINGS.find((g) => g.id === grouping)?.column}</th>
+                      <th className="py-2 font-medium">Calls</th>
+                      <th className="py-2 font-medium">Prompt</th>
+                      <th className="py-2 font-medium">Prompt Images</th>
+                      <th className="py-2 font-medium">Output</th>
+                      <th className="py-2 font-medium">Output Images</th>
+                      <th className="py-2 font-medium">Thoughts</th>
+                      <th className="py-2 font-medium">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-300">
+                    {rows.map(({ key, label, usage }) => (
+                      <tr key={key} className="border-b border-gray-800/50">
+                        <td className="py-2 text-left truncate max-w-[12rem]" title={label}>{label}</td>
+                        <td className="py-2">{formatTokens(usage.calls)}</td>
+                        <td className="py-2">{formatTokens(usage.promptTokens)}</td>
+                        <td className="py-2 text-gray-500">{formatTokens(usage.promptImageTokens)}</td>
+                        <td className="py-2">{formatTokens(usage.candidatesTokens)}</td>
+                        <td className="py-2 text-gray-500">{formatTokens(usage.outputImageTokens)}</td>
+                        <td className="py-2">{formatTokens(usage.thoughtsTokens)}</td>
+                        <td className="py-2 font-medium text-gray-100">{formatTokens(usage.totalTokens)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
@@ -46,7 +46,8 @@ export const DropdownButton: React.FC<DropdownButtonProps> = ({
                     onClick={onClick}
                     disabled={disabled}
                     className={cn(
-                        'flex-1 h-14 px-4 rounded-l-lg font-medium transition-all duration-200',
+                        'flex-1 h-14 px-4 font-medium transition-all duration-200',
+                        options.length > 0 ? 'rounded-l-lg' : 'rounded-lg',
                         'bg-yellow-400 text-gray-900 hover:bg-yellow-300',
                         'disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-yellow-400',
                         'flex items-center justify-center',
@@ -57,21 +58,23 @@ export const DropdownButton: React.FC<DropdownButtonProps> = ({
                 </button>
 
                 {/* Dropdown trigger */}
-                <button
-                    onClick={() => !disabled && setIsOpen(!isOpen)}
-                    disabled={disabled}
-                    className={cn(
-                        'h-14 px-2 rounded-r-lg border-l border-yellow-500/30 transition-all duration-200',
-                        'bg-yellow-400 text-gray-900 hover:bg-yellow-300',
-                        'disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-yellow-400',
-                        'flex items-center justify-center'
-                    )}
-                >
-                    <ChevronDown className={cn(
-                        'h-4 w-4 transition-transform duration-200',
-                        isOpen && 'rotate-180'
-                    )} />
-                </button>
+                {options.length > 0 && (
+                    <button
+                        onClick={() => !disabled && setIsOpen(!isOpen)}
+                        disabled={disabled}
+                        className={cn(
+                            'h-14 px-2 rounded-r-lg border-l border-yellow-500/30 transition-all duration-200',
+                            'bg-yellow-400 text-gray-900 hover:bg-yellow-300',
+                            'disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-yellow-400',
+                            'flex items-center justify-center'
+                        )}
+                    >
+                        <ChevronDown className={cn(
+                            'h-4 w-4 transition-transform duration-200',
+                            isOpen && 'rotate-180'
+                        )} />
+                    </button>
+                )}
             </div>
 
             {/* Dropdown menu */}
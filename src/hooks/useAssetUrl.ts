@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { AssetStore } from '../services/assetStore';
+import { Asset, VideoAsset } from '../types';
+
+// Lazily resolves an asset's blob into an object URL
+export const useAssetUrl = (asset: Asset | VideoAsset | null | undefined): string | null => {
+  const [url, setUrl] = useState<string | null>(() => (asset ? AssetStore.peekUrl(asset) : null));
+
+  useEffect(() => {
+    if (!asset) {
+      setUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    setUrl(AssetStore.peekUrl(asset));
+    AssetStore.resolveUrl(asset)
+      .then((resolved) => {
+        if (!cancelled) setUrl(resolved);
+      })
+      .catch((error) => console.error('Failed to resolve asset:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [asset]);
+
+  return url;
+};
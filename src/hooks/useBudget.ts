@@ -0,0 +1,47 @@
+import { useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { CacheService } from '../services/cacheService';
+import { BudgetExceededError, checkBudget, getDayKey } from '../utils/budget';
+import { getProjectSpend } from '../utils/pricing';
+import { Project } from '../types';
+
+const getSpend = (dailySpend: { day: string; amount: number }, project: Project | null) => ({
+  daily: dailySpend.day === getDayKey() ? dailySpend.amount : 0,
+  project: project ? getProjectSpend(project) : 0,
+});
+
+// Throws before a request that a blocking budget doesn't allow. Reads the store at call
+// time so mutations check against the latest spend.
+export const enforceBudget = (cost: number): void => {
+  const { dailySpend, currentProject, budgetSettings } = useAppStore.getState();
+  const check = checkBudget(cost, getSpend(dailySpend, currentProject), budgetSettings);
+  if (check.blocked) throw new BudgetExceededError(check);
+};
+
+// Loads budget settings and today's spend on startup
+export const useBudgetPersistence = () => {
+  useEffect(() => {
+    let cancelled = false;
+    const day = getDayKey();
+
+    Promise.all([CacheService.getBudgetSettings(), CacheService.getDailySpend(day)])
+      .then(([settings, amount]) => {
+        if (cancelled) return;
+        const { setBudgetSettings, setDailySpend } = useAppStore.getState();
+        if (settings) setBudgetSettings(settings);
+        setDailySpend({ day, amount });
+      })
+      .catch((error) => console.error('Failed to load budget:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+};
+
+// Spend so far and how a request costing `cost` fits the budgets
+export const useBudgetCheck = (cost: number) => {
+  const { dailySpend, currentProject, budgetSettings } = useAppStore();
+  const spend = getSpend(dailySpend, currentProject);
+  return { spend, check: checkBudget(cost, spend, budgetSettings) };
+};
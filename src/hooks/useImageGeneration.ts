@@ -1,29 +1,97 @@
 import { useMutation } from '@tanstack/react-query';
-import { geminiService, GenerationRequest, EditRequest, MODEL_RESOLUTIONS, DEFAULT_ASPECT_RATIO, DEFAULT_RESOLUTION_TIER, DEFAULT_MODEL } from '../services/geminiService';
+import { geminiService, NoImagesError, GenerationRequest, EditRequest } from '../services/geminiService';
 import { useAppStore } from '../store/useAppStore';
-import { generateId } from '../utils/imageUtils';
-import { Generation, Edit, Asset, AspectRatio, ResolutionTier } from '../types';
-
-const getDimensions = (
-  model: string,
-  aspectRatio: AspectRatio,
-  resolutionTier: ResolutionTier
-): { width: number; height: number } => {
-  const resolutionMap = MODEL_RESOLUTIONS[model] ?? MODEL_RESOLUTIONS[DEFAULT_MODEL];
-  const effectiveAspectRatio = aspectRatio === 'auto' ? DEFAULT_ASPECT_RATIO : aspectRatio;
-  const ratioConfig = resolutionMap?.[effectiveAspectRatio] ?? resolutionMap?.[DEFAULT_ASPECT_RATIO];
-  const tierConfig = ratioConfig?.[resolutionTier] ?? ratioConfig?.[DEFAULT_RESOLUTION_TIER];
-
-  return tierConfig ?? { width: 1024, height: 1024 };
+import { AssetStore, findMatchingAsset } from '../services/assetStore';
+import { generateId, urlToBase64 } from '../utils/imageUtils';
+import { findRecord, getConversation, getEditSourceAsset, ConversationTurn } from '../utils/projectTree';
+import { getResponseNotes } from '../utils/generationFeedback';
+import { estimateImageCost } from '../utils/pricing';
+import { enforceBudget } from './useBudget';
+import { buildEditMask, compositeWithinMask, getSavedMaskId } from '../utils/maskUtils';
+import { DEFAULT_EXPAND_INSTRUCTION, padImageForExpand } from '../utils/expandUtils';
+import { applyLocalOperation, describeOperation } from '../utils/transformUtils';
+import { Generation, Edit, EditParent, EditOperation, LocalEditOperation, ExpandBounds, FailedAttempt, Project, Asset, ChatTurn, ChatPart, GeneratedImage } from '../types';
+
+// The history node (and variant) currently shown on the canvas, so an edit can branch off it
+const findCanvasParent = (canvasImage: string | null): EditParent | undefined => {
+  const { currentProject, selectedEditId, selectedGenerationId } = useAppStore.getState();
+  if (!currentProject || !canvasImage) return undefined;
+
+  const candidates: Pick<EditParent, 'type' | 'id'>[] = [];
+  if (selectedEditId) candidates.push({ type: 'edit', id: selectedEditId });
+  if (selectedGenerationId) candidates.push({ type: 'generation', id: selectedGenerationId });
+
+  for (const candidate of candidates) {
+    const asset = findRecord(currentProject, candidate)?.outputAssets
+      .find(a => AssetStore.peekUrl(a) === canvasImage);
+    if (asset) return { ...candidate, assetId: asset.id };
+  }
+  return undefined;
+};
+
+// Swaps new assets for the project's existing ones with the same content
+const dedupeAsset = (asset: Asset): Asset =>
+  findMatchingAsset(useAppStore.getState().currentProject, asset) ?? asset;
+
+// Each edited image composited onto the source inside the mask. A failed composite keeps
+// the raw results rather than failing an edit that already succeeded.
+const compositeOutputs = async (source: string, images: GeneratedImage[], mask: string): Promise<string[] | undefined> => {
+  try {
+    return await Promise.all(images.map(({ data }) => compositeWithinMask(source, data, mask)));
+  } catch (error) {
+    console.error('Failed to composite edit results:', error);
+    return undefined;
+  }
+};
+
+const assetToBase64 = async (asset: Asset | undefined): Promise<string> => {
+  const url = asset && await AssetStore.resolveUrl(asset);
+  if (!url) throw new Error('An image from this conversation is missing from storage');
+  return urlToBase64(url);
+};
+
+// Replays a conversation as chat turns: each instruction (the first with the image it
+// was applied to), then the model's reply for the variant the conversation kept
+const buildChatHistory = async (project: Project, conversation: ConversationTurn[]): Promise<ChatTurn[]> => {
+  const history: ChatTurn[] = [];
+  for (const [index, { edit, assetId }] of conversation.entries()) {
+    const userParts: ChatPart[] = [{ text: edit.instruction }];
+    if (index === 0) {
+      userParts.push({ image: await assetToBase64(getEditSourceAsset(project, edit)) });
+    }
+
+    // Edits from before replies were kept fall back to their text and the image
+    const outputIndex = Math.max(0, edit.outputAssets.findIndex(a => a.id === assetId));
+    const reply = edit.replies?.find(parts => parts.some(part => part.imageIndex === outputIndex))
+      ?? [...(edit.responseText ? [{ text: edit.responseText }] : []), { imageIndex: outputIndex }];
+    const modelParts = await Promise.all(reply.map(async ({ imageIndex, ...part }): Promise<ChatPart> =>
+      imageIndex === undefined ? part : { ...part, image: await assetToBase64(edit.outputAssets[imageIndex]) }
+    ));
+
+    history.push({ role: 'user', parts: userParts }, { role: 'model', parts: modelParts });
+  }
+  return history;
+};
+
+// Blocked or empty results are kept in history so the attempt and its reason aren't lost
+const recordFailedAttempt = (type: FailedAttempt['type'], prompt: string, modelVersion: string, error: NoImagesError) => {
+  useAppStore.getState().addFailedAttempt({
+    id: generateId(),
+    type,
+    prompt,
+    modelVersion,
+    reason: error.message,
+    feedback: error.feedback,
+    timestamp: Date.now()
+  });
 };
 
 export const useImageGeneration = () => {
   const {
     addGeneration,
+    recordSpend,
     setIsGenerating,
     setCanvasImages,
-    setCurrentProject,
-    currentProject,
     selectedModel,
     aspectRatio,
     resolutionTier,
@@ -34,35 +102,43 @@ export const useImageGeneration = () => {
     mutationFn: async (request: GenerationRequest) => {
       // Get current safety settings at mutation time to avoid stale closure
       const { safetySettings } = useAppStore.getState();
-      const images = await geminiService.generateImage({ 
-        ...request, 
-        model: request.model ?? selectedModel,
+      const model = request.model ?? selectedModel;
+      const requestResolutionTier = request.resolutionTier ?? resolutionTier;
+      const requestVariantCount = request.variantCount ?? variantCount;
+      const cost = estimateImageCost({
+        model,
+        resolutionTier: requestResolutionTier,
+        variantCount: requestVariantCount,
+        inputImages: request.referenceImages?.length ?? 0
+      });
+      enforceBudget(cost);
+
+      const { images, feedback, usage } = await geminiService.generateImage({
+        ...request,
+        model,
         safetySettings,
         aspectRatio: request.aspectRatio ?? aspectRatio,
-        resolutionTier: request.resolutionTier ?? resolutionTier,
-        variantCount: request.variantCount ?? variantCount
+        resolutionTier: requestResolutionTier,
+        variantCount: requestVariantCount
       });
-      return images;
+      if (images.length === 0) throw new NoImagesError(feedback);
+      return { images, feedback, usage, cost };
     },
     onMutate: () => {
       setIsGenerating(true);
     },
-    onSuccess: (images, request) => {
+    onSuccess: async ({ images, feedback, usage, cost }, request) => {
       if (images.length > 0) {
         const modelToUse = request.model ?? selectedModel;
         const requestAspectRatio = request.aspectRatio ?? aspectRatio;
         const requestResolutionTier = request.resolutionTier ?? resolutionTier;
-        const dimensions = getDimensions(modelToUse, requestAspectRatio, requestResolutionTier);
 
-        const outputAssets: Asset[] = images.map((base64, index) => ({
-          id: generateId(),
-          type: 'output',
-          url: `data:image/png;base64,${base64}`,
-          mime: 'image/png',
-          width: dimensions.width,
-          height: dimensions.height,
-          checksum: base64.slice(0, 32) // Simple checksum
-        }));
+        const outputAssets = (await Promise.all(images.map(({ data, mimeType }) =>
+          AssetStore.createImageAsset(data, 'output', mimeType)
+        ))).map(dedupeAsset);
+        const sourceAssets = (await Promise.all((request.referenceImages ?? []).map((img) =>
+          AssetStore.createImageAsset(img, 'original')
+        ))).map(dedupeAsset);
 
         const generation: Generation = {
           id: generateId(),
@@ -70,54 +146,37 @@ export const useImageGeneration = () => {
           parameters: {
             aspectRatio: requestAspectRatio,
             resolutionTier: requestResolutionTier,
-            width: dimensions.width,
-            height: dimensions.height,
+            width: outputAssets[0].width,
+            height: outputAssets[0].height,
             seed: request.seed,
             temperature: request.temperature,
             variantCount: request.variantCount ?? variantCount
           },
-          sourceAssets: request.referenceImage ? [{
-            id: generateId(),
-            type: 'original',
-            url: `data:image/png;base64,${request.referenceImages[0]}`,
-            mime: 'image/png',
-            width: dimensions.width,
-            height: dimensions.height,
-            checksum: request.referenceImages[0].slice(0, 32)
-          }] : request.referenceImages ? request.referenceImages.map((img, index) => ({
-            id: generateId(),
-            type: 'original' as const,
-            url: `data:image/png;base64,${img}`,
-            mime: 'image/png',
-            width: dimensions.width,
-            height: dimensions.height,
-            checksum: img.slice(0, 32)
-          })) : [],
+          sourceAssets,
           outputAssets,
           modelVersion: modelToUse,
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          costEstimate: cost,
+          usage,
+          ...getResponseNotes(feedback)
         };
 
         addGeneration(generation);
-        setCanvasImages(outputAssets.map(asset => asset.url));
-        
-        // Create project if none exists
-        if (!currentProject) {
-          const newProject = {
-            id: generateId(),
-            title: 'Untitled Project',
-            generations: [generation],
-            edits: [],
-            createdAt: Date.now(),
-            updatedAt: Date.now()
-          };
-          setCurrentProject(newProject);
-        }
+        recordSpend(cost);
+        setCanvasImages(await AssetStore.resolveUrls(outputAssets));
+
+        // Select the new generation so follow-up edits branch from it
+        const { selectGeneration, selectEdit } = useAppStore.getState();
+        selectGeneration(generation.id);
+        selectEdit(null);
       }
       setIsGenerating(false);
     },
-    onError: (error) => {
+    onError: (error, request) => {
       console.error('Generation failed:', error);
+      if (error instanceof NoImagesError) {
+        recordFailedAttempt('generate', request.prompt, request.model ?? selectedModel, error);
+      }
       setIsGenerating(false);
     }
   });
@@ -129,16 +188,22 @@ export const useImageGeneration = () => {
   };
 };
 
+interface EditVariables {
+  instruction: string;
+  variantCount?: number;
+  expandBounds?: ExpandBounds;
+}
+
 export const useImageEditing = () => {
   const {
     addEdit,
+    recordSpend,
     setIsGenerating,
     setCanvasImages,
     canvasImage,
     editReferenceImages,
     brushStrokes,
-    selectedGenerationId,
-    currentProject,
+    maskSettings,
     seed,
     temperature,
     selectedModel,
@@ -149,17 +214,24 @@ export const useImageEditing = () => {
   } = useAppStore();
 
   const editMutation = useMutation({
-    mutationFn: async ({ instruction, variantCount: requestedVariantCount }: { instruction: string; variantCount?: number }) => {
+    mutationFn: async ({ instruction, variantCount: requestedVariantCount, expandBounds }: EditVariables) => {
       // Get current safety settings at mutation time to avoid stale closure
       const { safetySettings } = useAppStore.getState();
       // Always use canvas image as primary target if available, otherwise use first uploaded image
       const sourceImage = canvasImage || uploadedImages[0];
       if (!sourceImage) throw new Error('No image to edit');
 
-      // Convert canvas image to base64
-      const base64Image = sourceImage.includes('base64,')
-        ? sourceImage.split('base64,')[1]
-        : sourceImage;
+      // Convert canvas image (data or object URL) to base64
+      const base64Image = await urlToBase64(sourceImage);
+      const parent = findCanvasParent(canvasImage);
+
+      // In chat mode the edit continues the conversation of the edit it's made from.
+      // Expansions start afresh, since the conversation never saw the padded image.
+      const { chatMode, currentProject } = useAppStore.getState();
+      const conversational = chatMode && !expandBounds;
+      const history = conversational && currentProject
+        ? await buildChatHistory(currentProject, getConversation(currentProject, parent))
+        : [];
 
       // Get reference images for style guidance
       let referenceImages = editReferenceImages
@@ -168,83 +240,14 @@ export const useImageEditing = () => {
 
       let maskImage: string | undefined;
       let maskedReferenceImage: string | undefined;
+      // What the model edits: the source, or for an expansion the source on its larger canvas
+      let editImage = base64Image;
 
-      // Create mask from brush strokes if any exist
-      if (brushStrokes.length > 0) {
-        // Create a temporary image to get actual dimensions
-        const tempImg = new Image();
-        tempImg.src = sourceImage;
-        await new Promise<void>((resolve) => {
-          tempImg.onload = () => resolve();
-        });
-
-        // Create mask canvas with exact image dimensions
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d')!;
-        canvas.width = tempImg.width;
-        canvas.height = tempImg.height;
-
-        // Fill with black (unmasked areas)
-        ctx.fillStyle = 'black';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-        // Draw white strokes (masked areas)
-        ctx.strokeStyle = 'white';
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-
-        brushStrokes.forEach(stroke => {
-          if (stroke.points.length >= 4) {
-            ctx.lineWidth = stroke.brushSize;
-            ctx.beginPath();
-            ctx.moveTo(stroke.points[0], stroke.points[1]);
-
-            for (let i = 2; i < stroke.points.length; i += 2) {
-              ctx.lineTo(stroke.points[i], stroke.points[i + 1]);
-            }
-            ctx.stroke();
-          }
-        });
-
-        // Convert mask to base64
-        const maskDataUrl = canvas.toDataURL('image/png');
-        maskImage = maskDataUrl.split('base64,')[1];
-
-        // Create masked reference image (original image with mask overlay)
-        const maskedCanvas = document.createElement('canvas');
-        const maskedCtx = maskedCanvas.getContext('2d')!;
-        maskedCanvas.width = tempImg.width;
-        maskedCanvas.height = tempImg.height;
-
-        // Draw original image
-        maskedCtx.drawImage(tempImg, 0, 0);
-
-        // Draw mask overlay with transparency
-        maskedCtx.globalCompositeOperation = 'source-over';
-        maskedCtx.globalAlpha = 0.4;
-        maskedCtx.fillStyle = '#A855F7';
-
-        brushStrokes.forEach(stroke => {
-          if (stroke.points.length >= 4) {
-            maskedCtx.lineWidth = stroke.brushSize;
-            maskedCtx.strokeStyle = '#A855F7';
-            maskedCtx.lineCap = 'round';
-            maskedCtx.lineJoin = 'round';
-            maskedCtx.beginPath();
-            maskedCtx.moveTo(stroke.points[0], stroke.points[1]);
-
-            for (let i = 2; i < stroke.points.length; i += 2) {
-              maskedCtx.lineTo(stroke.points[i], stroke.points[i + 1]);
-            }
-            maskedCtx.stroke();
-          }
-        });
-
-        maskedCtx.globalAlpha = 1;
-        maskedCtx.globalCompositeOperation = 'source-over';
-
-        const maskedDataUrl = maskedCanvas.toDataURL('image/png');
-        maskedReferenceImage = maskedDataUrl.split('base64,')[1];
+      if (expandBounds) {
+        ({ image: editImage, mask: maskImage } = await padImageForExpand(sourceImage, expandBounds));
+      } else if (brushStrokes.length > 0) {
+        // Create mask from brush strokes if any exist
+        ({ maskImage, maskedReferenceImage } = await buildEditMask(brushStrokes, maskSettings, sourceImage));
 
         // Add the masked image as a reference for the model
         referenceImages = [maskedReferenceImage, ...referenceImages];
@@ -252,76 +255,152 @@ export const useImageEditing = () => {
 
       const request: EditRequest = {
         instruction,
-        originalImage: base64Image,
+        originalImage: editImage,
+        history: history.length > 0 ? history : undefined,
         referenceImages: referenceImages.length > 0 ? referenceImages : undefined,
         maskImage,
+        mode: expandBounds ? 'outpaint' : undefined,
         temperature,
         seed,
         model: selectedModel,
         safetySettings,
-        aspectRatio,
+        // An expansion's shape comes from its padded image unless a ratio was picked
+        aspectRatio: expandBounds ? expandBounds.aspectRatio ?? 'auto' : aspectRatio,
         resolutionTier,
         variantCount: requestedVariantCount ?? variantCount
       };
 
-      const images = await geminiService.editImage(request);
-      return { images, maskedReferenceImage };
+      // The image being edited travels in the history on chat turns
+      const historyImages = history.flatMap(turn => turn.parts).filter(part => part.image).length;
+      const cost = estimateImageCost({
+        model: selectedModel,
+        resolutionTier,
+        variantCount: requestedVariantCount ?? variantCount,
+        inputImages: (historyImages || 1) + referenceImages.length + (maskImage ? 1 : 0)
+      });
+      enforceBudget(cost);
+
+      const { images, feedback, replies, usage } = await geminiService.editImage(request);
+      if (images.length === 0) throw new NoImagesError(feedback);
+
+      // Models often change more than the mask asks for; keep only what's inside it
+      const composited = maskImage && useAppStore.getState().compositeEdits
+        ? await compositeOutputs(editImage, images, maskImage)
+        : undefined;
+      const operation: EditOperation | undefined = expandBounds && { type: 'expand', bounds: expandBounds };
+
+      return { images, composited, feedback, replies, usage, model: selectedModel, conversational, cost, maskedReferenceImage, parent, base64Image, operation };
     },
     onMutate: () => {
       setIsGenerating(true);
     },
-    onSuccess: ({ images, maskedReferenceImage }, { instruction }) => {
+    onSuccess: async ({ images, composited, feedback, replies, usage, model, conversational, cost, maskedReferenceImage, parent, base64Image, operation }, { instruction }) => {
       if (images.length > 0) {
-        const outputAssets: Asset[] = images.map((base64, index) => ({
-          id: generateId(),
-          type: 'output',
-          url: `data:image/png;base64,${base64}`,
-          mime: 'image/png',
-          width: 1024,
-          height: 1024,
-          checksum: base64.slice(0, 32)
-        }));
+        const rawOutputAssets = (await Promise.all(images.map(({ data, mimeType }) =>
+          AssetStore.createImageAsset(data, 'output', mimeType)
+        ))).map(dedupeAsset);
+        const outputAssets = composited
+          ? (await Promise.all(composited.map((data) => AssetStore.createImageAsset(data, 'output')))).map(dedupeAsset)
+          : rawOutputAssets;
 
         // Create mask reference asset if we have one
-        const maskReferenceAsset: Asset | undefined = maskedReferenceImage ? {
-          id: generateId(),
-          type: 'mask',
-          url: `data:image/png;base64,${maskedReferenceImage}`,
-          mime: 'image/png',
-          width: 1024,
-          height: 1024,
-          checksum: maskedReferenceImage.slice(0, 32)
-        } : undefined;
+        const maskReferenceAsset = maskedReferenceImage
+          ? dedupeAsset(await AssetStore.createImageAsset(maskedReferenceImage, 'mask'))
+          : undefined;
+
+        // Edits of images that aren't in history keep their own copy of the source
+        const sourceAsset = parent ? undefined : dedupeAsset(await AssetStore.createImageAsset(base64Image, 'original'));
 
         const edit: Edit = {
           id: generateId(),
-          parentGenerationId: selectedGenerationId || (currentProject?.generations[currentProject.generations.length - 1]?.id || ''),
-          maskAssetId: brushStrokes.length > 0 ? generateId() : undefined,
+          parent,
+          sourceAsset,
+          maskAssetId: operation ? undefined : getSavedMaskId(brushStrokes, maskSettings),
           maskReferenceAsset,
           instruction,
           outputAssets,
-          timestamp: Date.now()
+          rawOutputAssets: composited && rawOutputAssets,
+          timestamp: Date.now(),
+          modelVersion: model,
+          costEstimate: cost,
+          usage,
+          operation,
+          ...getResponseNotes(feedback),
+          ...(conversational && { conversational, replies })
         };
 
         addEdit(edit);
+        recordSpend(cost);
 
         // Automatically load the edited image in the canvas
         const { selectEdit, selectGeneration } = useAppStore.getState();
-        setCanvasImages(outputAssets.map(asset => asset.url));
+        setCanvasImages(await AssetStore.resolveUrls(outputAssets));
         selectEdit(edit.id);
         selectGeneration(null);
       }
       setIsGenerating(false);
     },
-    onError: (error) => {
+    onError: (error, { instruction }) => {
       console.error('Edit failed:', error);
+      if (error instanceof NoImagesError) {
+        recordFailedAttempt('edit', instruction, selectedModel, error);
+      }
       setIsGenerating(false);
     }
   });
 
   return {
     edit: (instruction: string, requestedVariantCount?: number) => editMutation.mutate({ instruction, variantCount: requestedVariantCount }),
+    // Outpaint the canvas image onto a larger canvas; `instruction` says what to fill it with
+    expand: (instruction: string, expandBounds: ExpandBounds) =>
+      editMutation.mutate({ instruction: instruction || DEFAULT_EXPAND_INSTRUCTION, variantCount: 1, expandBounds }),
     isEditing: editMutation.isPending,
     error: editMutation.error
   };
 };
+
+// Crops, rotations, flips and resizes of the canvas image, made in the browser and
+// recorded as edits so they can be undone or branched from like any other
+export const useImageTransform = () => {
+  const { addEdit, setCanvasImages, canvasImage } = useAppStore();
+
+  const transformMutation = useMutation({
+    mutationFn: async (operation: LocalEditOperation) => {
+      if (!canvasImage) throw new Error('No image to transform');
+      const output = await applyLocalOperation(canvasImage, operation);
+      const parent = findCanvasParent(canvasImage);
+      const base64Image = parent ? undefined : await urlToBase64(canvasImage);
+      return { output, parent, base64Image };
+    },
+    onSuccess: async ({ output, parent, base64Image }, operation) => {
+      const outputAsset = dedupeAsset(await AssetStore.createImageAsset(output, 'output'));
+      // Transforms of images that aren't in history keep their own copy of the source
+      const sourceAsset = base64Image ? dedupeAsset(await AssetStore.createImageAsset(base64Image, 'original')) : undefined;
+
+      const edit: Edit = {
+        id: generateId(),
+        parent,
+        sourceAsset,
+        instruction: describeOperation(operation),
+        outputAssets: [outputAsset],
+        timestamp: Date.now(),
+        operation,
+      };
+      addEdit(edit);
+
+      const { selectEdit, selectGeneration } = useAppStore.getState();
+      setCanvasImages(await AssetStore.resolveUrls([outputAsset]));
+      selectEdit(edit.id);
+      selectGeneration(null);
+    },
+    onError: (error) => {
+      console.error('Transform failed:', error);
+    }
+  });
+
+  return {
+    transform: transformMutation.mutate,
+    isTransforming: transformMutation.isPending,
+    error: transformMutation.error
+  };
+};
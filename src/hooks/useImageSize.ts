@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { loadImage } from '../utils/maskUtils';
+
+// Natural size of the image at `url`, or null while it loads or when there isn't one
+export const useImageSize = (url: string | null) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    if (!url) {
+      setSize(null);
+      return;
+    }
+    let cancelled = false;
+    loadImage(url)
+      .then((image) => !cancelled && setSize({ width: image.width, height: image.height }))
+      .catch(() => !cancelled && setSize(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return size;
+};
@@ -9,7 +9,9 @@ export const useKeyboardShortcuts = () => {
     setShowPromptPanel,
     showPromptPanel,
     currentPrompt,
-    isGenerating
+    isGenerating,
+    undo,
+    redo
   } = useAppStore();
 
   useEffect(() => {
@@ -27,6 +29,17 @@ export const useKeyboardShortcuts = () => {
         return;
       }
 
+      // Undo / redo (Shift+Cmd/Ctrl+Z)
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+        return;
+      }
+
       switch (event.key.toLowerCase()) {
         case 'e':
           event.preventDefault();
@@ -59,5 +72,5 @@ export const useKeyboardShortcuts = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [setSelectedTool, setShowHistory, showHistory, setShowPromptPanel, showPromptPanel, currentPrompt, isGenerating]);
+  }, [setSelectedTool, setShowHistory, showHistory, setShowPromptPanel, showPromptPanel, currentPrompt, isGenerating, undo, redo]);
 };
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { AssetStore } from '../services/assetStore';
+import { SavedMask } from '../types';
+import { downloadImageUrl, toImageDataUrl } from '../utils/imageUtils';
+import { createBitmapStroke, loadImage, maskToBase64, rasterizeMask, readMaskImage } from '../utils/maskUtils';
+
+// Imported and saved masks already have their adjustments applied
+const BAKED_MASK_SETTINGS = { invert: false, grow: 0, feather: 0 };
+
+// Importing, exporting and saving the canvas mask, and loading the project's saved masks
+export const useMaskLibrary = () => {
+  const { canvasImage, currentProject, setBrushStrokes, setMaskSettings, addSavedMask, removeSavedMask } = useAppStore();
+  const [error, setError] = useState<Error | null>(null);
+
+  const run = <Args extends unknown[]>(action: (...args: Args) => Promise<void>) =>
+    async (...args: Args) => {
+      setError(null);
+      try {
+        await action(...args);
+      } catch (err) {
+        console.error('Mask action failed:', err);
+        setError(err as Error);
+      }
+    };
+
+  const getCanvasImage = async () => {
+    if (!canvasImage) throw new Error('Open an image before working with masks');
+    return loadImage(canvasImage);
+  };
+
+  // Replaces the mask with a white-on-black (or alpha) image, resampled to the canvas image
+  const applyMaskImage = async (source: string, maskAssetId?: string) => {
+    const [image, mask] = await Promise.all([getCanvasImage(), loadImage(source)]);
+    setBrushStrokes([createBitmapStroke(readMaskImage(mask, image.width, image.height), maskAssetId)]);
+    setMaskSettings(BAKED_MASK_SETTINGS);
+  };
+
+  const renderCurrentMask = async () => {
+    const { brushStrokes, maskSettings } = useAppStore.getState();
+    if (brushStrokes.length === 0) throw new Error('Draw a mask first');
+    const image = await getCanvasImage();
+    return maskToBase64(await rasterizeMask(brushStrokes, maskSettings, image.width, image.height));
+  };
+
+  const openSavedMask = async (mask: SavedMask) => {
+    const url = await AssetStore.resolveUrl(mask.asset);
+    if (!url) throw new Error(`Mask "${mask.name}" is missing from storage`);
+    await applyMaskImage(url, mask.asset.id);
+  };
+
+  const importMask = run(async (file: File) => {
+    const url = URL.createObjectURL(file);
+    try {
+      await applyMaskImage(url);
+    } catch (err) {
+      throw err instanceof Error ? err : new Error(`${file.name} is not a readable image`);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  });
+
+  const exportMask = run(async () => {
+    await downloadImageUrl(toImageDataUrl(await renderCurrentMask()), `nano-banana-mask-${Date.now()}`);
+  });
+
+  // Saving the same mask twice keeps the first copy
+  const saveMask = run(async (name: string) => {
+    const asset = await AssetStore.createImageAsset(await renderCurrentMask(), 'mask');
+    let saved = currentProject?.masks?.find((mask) => mask.asset.checksum === asset.checksum);
+    if (saved) {
+      await AssetStore.release([asset]);
+    } else {
+      saved = { name: name.trim() || `Mask ${(currentProject?.masks?.length ?? 0) + 1}`, asset, createdAt: Date.now() };
+      addSavedMask(saved);
+    }
+    // Continue from the saved copy, so the next edit records which mask it used
+    await openSavedMask(saved);
+  });
+
+  const loadMask = run(openSavedMask);
+
+  return {
+    masks: currentProject?.masks ?? [],
+    importMask,
+    exportMask,
+    saveMask,
+    loadMask,
+    deleteMask: removeSavedMask,
+    error
+  };
+};
@@ -0,0 +1,46 @@
+import { useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { geminiService } from '../services/geminiService';
+import { useAppStore } from '../store/useAppStore';
+import { ProviderModel, VideoModel } from '../types';
+
+export interface ModelOption {
+  name: string;
+  model: string;
+}
+
+// Image and video model pickers, populated from the server's provider registry only, since
+// the server rejects models it doesn't offer. A saved selection it doesn't offer (e.g. from
+// when another provider was running) is switched to its default once the list arrives.
+export const useModelOptions = () => {
+  const { data: models, isError } = useQuery({
+    queryKey: ['models'],
+    queryFn: () => geminiService.listModels(),
+    staleTime: Infinity,
+  });
+  const { selectedModel, setSelectedModel, videoModel, setVideoModel } = useAppStore();
+
+  useEffect(() => {
+    if (!models) return;
+    const offered = (kind: ProviderModel['kind'], id: string) =>
+      models.some((m) => m.kind === kind && m.id === id);
+    const defaultFor = (kind: ProviderModel['kind']) => models.find((m) => m.kind === kind && m.isDefault)?.id;
+
+    const imageDefault = defaultFor('image');
+    if (imageDefault && !offered('image', selectedModel)) setSelectedModel(imageDefault);
+    const videoDefault = defaultFor('video');
+    if (videoDefault && !offered('video', videoModel)) setVideoModel(videoDefault as VideoModel);
+  }, [models, selectedModel, setSelectedModel, videoModel, setVideoModel]);
+
+  return useMemo(() => {
+    const toOptions = (kind: ProviderModel['kind']): ModelOption[] =>
+      (models ?? []).filter((m) => m.kind === kind).map((m) => ({ name: m.name, model: m.id }));
+
+    return {
+      imageModels: toOptions('image'),
+      videoModels: toOptions('video'),
+      // What an empty picker shows instead
+      placeholder: isError ? 'Models unavailable' : 'Loading models…',
+    };
+  }, [models, isError]);
+};
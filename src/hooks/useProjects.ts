@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAppStore, createEmptyProject } from '../store/useAppStore';
+import { CacheService } from '../services/cacheService';
+import { projectPersistence } from '../services/projectPersistence';
+import { AssetStore, getProjectAssets } from '../services/assetStore';
+import { ProjectArchive } from '../services/projectArchive';
+import { generateId } from '../utils/imageUtils';
+import { Project } from '../types';
+
+// Restores the last project on startup and autosaves every change to it
+export const useProjectPersistence = () => {
+  useEffect(() => {
+    let cancelled = false;
+
+    projectPersistence.restore()
+      .then((project) => {
+        // Don't clobber work started before IndexedDB answered
+        if (cancelled || !project || useAppStore.getState().currentProject) return;
+        useAppStore.getState().openProject(project);
+      })
+      .catch((error) => console.error('Failed to restore project:', error));
+
+    const unsubscribe = useAppStore.subscribe((state, prevState) => {
+      const project = state.currentProject;
+      if (project === prevState.currentProject) return;
+
+      if (project?.id !== prevState.currentProject?.id) {
+        void CacheService.setActiveProjectId(project?.id ?? null);
+      }
+      if (project) {
+        projectPersistence.scheduleSave(project);
+      }
+    });
+
+    const handlePageHide = () => void projectPersistence.flush();
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      window.removeEventListener('pagehide', handlePageHide);
+      void projectPersistence.flush();
+    };
+  }, []);
+};
+
+// Project list and management actions for the project switcher
+export const useProjects = () => {
+  const { currentProject, openProject, setProjectTitle } = useAppStore();
+  const [projects, setProjects] = useState<Project[]>([]);
+
+  const refresh = useCallback(async () => {
+    await projectPersistence.flush();
+    const stored = await CacheService.getAllProjects();
+    setProjects(stored.sort((a, b) => b.updatedAt - a.updatedAt));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // The in-memory copy of the open project is always the freshest one
+  const listedProjects = currentProject
+    ? [currentProject, ...projects.filter(p => p.id !== currentProject.id)]
+    : projects;
+
+  const loadProject = async (id: string): Promise<Project | null> => {
+    if (currentProject?.id === id) return currentProject;
+    return projectPersistence.load(id);
+  };
+
+  const switchProject = async (id: string) => {
+    if (currentProject?.id === id) return;
+    const project = await projectPersistence.load(id);
+    if (!project) return;
+    await projectPersistence.flush();
+    openProject(project);
+    await refresh();
+  };
+
+  const createProject = async (title?: string) => {
+    await projectPersistence.flush();
+    openProject(createEmptyProject(title));
+    await refresh();
+  };
+
+  const renameProject = async (id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+
+    if (currentProject?.id === id) {
+      setProjectTitle(trimmed);
+    } else {
+      const project = await CacheService.getProject(id);
+      if (!project) return;
+      await CacheService.saveProject({ ...project, title: trimmed, updatedAt: Date.now() });
+    }
+    await refresh();
+  };
+
+  const duplicateProject = async (id: string) => {
+    const project = await loadProject(id);
+    if (!project) return;
+
+    const copy: Project = {
+      ...structuredClone(project),
+      id: generateId(),
+      title: `${project.title} (copy)`,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+    // The copy shares blobs with the original, so it takes its own references
+    await AssetStore.retain(getProjectAssets(copy));
+    await CacheService.saveProject(copy);
+    await refresh();
+  };
+
+  const deleteProject = async (id: string) => {
+    projectPersistence.cancel(id);
+    const project = await loadProject(id);
+    await CacheService.deleteProject(id);
+    if (project) {
+      await AssetStore.release(getProjectAssets(project));
+    }
+
+    if (currentProject?.id === id) {
+      const remaining = (await CacheService.getAllProjects())
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+      openProject(remaining[0] ? await AssetStore.migrateProject(remaining[0]) : null);
+    }
+    await refresh();
+  };
+
+  const exportProject = async (id: string) => {
+    const project = await loadProject(id);
+    if (!project) return;
+
+    const archive = await ProjectArchive.exportProject(project);
+    const url = URL.createObjectURL(archive);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${project.title.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'project'}.zip`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Throws ProjectArchiveError for invalid archives so the caller can show why
+  const importProject = async (file: File) => {
+    await projectPersistence.flush();
+    const project = await ProjectArchive.importProject(file);
+    openProject(project);
+    await refresh();
+  };
+
+  return {
+    projects: listedProjects,
+    currentProjectId: currentProject?.id ?? null,
+    refresh,
+    switchProject,
+    createProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    exportProject,
+    importProject
+  };
+};
@@ -0,0 +1,42 @@
+import { useMutation } from '@tanstack/react-query';
+import { useAppStore } from '../store/useAppStore';
+import { ImageProcessor } from '../services/imageProcessing';
+import { loadImage } from '../utils/maskUtils';
+
+export interface SegmentTarget {
+  query?: string;
+  // Click position in image pixels
+  point?: { x: number; y: number };
+}
+
+// Selects objects on the canvas image with /api/segment and adds them to the mask
+export const useSegmentation = () => {
+  const { canvasImage, selectedModel, addBrushStroke } = useAppStore();
+
+  const segmentMutation = useMutation({
+    mutationFn: async ({ query, point }: SegmentTarget) => {
+      if (!canvasImage) throw new Error('No image to select from');
+      const { safetySettings } = useAppStore.getState();
+      const image = await loadImage(canvasImage);
+      const options = { query: query?.trim() || undefined, model: selectedModel, safetySettings };
+
+      const mask = point
+        ? await ImageProcessor.createMaskFromClick(image, point.x, point.y, options)
+        : await ImageProcessor.createMaskFromQuery(image, options.query ?? '', options);
+      if (!mask) throw new Error(query ? `Nothing found for "${query}"` : 'Nothing found at that point');
+      return mask;
+    },
+    onSuccess: (mask) => {
+      addBrushStroke(ImageProcessor.maskToStroke(mask));
+    },
+    onError: (error) => {
+      console.error('Segmentation failed:', error);
+    }
+  });
+
+  return {
+    segment: segmentMutation.mutate,
+    isSegmenting: segmentMutation.isPending,
+    error: segmentMutation.error
+  };
+};
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { serverEvents } from '../services/serverEvents';
+import { geminiService } from '../services/geminiService';
+import { ServerJob, ServerJobEvent, VideoOperationStatus } from '../types';
+
+const subscribeToConnection = (onChange: () => void) => serverEvents.onConnectionChange(onChange);
+const getConnected = () => serverEvents.isConnected();
+
+// Whether the live job stream is up; pollers fall back to intervals while it isn't
+export const useServerEventsConnected = () => useSyncExternalStore(subscribeToConnection, getConnected);
+
+// Listens to the job stream while the component is mounted; pass a stable callback
+export const useServerEvent = (listener: (event: ServerJobEvent) => void) => {
+  useEffect(() => serverEvents.subscribe(listener), [listener]);
+};
+
+const toVideoOperationStatus = (job: ServerJob): VideoOperationStatus => {
+  if (job.status === 'failed') {
+    return { done: true, state: 'FAILED', error: job.error || 'Video generation failed' };
+  }
+  if (job.status === 'succeeded') {
+    return { done: true, state: 'SUCCEEDED' };
+  }
+  return { done: false, state: 'RUNNING', progress: job.progress };
+};
+
+// Feeds pushed video job updates into the React Query caches read by useVideoOperationPolling
+export const useServerEvents = () => {
+  const queryClient = useQueryClient();
+
+  const handleEvent = useCallback(async (event: ServerJobEvent) => {
+    if (event.type === 'resync') {
+      queryClient.invalidateQueries({ queryKey: ['videoOperation'] });
+      return;
+    }
+    if (event.type === 'job-deleted' || event.job.kind !== 'video') return;
+
+    const { job } = event;
+    const statusKey = ['videoOperation', job.externalName];
+    // Only operations this tab is watching
+    if (!queryClient.getQueryCache().find({ queryKey: statusKey, exact: true })) return;
+
+    // A succeeded job isn't reported until the server has saved the video, so the
+    // result can be fetched straight from disk
+    if (job.status === 'succeeded') {
+      if (event.type !== 'job-complete') return;
+      await queryClient.prefetchQuery({
+        queryKey: ['videoResult', job.externalName],
+        queryFn: () => geminiService.getVideoOperationResult(job.externalName),
+        staleTime: Infinity,
+      });
+    }
+
+    queryClient.setQueryData(statusKey, toVideoOperationStatus(job));
+  }, [queryClient]);
+
+  useServerEvent(handleEvent);
+};
@@ -2,8 +2,12 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { geminiService, DEFAULT_VIDEO_MODEL, DEFAULT_VIDEO_ASPECT_RATIO, DEFAULT_VIDEO_RESOLUTION, DEFAULT_VIDEO_DURATION } from '../services/geminiService';
 import { VideoGenerateRequest } from '../services/apiService';
 import { useAppStore } from '../store/useAppStore';
+import { AssetStore } from '../services/assetStore';
+import { useServerEventsConnected } from './useServerEvents';
 import { generateId } from '../utils/imageUtils';
-import { VideoGeneration, VideoAsset, Asset } from '../types';
+import { estimateVideoCost } from '../utils/pricing';
+import { enforceBudget } from './useBudget';
+import { VideoGeneration } from '../types';
 import { useState, useEffect, useCallback } from 'react';
 
 // Helper to extract base64 data from a data URL with validation
@@ -37,6 +41,7 @@ export const useVideoGeneration = () => {
 
   const [operationName, setOperationName] = useState<string | null>(null);
   const [generationModel, setGenerationModel] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
 
   const generateMutation = useMutation({
     mutationFn: async (request: VideoGenerateRequest) => {
@@ -44,17 +49,21 @@ export const useVideoGeneration = () => {
       const startFrameBase64 = request.image ?? extractBase64(videoStartFrame);
       const lastFrameBase64 = request.lastFrame ?? extractBase64(videoLastFrame);
       const sourceVideoBase64 = request.video ?? extractBase64(videoSourceVideo);
+      const model = request.model ?? videoModel;
+      const durationSeconds = request.durationSeconds ?? videoDurationSetting;
+      enforceBudget(estimateVideoCost(model, durationSeconds));
 
       const response = await geminiService.generateVideo({
         ...request,
-        model: request.model ?? videoModel,
+        model,
         aspectRatio: request.aspectRatio ?? videoAspectRatio,
         resolution: request.resolution ?? videoResolution,
-        durationSeconds: request.durationSeconds ?? videoDurationSetting,
+        durationSeconds,
         negativePrompt: request.negativePrompt ?? (videoNegativePrompt || undefined),
         image: startFrameBase64,
         lastFrame: lastFrameBase64,
         video: sourceVideoBase64,
+        interactive: true,
       });
       return response;
     },
@@ -64,6 +73,7 @@ export const useVideoGeneration = () => {
     onSuccess: (response) => {
       setOperationName(response.operationName);
       setGenerationModel(response.model);
+      setJobId(response.jobId ?? null);
     },
     onError: (error) => {
       console.error('Video generation failed to start:', error);
@@ -74,6 +84,7 @@ export const useVideoGeneration = () => {
   const clearOperation = useCallback(() => {
     setOperationName(null);
     setGenerationModel(null);
+    setJobId(null);
   }, []);
 
   return {
@@ -81,6 +92,7 @@ export const useVideoGeneration = () => {
     isStarting: generateMutation.isPending,
     operationName,
     generationModel,
+    jobId,
     clearOperation,
     error: generateMutation.error
   };
@@ -94,6 +106,8 @@ export const useVideoOperationPolling = (
   onComplete?: () => void
 ) => {
   const queryClient = useQueryClient();
+  // Status arrives over the server event stream; poll only while it's down
+  const streamConnected = useServerEventsConnected();
 
   const statusQuery = useQuery({
     queryKey: ['videoOperation', operationName],
@@ -104,11 +118,10 @@ export const useVideoOperationPolling = (
     enabled: !!operationName,
     refetchInterval: (query) => {
       const data = query.state.data;
-      if (!data) return 5000;
-      if (data.state === 'SUCCEEDED' || data.state === 'FAILED') {
+      if (data?.state === 'SUCCEEDED' || data?.state === 'FAILED') {
         return false; // Stop polling
       }
-      return 5000; // Poll every 5 seconds
+      return streamConnected ? false : 5000; // Poll every 5 seconds
     },
   });
 
@@ -125,35 +138,31 @@ export const useVideoOperationPolling = (
 
   // Handle successful video generation
   useEffect(() => {
-    if (resultQuery.data && operationName && generationModel) {
+    const result = resultQuery.data;
+    if (!result || !operationName || !generationModel) return;
+
+    const saveResult = async () => {
       // Use getState() to avoid stale closures
       const {
         addVideoGeneration,
+        recordSpend,
         setCanvasVideo,
         setIsGenerating,
-        setCurrentProject,
-        currentProject,
         videoAspectRatio,
         videoResolution,
         videoDurationSetting,
       } = useAppStore.getState();
 
-      const result = resultQuery.data;
-
-      // Create video URL from base64
-      const videoUrl = `data:${result.mimeType};base64,${result.video}`;
-
-      // Create video asset
-      const videoAsset: VideoAsset = {
-        id: generateId(),
+      // Store the video blob and create its asset
+      const videoAsset = await AssetStore.createVideoAsset(result.video, {
         type: 'video_output',
-        url: videoUrl,
         mimeType: result.mimeType,
         width: result.width,
         height: result.height,
         duration: result.durationSeconds,
-        checksum: result.video.slice(0, 32),
-      };
+      });
+
+      const costEstimate = estimateVideoCost(generationModel, result.durationSeconds || videoDurationSetting);
 
       // Create video generation record
       const videoGeneration: VideoGeneration = {
@@ -167,33 +176,26 @@ export const useVideoOperationPolling = (
         outputAsset: videoAsset,
         modelVersion: generationModel,
         timestamp: Date.now(),
+        costEstimate,
       };
 
       // Update state
       addVideoGeneration(videoGeneration);
-      setCanvasVideo(videoUrl);
+      recordSpend(costEstimate);
+      setCanvasVideo(await AssetStore.resolveUrl(videoAsset));
       setIsGenerating(false);
 
-      // Create project if none exists
-      if (!currentProject) {
-        const newProject = {
-          id: generateId(),
-          title: 'Untitled Project',
-          generations: [],
-          edits: [],
-          videoGenerations: [videoGeneration],
-          createdAt: Date.now(),
-          updatedAt: Date.now()
-        };
-        setCurrentProject(newProject);
-      }
-
       // Invalidate the status query to prevent refetching
       queryClient.invalidateQueries({ queryKey: ['videoOperation', operationName] });
 
       // Call completion callback
       onComplete?.();
-    }
+    };
+
+    saveResult().catch((error) => {
+      console.error('Failed to save video result:', error);
+      useAppStore.getState().setIsGenerating(false);
+    });
   }, [resultQuery.data, operationName, generationModel, prompt, queryClient, onComplete]);
 
   // Handle failed video generation
@@ -226,6 +228,11 @@ export const useVideoGenerationWithPolling = () => {
     videoGeneration.generationModel,
     prompt,
     () => {
+      // Interactive jobs are collected right here, so the server registry doesn't need to
+      // offer them for recovery
+      if (videoGeneration.jobId) {
+        geminiService.deleteJob(videoGeneration.jobId).catch(() => undefined);
+      }
       videoGeneration.clearOperation();
       setPrompt('');
     }
@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import {
   GenerateRequest,
   EditRequest,
@@ -6,23 +7,68 @@ import {
   VideoGenerateRequest,
   VideoOperationStatus,
   VideoResult,
+  ServerJob,
+  ProviderModel,
+  ImageResponse,
+  UsageMetadata,
+  GeneratedImage,
 } from '../types';
+import {
+  generateRequestSchema,
+  editRequestSchema,
+  segmentRequestSchema,
+  videoGenerateRequestSchema,
+  toFieldErrors,
+  ApiErrorBody,
+  ApiErrorCode,
+  FieldError,
+} from '../types/schemas';
 
 // Re-export types for backward compatibility
 export type { GenerateRequest, EditRequest, SegmentRequest, SegmentResponse, VideoGenerateRequest, VideoOperationStatus, VideoResult };
 
 const API_BASE = '/api';
 
+// An error response from the API, or a request that failed the shared schema before it
+// was sent. Validation errors list each bad field, and the message summarises them.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    readonly fields: FieldError[] = []
+  ) {
+    super(fields.length > 0 ? `${message}: ${fields.map((f) => `${f.field} - ${f.message}`).join('; ')}` : message);
+    this.name = 'ApiError';
+  }
+}
+
 async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(error.error || 'Request failed');
+    const body: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+    throw new ApiError(body.error || 'Request failed', response.status, body.code ?? 'INTERNAL_ERROR', body.fields);
   }
   return response.json();
 }
 
+// Fails fast with the same VALIDATION_ERROR the server would return
+function validateRequest(schema: z.ZodType, request: unknown) {
+  const result = schema.safeParse(request);
+  if (!result.success) {
+    throw new ApiError('Invalid request', 400, 'VALIDATION_ERROR', toFieldErrors(result.error));
+  }
+}
+
 export const apiService = {
-  async generateImage(request: GenerateRequest): Promise<{ images: string[] }> {
+  async getModels(): Promise<{ models: ProviderModel[] }> {
+    const response = await fetch(`${API_BASE}/models`, {
+      method: 'GET',
+    });
+    return handleResponse(response);
+  },
+
+  async generateImage(request: GenerateRequest): Promise<ImageResponse> {
+    validateRequest(generateRequestSchema, request);
     const response = await fetch(`${API_BASE}/generate`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -31,7 +77,8 @@ export const apiService = {
     return handleResponse(response);
   },
 
-  async editImage(request: EditRequest): Promise<{ images: string[] }> {
+  async editImage(request: EditRequest): Promise<ImageResponse> {
+    validateRequest(editRequestSchema, request);
     const response = await fetch(`${API_BASE}/edit`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -41,6 +88,7 @@ export const apiService = {
   },
 
   async segmentImage(request: SegmentRequest): Promise<SegmentResponse> {
+    validateRequest(segmentRequestSchema, request);
     const response = await fetch(`${API_BASE}/segment`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -50,7 +98,8 @@ export const apiService = {
   },
 
   // Batch API methods
-  async submitBatchGenerate(request: GenerateRequest): Promise<{ batchName: string }> {
+  async submitBatchGenerate(request: GenerateRequest): Promise<{ batchName: string; jobId?: string }> {
+    validateRequest(generateRequestSchema, request);
     const response = await fetch(`${API_BASE}/batch/generate`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -59,7 +108,8 @@ export const apiService = {
     return handleResponse(response);
   },
 
-  async submitBatchEdit(request: EditRequest): Promise<{ batchName: string }> {
+  async submitBatchEdit(request: EditRequest): Promise<{ batchName: string; jobId?: string }> {
+    validateRequest(editRequestSchema, request);
     const response = await fetch(`${API_BASE}/batch/edit`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -75,14 +125,15 @@ export const apiService = {
     return handleResponse(response);
   },
 
-  async getBatchResults(batchName: string): Promise<{ images: string[] }> {
+  async getBatchResults(batchName: string): Promise<{ images: GeneratedImage[]; usage?: UsageMetadata }> {
     const response = await fetch(`${API_BASE}/batch/${encodeURIComponent(batchName)}/results`, {
       method: 'GET',
     });
     return handleResponse(response);
   },
 
-  async submitBatchSegment(request: SegmentRequest): Promise<{ batchName: string }> {
+  async submitBatchSegment(request: SegmentRequest): Promise<{ batchName: string; jobId?: string }> {
+    validateRequest(segmentRequestSchema, request);
     const response = await fetch(`${API_BASE}/batch/segment`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -92,7 +143,8 @@ export const apiService = {
   },
 
   // Video generation API methods
-  async generateVideo(request: VideoGenerateRequest): Promise<{ operationName: string; model: string }> {
+  async generateVideo(request: VideoGenerateRequest): Promise<{ operationName: string; model: string; jobId?: string }> {
+    validateRequest(videoGenerateRequestSchema, request);
     const response = await fetch(`${API_BASE}/video/generate`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -117,4 +169,26 @@ export const apiService = {
 
   // Note: Video generation does not support batch API.
   // Use generateVideo() which returns an operation name for polling.
+
+  // Server job registry
+  async listJobs(): Promise<{ jobs: ServerJob[] }> {
+    const response = await fetch(`${API_BASE}/jobs`, {
+      method: 'GET',
+    });
+    return handleResponse(response);
+  },
+
+  async getJob(id: string): Promise<ServerJob> {
+    const response = await fetch(`${API_BASE}/jobs/${encodeURIComponent(id)}`, {
+      method: 'GET',
+    });
+    return handleResponse(response);
+  },
+
+  async deleteJob(id: string): Promise<{ deleted: boolean }> {
+    const response = await fetch(`${API_BASE}/jobs/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+    return handleResponse(response);
+  },
 };
@@ -0,0 +1,173 @@
+import { Asset, VideoAsset, Project, Generation, Edit, VideoGeneration } from '../types';
+import { CacheService } from './cacheService';
+import { base64ToBlob, detectImageMime, generateId, getImageSize } from '../utils/imageUtils';
+
+type AnyAsset = Asset | VideoAsset;
+type AssetMapper = <T extends AnyAsset>(asset: T) => Promise<T>;
+
+// Every asset referenced by a history record
+export const getRecordAssets = (record: Generation | Edit | VideoGeneration): AnyAsset[] => {
+  const assets: (AnyAsset | undefined)[] = [];
+  if ('sourceAssets' in record) assets.push(...record.sourceAssets);
+  if ('outputAssets' in record) assets.push(...record.outputAssets);
+  if ('instruction' in record) assets.push(record.sourceAsset, record.maskReferenceAsset, ...(record.rawOutputAssets ?? []));
+  if ('outputAsset' in record) {
+    assets.push(record.startFrameAsset, record.lastFrameAsset, record.sourceVideoAsset, record.outputAsset);
+    assets.push(...(record.referenceAssets ?? []));
+  }
+  return assets.filter((asset): asset is AnyAsset => !!asset);
+};
+
+export const getProjectAssets = (project: Project): AnyAsset[] => [
+  ...project.generations.flatMap(getRecordAssets),
+  ...project.edits.flatMap(getRecordAssets),
+  ...(project.videoGenerations ?? []).flatMap(getRecordAssets),
+  ...(project.masks ?? []).map((mask) => mask.asset),
+];
+
+// The project's existing asset with the same content and role, if any. New assets are
+// swapped for it so identical references and outputs don't pile up as separate copies;
+// blob reference counts are unaffected, since the new use holds a reference either way.
+export const findMatchingAsset = (project: Project | null, asset: Asset): Asset | undefined =>
+  project
+    ? getProjectAssets(project).find((existing): existing is Asset =>
+      existing.type === asset.type && existing.checksum === asset.checksum && existing.id !== asset.id)
+    : undefined;
+
+const mapOptional = async <T extends AnyAsset>(asset: T | undefined, fn: AssetMapper) =>
+  asset ? fn(asset) : undefined;
+
+// Rebuilds a project with every asset passed through `fn`
+export const mapProjectAssets = async (project: Project, fn: AssetMapper): Promise<Project> => ({
+  ...project,
+  generations: await Promise.all(project.generations.map(async (generation) => ({
+    ...generation,
+    sourceAssets: await Promise.all(generation.sourceAssets.map(fn)),
+    outputAssets: await Promise.all(generation.outputAssets.map(fn)),
+  }))),
+  edits: await Promise.all(project.edits.map(async (edit) => ({
+    ...edit,
+    outputAssets: await Promise.all(edit.outputAssets.map(fn)),
+    rawOutputAssets: edit.rawOutputAssets && await Promise.all(edit.rawOutputAssets.map(fn)),
+    sourceAsset: await mapOptional(edit.sourceAsset, fn),
+    maskReferenceAsset: await mapOptional(edit.maskReferenceAsset, fn),
+  }))),
+  videoGenerations: await Promise.all((project.videoGenerations ?? []).map(async (video) => ({
+    ...video,
+    startFrameAsset: await mapOptional(video.startFrameAsset, fn),
+    lastFrameAsset: await mapOptional(video.lastFrameAsset, fn),
+    referenceAssets: video.referenceAssets && await Promise.all(video.referenceAssets.map(fn)),
+    sourceVideoAsset: await mapOptional(video.sourceVideoAsset, fn),
+    outputAsset: await mapOptional(video.outputAsset, fn),
+  }))),
+  masks: project.masks && await Promise.all(project.masks.map(async (mask) => ({
+    ...mask,
+    asset: await fn(mask.asset),
+  }))),
+});
+
+// Content-addressed blob storage for assets. Projects only hold blob IDs; object URLs
+// are created on first use and blobs are deleted once no project references them.
+export class AssetStore {
+  private static objectUrls = new Map<string, string>();
+
+  static async hashBlob(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Stores the blob (once per distinct content) and takes a reference on it
+  static async putBlob(blob: Blob): Promise<string> {
+    const blobId = await this.hashBlob(blob);
+    await this.storeBlob(blobId, blob);
+    return blobId;
+  }
+
+  // Same as putBlob for callers that already know (and have verified) the hash
+  static async storeBlob(blobId: string, blob: Blob): Promise<void> {
+    await CacheService.cacheAsset(blobId, blob);
+  }
+
+  static async getBlob(blobId: string): Promise<Blob | null> {
+    const cached = await CacheService.getCachedAsset(blobId);
+    return cached?.data ?? null;
+  }
+
+  // Stores an image with the format and pixel size read from the data itself. `mimeType`
+  // (e.g. what the API reported) is only used when the format isn't recognised.
+  static async createImageAsset(base64: string, type: Asset['type'], mimeType = 'image/png'): Promise<Asset> {
+    const blob = base64ToBlob(base64, detectImageMime(base64) ?? mimeType);
+    const { width, height } = await getImageSize(blob);
+    const blobId = await this.putBlob(blob);
+    return { id: generateId(), type, blobId, mime: blob.type, width, height, checksum: blobId };
+  }
+
+  static async createVideoAsset(base64: string, fields: Omit<VideoAsset, 'id' | 'blobId' | 'checksum'>): Promise<VideoAsset> {
+    const blobId = await this.putBlob(base64ToBlob(base64, fields.mimeType));
+    return { ...fields, id: generateId(), blobId, checksum: blobId };
+  }
+
+  static async retain(assets: AnyAsset[]): Promise<void> {
+    for (const asset of assets) {
+      if (asset.blobId) {
+        await CacheService.updateAssetRefCount(asset.blobId, 1);
+      }
+    }
+  }
+
+  static async release(assets: AnyAsset[]): Promise<void> {
+    for (const asset of assets) {
+      if (!asset.blobId) continue;
+      const remaining = await CacheService.updateAssetRefCount(asset.blobId, -1);
+      if (remaining === 0) {
+        const url = this.objectUrls.get(asset.blobId);
+        if (url) URL.revokeObjectURL(url);
+        this.objectUrls.delete(asset.blobId);
+      }
+    }
+  }
+
+  // Synchronous lookup for already-resolved URLs, so renders don't flicker
+  static peekUrl(asset: Pick<AnyAsset, 'blobId' | 'url'>): string | null {
+    return (asset.blobId && this.objectUrls.get(asset.blobId)) || asset.url || null;
+  }
+
+  static async resolveUrl(asset: Pick<AnyAsset, 'blobId' | 'url'>): Promise<string | null> {
+    const known = this.peekUrl(asset);
+    if (known || !asset.blobId) return known;
+
+    const blob = await this.getBlob(asset.blobId);
+    if (!blob) return null;
+
+    // Another caller may have resolved it while we were reading IndexedDB
+    const existing = this.objectUrls.get(asset.blobId);
+    if (existing) return existing;
+
+    const url = URL.createObjectURL(blob);
+    this.objectUrls.set(asset.blobId, url);
+    return url;
+  }
+
+  static async resolveUrls(assets: Pick<AnyAsset, 'blobId' | 'url'>[]): Promise<string[]> {
+    const urls = await Promise.all(assets.map((asset) => this.resolveUrl(asset)));
+    return urls.filter((url): url is string => !!url);
+  }
+
+  // Moves inline data URLs from projects saved before blob storage into the store, and
+  // replaces checksums from before they were content hashes (the first 32 base64 chars)
+  static async migrateProject(project: Project): Promise<Project> {
+    const needsMigration = getProjectAssets(project).some((asset) =>
+      (!asset.blobId && asset.url?.startsWith('data:')) || (asset.blobId && asset.checksum !== asset.blobId)
+    );
+    if (!needsMigration) return project;
+
+    return mapProjectAssets(project, async (asset) => {
+      if (asset.blobId) return asset.checksum === asset.blobId ? asset : { ...asset, checksum: asset.blobId };
+      if (!asset.url?.startsWith('data:')) return asset;
+      const [header, base64] = asset.url.split('base64,');
+      const mime = header.slice('data:'.length).replace(/;$/, '') || 'application/octet-stream';
+      const blobId = await this.putBlob(base64ToBlob(base64, mime));
+      return { ...asset, blobId, checksum: blobId, url: undefined };
+    });
+  }
+}
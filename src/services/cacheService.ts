@@ -1,9 +1,16 @@
-import { get, set, del, keys } from 'idb-keyval';
-import { Project, Generation, Asset, BatchQueueRequest, VideoBatchQueueRequest, VideoGeneration } from '../types';
+import { get, set, del, keys, update } from 'idb-keyval';
+import { Project, Generation, BatchQueueRequest, VideoBatchQueueRequest, VideoGeneration, BudgetSettings } from '../types';
 
 const CACHE_PREFIX = 'nano-banana';
 const CACHE_VERSION = '1.0';
 
+export interface CachedAssetBlob {
+  data: Blob;
+  mime: string;
+  refCount: number;
+  cachedAt: number;
+}
+
 export class CacheService {
   private static getKey(type: string, id: string): string {
     return `${CACHE_PREFIX}-${CACHE_VERSION}-${type}-${id}`;
@@ -31,20 +38,72 @@ export class CacheService {
     return projects.filter(Boolean) as Project[];
   }
 
-  // Asset caching (for offline access)
-  static async cacheAsset(asset: Asset, data: Blob): Promise<void> {
-    await set(this.getKey('asset', asset.id), {
-      asset,
-      data,
+  static async deleteProject(id: string): Promise<void> {
+    await del(this.getKey('project', id));
+  }
+
+  // Remembers which project was open so it can be restored on reload
+  static async setActiveProjectId(id: string | null): Promise<void> {
+    if (id) {
+      await set(this.getKey('settings', 'active-project'), id);
+    } else {
+      await del(this.getKey('settings', 'active-project'));
+    }
+  }
+
+  static async getActiveProjectId(): Promise<string | null> {
+    return (await get(this.getKey('settings', 'active-project'))) || null;
+  }
+
+  static async getBudgetSettings(): Promise<BudgetSettings | null> {
+    return (await get(this.getKey('settings', 'budget'))) || null;
+  }
+
+  static async saveBudgetSettings(settings: BudgetSettings): Promise<void> {
+    await set(this.getKey('settings', 'budget'), settings);
+  }
+
+  // Estimated spend per calendar day across all projects, including deleted ones
+  static async getDailySpend(day: string): Promise<number> {
+    return (await get<number>(this.getKey('spend', day))) ?? 0;
+  }
+
+  static async addDailySpend(day: string, amount: number): Promise<number> {
+    let total = amount;
+    await update<number>(this.getKey('spend', day), (existing) => (total = (existing ?? 0) + amount));
+    return total;
+  }
+
+  // Asset blob caching, keyed by content hash (see AssetStore)
+  static async cacheAsset(blobId: string, data: Blob): Promise<void> {
+    await update<CachedAssetBlob>(this.getKey('asset', blobId), (existing) => ({
+      data: existing?.data ?? data,
+      mime: existing?.mime ?? data.type,
+      refCount: (existing?.refCount ?? 0) + 1,
       cachedAt: Date.now()
-    });
+    }));
   }
 
-  static async getCachedAsset(assetId: string): Promise<{ asset: Asset; data: Blob } | null> {
-    const cached = await get(this.getKey('asset', assetId));
+  static async getCachedAsset(blobId: string): Promise<CachedAssetBlob | null> {
+    const cached = await get(this.getKey('asset', blobId));
     return cached || null;
   }
 
+  // Adjusts an asset's reference count; returns the new count (0 once the blob is deleted)
+  static async updateAssetRefCount(blobId: string, delta: number): Promise<number> {
+    const key = this.getKey('asset', blobId);
+    let refCount = 0;
+    await update<CachedAssetBlob | undefined>(key, (existing) => {
+      if (!existing) return existing;
+      refCount = Math.max(0, existing.refCount + delta);
+      return { ...existing, refCount };
+    });
+    if (refCount === 0) {
+      await del(key);
+    }
+    return refCount;
+  }
+
   // Generation metadata caching
   static async cacheGeneration(generation: Generation): Promise<void> {
     await set(this.getKey('generation', generation.id), generation);
@@ -62,7 +121,8 @@ export class CacheService {
     for (const key of allKeys) {
       if (typeof key === 'string' && key.startsWith(CACHE_PREFIX)) {
         const cached = await get(key);
-        if (cached?.cachedAt && (now - cached.cachedAt) > maxAge) {
+        // Blobs still referenced by a project are never expired
+        if (cached?.cachedAt && !cached.refCount && (now - cached.cachedAt) > maxAge) {
           await del(key);
         }
       }
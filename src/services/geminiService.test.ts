@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { geminiService } from './geminiService';
+import { editRequestSchema } from '../types/schemas';
+import { compileEditRequests } from '../../server/providers/geminiRequest';
+
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('geminiService.editImage', () => {
+  it('sends expand requests to the outpainting prompt', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ images: [] })));
+    vi.stubGlobal('fetch', fetch);
+
+    await geminiService.editImage({
+      instruction: 'More beach',
+      originalImage: PNG,
+      maskImage: PNG,
+      mode: 'outpaint',
+    });
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('/api/edit');
+    // What the server's provider receives after validating the body
+    const body = editRequestSchema.parse(JSON.parse(init.body));
+    expect(body.mode).toBe('outpaint');
+
+    const { model } = body;
+    expect(model).toBeDefined();
+    if (!model) return;
+    const [request] = compileEditRequests({ ...body, model });
+    expect(request.contents[0].parts?.[0].text).toContain('Extend this image outward');
+  });
+});
@@ -10,16 +10,19 @@ import {
   EditRequest,
   SegmentRequest,
   SegmentResponse,
+  ServerJob,
+  ProviderModel,
+  ImageResponse,
+  GenerationFeedback,
+  UsageMetadata,
+  GeneratedImage,
   DEFAULT_SAFETY_SETTINGS,
 } from '../types';
-import { apiService, VideoGenerateRequest, VideoOperationStatus, VideoResult } from './apiService';
+import { describeFeedback } from '../utils/generationFeedback';
+import { apiService, ApiError, VideoGenerateRequest, VideoOperationStatus, VideoResult } from './apiService';
 
-export const MODEL_OPTIONS = [
-  { name: 'Nano Banana Pro', model: 'gemini-3-pro-image-preview' },
-  { name: 'Nano Banana', model: 'gemini-2.5-flash-image' },
-] as const;
-
-export const DEFAULT_MODEL = MODEL_OPTIONS[0].model;
+// Sent when a request names no model; the pickers list what the server offers (see useModelOptions)
+export const DEFAULT_MODEL = 'gemini-3-pro-image-preview';
 export const DEFAULT_ASPECT_RATIO: AspectRatio = 'auto';
 export const DEFAULT_RESOLUTION_TIER: ResolutionTier = '1K';
 
@@ -86,13 +89,6 @@ export const MODEL_RESOLUTIONS: Record<string, ResolutionMap> = {
 };
 
 // Video generation constants
-export const VIDEO_MODEL_OPTIONS: { name: string; model: VideoModel }[] = [
-  { name: 'Veo 3.1', model: 'veo-3.1-generate-preview' },
-  { name: 'Veo 3.1 Fast', model: 'veo-3.1-fast-generate-preview' },
-  { name: 'Veo 3.0', model: 'veo-3.0-generate-001' },
-  { name: 'Veo 3.0 Fast', model: 'veo-3.0-fast-generate-001' },
-];
-
 export const DEFAULT_VIDEO_MODEL: VideoModel = 'veo-3.0-generate-001';
 export const DEFAULT_VIDEO_ASPECT_RATIO: VideoAspectRatio = '16:9';
 export const DEFAULT_VIDEO_RESOLUTION: VideoResolution = '720p';
@@ -106,10 +102,34 @@ export const VIDEO_DURATIONS: VideoDuration[] = [4, 6, 8];
 export type GenerationRequest = GenerateRequest;
 export type SegmentationRequest = SegmentRequest;
 
+// API errors keep their code and field details; anything else (network failures and the
+// like) becomes a generic message
+function toServiceError(error: unknown, message: string): Error {
+  return error instanceof ApiError ? error : new Error(message);
+}
+
+// A request that went through but produced no images (blocked, or a text-only reply)
+export class NoImagesError extends Error {
+  constructor(readonly feedback?: GenerationFeedback) {
+    super(describeFeedback(feedback));
+    this.name = 'NoImagesError';
+  }
+}
+
 export class GeminiService {
-  async generateImage(request: GenerateRequest): Promise<string[]> {
+  async listModels(): Promise<ProviderModel[]> {
+    try {
+      const response = await apiService.getModels();
+      return response.models;
+    } catch (error) {
+      console.error('Error listing models:', error);
+      throw toServiceError(error, 'Failed to load available models.');
+    }
+  }
+
+  async generateImage(request: GenerateRequest): Promise<ImageResponse> {
     try {
-      const response = await apiService.generateImage({
+      return await apiService.generateImage({
         prompt: request.prompt,
         referenceImages: request.referenceImages,
         temperature: request.temperature,
@@ -120,20 +140,21 @@ export class GeminiService {
         aspectRatio: request.aspectRatio,
         resolutionTier: request.resolutionTier,
       });
-      return response.images;
     } catch (error) {
       console.error('Error generating image:', error);
-      throw new Error('Failed to generate image. Please try again.');
+      throw toServiceError(error, 'Failed to generate image. Please try again.');
     }
   }
 
-  async editImage(request: EditRequest): Promise<string[]> {
+  async editImage(request: EditRequest): Promise<ImageResponse> {
     try {
-      const response = await apiService.editImage({
+      return await apiService.editImage({
         instruction: request.instruction,
         originalImage: request.originalImage,
+        history: request.history,
         referenceImages: request.referenceImages,
         maskImage: request.maskImage,
+        mode: request.mode,
         temperature: request.temperature,
         seed: request.seed,
         variantCount: request.variantCount,
@@ -142,10 +163,9 @@ export class GeminiService {
         aspectRatio: request.aspectRatio,
         resolutionTier: request.resolutionTier,
       });
-      return response.images;
     } catch (error) {
       console.error('Error editing image:', error);
-      throw new Error('Failed to edit image. Please try again.');
+      throw toServiceError(error, 'Failed to edit image. Please try again.');
     }
   }
 
@@ -153,6 +173,7 @@ export class GeminiService {
     try {
       return await apiService.segmentImage({
         query: request.query,
+        point: request.point,
         image: request.image,
         maskImage: request.maskImage,
         temperature: request.temperature,
@@ -164,12 +185,12 @@ export class GeminiService {
       });
     } catch (error) {
       console.error('Error segmenting image:', error);
-      throw new Error('Failed to segment image. Please try again.');
+      throw toServiceError(error, 'Failed to segment image. Please try again.');
     }
   }
 
   // Batch API methods
-  async submitBatchRequest(request: GenerationRequest): Promise<{ batchName: string }> {
+  async submitBatchRequest(request: GenerationRequest): Promise<{ batchName: string; jobId?: string }> {
     try {
       return await apiService.submitBatchGenerate({
         prompt: request.prompt,
@@ -181,14 +202,15 @@ export class GeminiService {
         safetySettings: request.safetySettings ?? DEFAULT_SAFETY_SETTINGS,
         aspectRatio: request.aspectRatio,
         resolutionTier: request.resolutionTier,
+        clientRequestId: request.clientRequestId,
       });
     } catch (error) {
       console.error('Error submitting batch request:', error);
-      throw new Error('Failed to submit batch request. Please try again.');
+      throw toServiceError(error, 'Failed to submit batch request. Please try again.');
     }
   }
 
-  async submitBatchEditRequest(request: EditRequest): Promise<{ batchName: string }> {
+  async submitBatchEditRequest(request: EditRequest): Promise<{ batchName: string; jobId?: string }> {
     try {
       return await apiService.submitBatchEdit({
         instruction: request.instruction,
@@ -202,10 +224,11 @@ export class GeminiService {
         safetySettings: request.safetySettings ?? DEFAULT_SAFETY_SETTINGS,
         aspectRatio: request.aspectRatio,
         resolutionTier: request.resolutionTier,
+        clientRequestId: request.clientRequestId,
       });
     } catch (error) {
       console.error('Error submitting batch edit request:', error);
-      throw new Error('Failed to submit batch edit request. Please try again.');
+      throw toServiceError(error, 'Failed to submit batch edit request. Please try again.');
     }
   }
 
@@ -217,21 +240,20 @@ export class GeminiService {
       return await apiService.getBatchStatus(batchName);
     } catch (error) {
       console.error('Error getting batch status:', error);
-      throw new Error('Failed to get batch status.');
+      throw toServiceError(error, 'Failed to get batch status.');
     }
   }
 
-  async getBatchResults(batchName: string): Promise<string[]> {
+  async getBatchResults(batchName: string): Promise<{ images: GeneratedImage[]; usage?: UsageMetadata }> {
     try {
-      const response = await apiService.getBatchResults(batchName);
-      return response.images;
+      return await apiService.getBatchResults(batchName);
     } catch (error) {
       console.error('Error getting batch results:', error);
-      throw new Error('Failed to get batch results.');
+      throw toServiceError(error, 'Failed to get batch results.');
     }
   }
 
-  async submitBatchSegmentRequest(request: SegmentationRequest): Promise<{ batchName: string }> {
+  async submitBatchSegmentRequest(request: SegmentationRequest): Promise<{ batchName: string; jobId?: string }> {
     try {
       return await apiService.submitBatchSegment({
         query: request.query,
@@ -246,12 +268,12 @@ export class GeminiService {
       });
     } catch (error) {
       console.error('Error submitting batch segmentation request:', error);
-      throw new Error('Failed to submit batch segmentation request. Please try again.');
+      throw toServiceError(error, 'Failed to submit batch segmentation request. Please try again.');
     }
   }
 
   // Video generation methods
-  async generateVideo(request: VideoGenerateRequest): Promise<{ operationName: string; model: string }> {
+  async generateVideo(request: VideoGenerateRequest): Promise<{ operationName: string; model: string; jobId?: string }> {
     try {
       return await apiService.generateVideo({
         ...request,
@@ -262,7 +284,7 @@ export class GeminiService {
       });
     } catch (error) {
       console.error('Error generating video:', error);
-      throw new Error('Failed to start video generation. Please try again.');
+      throw toServiceError(error, 'Failed to start video generation. Please try again.');
     }
   }
 
@@ -271,7 +293,7 @@ export class GeminiService {
       return await apiService.getVideoOperationStatus(operationName);
     } catch (error) {
       console.error('Error getting video operation status:', error);
-      throw new Error('Failed to get video operation status.');
+      throw toServiceError(error, 'Failed to get video operation status.');
     }
   }
 
@@ -280,13 +302,33 @@ export class GeminiService {
       return await apiService.getVideoOperationResult(operationName);
     } catch (error) {
       console.error('Error getting video result:', error);
-      throw new Error('Failed to get video result.');
+      throw toServiceError(error, 'Failed to get video result.');
     }
   }
 
   // Note: Video generation does not support batch API like images do.
   // Video generation is inherently async - use generateVideo() and poll with
   // getVideoOperationStatus() / getVideoOperationResult().
+
+  // Server job registry
+  async listJobs(): Promise<ServerJob[]> {
+    try {
+      const response = await apiService.listJobs();
+      return response.jobs;
+    } catch (error) {
+      console.error('Error listing server jobs:', error);
+      throw toServiceError(error, 'Failed to list server jobs.');
+    }
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    try {
+      await apiService.deleteJob(id);
+    } catch (error) {
+      console.error('Error deleting server job:', error);
+      throw toServiceError(error, 'Failed to delete server job.');
+    }
+  }
 }
 
 export const geminiService = new GeminiService();
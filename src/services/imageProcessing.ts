@@ -1,51 +1,128 @@
-import { SegmentationMask } from '../types';
-import { generateId } from '../utils/imageUtils';
+import { BrushStroke, SafetySetting, SegmentMask, SegmentationMask } from '../types';
+import { createImageFromBase64, generateId } from '../utils/imageUtils';
+import { geminiService } from './geminiService';
+
+export interface SegmentOptions {
+  query?: string;
+  model?: string;
+  safetySettings?: SafetySetting[];
+}
+
+// Masks come back as probability maps; above this counts as selected
+const MASK_THRESHOLD = 127;
 
 export class ImageProcessor {
-  // Interactive segmentation using click point
+  // Interactive segmentation using click point, in image pixels. A query narrows down
+  // what to select there.
   static async createMaskFromClick(
-    image: HTMLImageElement, 
-    x: number, 
-    y: number
-  ): Promise<SegmentationMask> {
-    // Simulate mask creation - in production this would use MediaPipe
+    image: HTMLImageElement,
+    x: number,
+    y: number,
+    options: SegmentOptions = {}
+  ): Promise<SegmentationMask | null> {
+    const point: [number, number] = [
+      Math.round((y / image.height) * 1000),
+      Math.round((x / image.width) * 1000),
+    ];
+    return this.segment(image, { ...options, point });
+  }
+
+  // Selects everything matching a text query
+  static async createMaskFromQuery(
+    image: HTMLImageElement,
+    query: string,
+    options: Omit<SegmentOptions, 'query'> = {}
+  ): Promise<SegmentationMask | null> {
+    return this.segment(image, { ...options, query });
+  }
+
+  private static async segment(
+    image: HTMLImageElement,
+    request: SegmentOptions & { point?: [number, number] }
+  ): Promise<SegmentationMask | null> {
+    // Re-encoded as PNG, the format the server labels images with
     const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
     canvas.width = image.width;
     canvas.height = image.height;
+    canvas.getContext('2d')!.drawImage(image, 0, 0);
 
-    // Draw the image
-    ctx.drawImage(image, 0, 0);
-    
-    // Create a simple circular mask for demo
-    const radius = 50;
-    const maskCanvas = document.createElement('canvas');
-    const maskCtx = maskCanvas.getContext('2d')!;
-    maskCanvas.width = image.width;
-    maskCanvas.height = image.height;
-    
-    // Fill with black (background)
-    maskCtx.fillStyle = 'black';
-    maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
-    
-    // Draw white circle (selected region)
-    maskCtx.fillStyle = 'white';
-    maskCtx.beginPath();
-    maskCtx.arc(x, y, radius, 0, 2 * Math.PI);
-    maskCtx.fill();
+    const { masks } = await geminiService.segmentImage({
+      ...request,
+      image: canvas.toDataURL('image/png').split(',')[1],
+    });
+    return this.rasterizeSegmentation(masks, image.width, image.height);
+  }
 
-    const imageData = maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height);
+  // Merges segmentation results into one white-on-black mask at the image's resolution.
+  // Each box_2d is [ymin, xmin, ymax, xmax] out of 1000 and its mask covers just the box;
+  // boxes without a mask are selected whole.
+  static async rasterizeSegmentation(
+    masks: SegmentMask[],
+    width: number,
+    height: number
+  ): Promise<SegmentationMask | null> {
+    if (masks.length === 0) return null;
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    canvas.width = width;
+    canvas.height = height;
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, width, height);
+    const imageData = ctx.getImageData(0, 0, width, height);
+
+    // Union of the boxes, as [left, top, right, bottom]
+    let union: [number, number, number, number] | null = null;
+    for (const { box_2d, mask } of masks) {
+      const [ymin, xmin, ymax, xmax] = box_2d;
+      const left = Math.max(0, Math.round((xmin / 1000) * width));
+      const top = Math.max(0, Math.round((ymin / 1000) * height));
+      const boxWidth = Math.min(width, Math.round((xmax / 1000) * width)) - left;
+      const boxHeight = Math.min(height, Math.round((ymax / 1000) * height)) - top;
+      if (boxWidth <= 0 || boxHeight <= 0) continue;
+
+      // The probability map, resampled to the box
+      let probabilities: Uint8ClampedArray | null = null;
+      if (mask) {
+        const maskImage = await createImageFromBase64(mask.replace(/^data:[^,]*,/, ''));
+        const boxCanvas = document.createElement('canvas');
+        const boxCtx = boxCanvas.getContext('2d', { willReadFrequently: true })!;
+        boxCanvas.width = boxWidth;
+        boxCanvas.height = boxHeight;
+        boxCtx.drawImage(maskImage, 0, 0, boxWidth, boxHeight);
+        probabilities = boxCtx.getImageData(0, 0, boxWidth, boxHeight).data;
+      }
+
+      for (let y = 0; y < boxHeight; y++) {
+        for (let x = 0; x < boxWidth; x++) {
+          if (probabilities && probabilities[(y * boxWidth + x) * 4] <= MASK_THRESHOLD) continue;
+          const idx = ((top + y) * width + left + x) * 4;
+          imageData.data[idx] = imageData.data[idx + 1] = imageData.data[idx + 2] = 255;
+        }
+      }
+
+      union = union
+        ? [Math.min(union[0], left), Math.min(union[1], top), Math.max(union[2], left + boxWidth), Math.max(union[3], top + boxHeight)]
+        : [left, top, left + boxWidth, top + boxHeight];
+    }
+    if (!union) return null;
 
     return {
       id: generateId(),
       imageData,
-      bounds: {
-        x: Math.max(0, x - radius),
-        y: Math.max(0, y - radius),
-        width: radius * 2,
-        height: radius * 2
-      },
-      feather: 5
+      bounds: { x: union[0], y: union[1], width: union[2] - union[0], height: union[3] - union[1] },
+      feather: 0
+    };
+  }
+
+  // A selection as a stroke, so it joins the brush strokes that make up the edit mask
+  static maskToStroke(mask: SegmentationMask): BrushStroke {
+    return {
+      id: `stroke-${mask.id}`,
+      points: [],
+      brushSize: 0,
+      color: '#A855F7',
+      bitmap: this.imageDataToBase64(mask.imageData),
     };
   }
 
@@ -62,6 +139,64 @@ export class ImageProcessor {
     return new ImageData(data, imageData.width, imageData.height);
   }
 
+  // Grow the mask's alpha by `radius` pixels, or shrink it when negative
+  static growMask(imageData: ImageData, radius: number): ImageData {
+    const { width, height } = imageData;
+    const data = new Uint8ClampedArray(imageData.data);
+    if (radius === 0) return new ImageData(data, width, height);
+
+    // Distance from each pixel to the nearest one on the other side of the edge
+    const growing = radius > 0;
+    const outside = new Uint8Array(width * height);
+    for (let i = 0; i < outside.length; i++) {
+      outside[i] = (data[i * 4 + 3] > MASK_THRESHOLD) === growing ? 0 : 1;
+    }
+    const distance = this.distanceTransform(outside, width, height);
+
+    const limit = Math.abs(radius);
+    for (let i = 0; i < distance.length; i++) {
+      if (distance[i] <= limit) data[i * 4 + 3] = growing ? 255 : 0;
+    }
+    return new ImageData(data, width, height);
+  }
+
+  // Approximate euclidean distance from each flagged pixel to the nearest unflagged one
+  // (two-pass 3-4 chamfer)
+  private static distanceTransform(flagged: Uint8Array, width: number, height: number): Float32Array {
+    const distance = new Float32Array(width * height);
+    for (let i = 0; i < distance.length; i++) distance[i] = flagged[i] ? Infinity : 0;
+
+    const relax = (i: number, x: number, y: number, cost: number) => {
+      if (x < 0 || x >= width || y < 0 || y >= height) return;
+      const candidate = distance[y * width + x] + cost;
+      if (candidate < distance[i]) distance[i] = candidate;
+    };
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        if (distance[i] === 0) continue;
+        relax(i, x - 1, y, 3);
+        relax(i, x - 1, y - 1, 4);
+        relax(i, x, y - 1, 3);
+        relax(i, x + 1, y - 1, 4);
+      }
+    }
+    for (let y = height - 1; y >= 0; y--) {
+      for (let x = width - 1; x >= 0; x--) {
+        const i = y * width + x;
+        if (distance[i] === 0) continue;
+        relax(i, x + 1, y, 3);
+        relax(i, x + 1, y + 1, 4);
+        relax(i, x, y + 1, 3);
+        relax(i, x - 1, y + 1, 4);
+      }
+    }
+
+    for (let i = 0; i < distance.length; i++) distance[i] /= 3;
+    return distance;
+  }
+
   private static boxBlur(data: Uint8ClampedArray, width: number, height: number) {
     const temp = new Uint8ClampedArray(data);
     
@@ -71,9 +206,9 @@ export class ImageProcessor {
         
         // Average the alpha channel (mask channel)
         const sum = 
+          temp[idx - width * 4 - 4 + 3] + temp[idx - width * 4 + 3] + temp[idx - width * 4 + 4 + 3] +
           temp[idx - 4 + 3] + temp[idx + 3] + temp[idx + 4 + 3] +
-          temp[idx - width * 4 + 3] + temp[idx + 3] + temp[idx + width * 4 + 3] +
-          temp[idx - width * 4 - 4 + 3] + temp[idx - width * 4 + 4 + 3] + temp[idx + width * 4 - 4 + 3];
+          temp[idx + width * 4 - 4 + 3] + temp[idx + width * 4 + 3] + temp[idx + width * 4 + 4 + 3];
         
         data[idx + 3] = sum / 9;
       }
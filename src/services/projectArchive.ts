@@ -0,0 +1,161 @@
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable } from 'fflate';
+import { Project, Asset, VideoAsset } from '../types';
+import { AssetStore, getProjectAssets } from './assetStore';
+import { CacheService } from './cacheService';
+import { generateId, getFileExtension } from '../utils/imageUtils';
+
+export const ARCHIVE_FORMAT = 'nano-banana-project';
+export const ARCHIVE_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const ASSET_DIR = 'assets';
+
+interface ArchiveAssetEntry {
+  path: string;
+  mime: string;
+  size: number;
+}
+
+export interface ProjectArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  project: Project;
+  // Keyed by blob ID, which is the SHA-256 of the file contents
+  assets: Record<string, ArchiveAssetEntry>;
+}
+
+export class ProjectArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectArchiveError';
+  }
+}
+
+const getAssetMime = (asset: Asset | VideoAsset) => ('mime' in asset ? asset.mime : asset.mimeType);
+
+const isProjectLike = (value: unknown): value is Project => {
+  if (!value || typeof value !== 'object') return false;
+  const project = value as Partial<Project>;
+  return typeof project.id === 'string'
+    && typeof project.title === 'string'
+    && Array.isArray(project.generations)
+    && Array.isArray(project.edits)
+    && (project.videoGenerations === undefined || Array.isArray(project.videoGenerations));
+};
+
+// Zip archive of a project: manifest.json plus every referenced image/video under assets/
+export class ProjectArchive {
+  static async exportProject(source: Project): Promise<Blob> {
+    const project = await AssetStore.migrateProject(source);
+    const files: Zippable = {};
+    const assets: Record<string, ArchiveAssetEntry> = {};
+
+    for (const asset of getProjectAssets(project)) {
+      if (assets[asset.blobId]) continue;
+
+      const blob = await AssetStore.getBlob(asset.blobId);
+      if (!blob) {
+        throw new ProjectArchiveError(`Asset ${asset.id} is missing from local storage and can't be exported.`);
+      }
+
+      const mime = getAssetMime(asset);
+      const path = `${ASSET_DIR}/${asset.blobId}.${getFileExtension(mime)}`;
+      // Images and videos are already compressed
+      files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+      assets[asset.blobId] = { path, mime, size: blob.size };
+    }
+
+    const manifest: ProjectArchiveManifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: Date.now(),
+      project,
+      assets
+    };
+    files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+    return new Blob([zipSync(files)], { type: 'application/zip' });
+  }
+
+  private static readManifest(entries: Record<string, Uint8Array>): ProjectArchiveManifest {
+    const manifestData = entries[MANIFEST_PATH];
+    if (!manifestData) {
+      throw new ProjectArchiveError('The archive has no manifest.json.');
+    }
+
+    let manifest: Partial<ProjectArchiveManifest>;
+    try {
+      manifest = JSON.parse(strFromU8(manifestData));
+    } catch {
+      throw new ProjectArchiveError('The archive manifest is not valid JSON.');
+    }
+
+    if (manifest.format !== ARCHIVE_FORMAT) {
+      throw new ProjectArchiveError('This file is not a Nano Banana project archive.');
+    }
+    if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+      throw new ProjectArchiveError(
+        `Unsupported archive version ${manifest.version}. This app reads version ${ARCHIVE_VERSION} or older.`
+      );
+    }
+    if (!isProjectLike(manifest.project) || !manifest.assets || typeof manifest.assets !== 'object') {
+      throw new ProjectArchiveError('The archive manifest does not describe a valid project.');
+    }
+
+    return manifest as ProjectArchiveManifest;
+  }
+
+  // Validates the whole archive before writing anything, so a bad file leaves no partial import
+  static async importProject(file: Blob): Promise<Project> {
+    let entries: Record<string, Uint8Array>;
+    try {
+      entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    } catch {
+      throw new ProjectArchiveError('The file is not a readable zip archive.');
+    }
+
+    const manifest = this.readManifest(entries);
+    let projectAssets: (Asset | VideoAsset)[];
+    try {
+      projectAssets = getProjectAssets(manifest.project);
+    } catch {
+      throw new ProjectArchiveError('The archive manifest has malformed history records.');
+    }
+    const blobs = new Map<string, Blob>();
+
+    for (const asset of projectAssets) {
+      if (typeof asset.blobId !== 'string' || !asset.blobId) {
+        throw new ProjectArchiveError(`Asset ${asset.id} has no blob reference.`);
+      }
+      if (blobs.has(asset.blobId)) continue;
+
+      const entry = manifest.assets[asset.blobId];
+      const data = entry && entries[entry.path];
+      if (!data) {
+        throw new ProjectArchiveError(`Asset ${asset.id} is missing from the archive.`);
+      }
+
+      const blob = new Blob([data], { type: entry.mime || getAssetMime(asset) });
+      if (await AssetStore.hashBlob(blob) !== asset.blobId) {
+        throw new ProjectArchiveError(`Asset ${asset.id} is corrupt (checksum mismatch).`);
+      }
+      blobs.set(asset.blobId, blob);
+    }
+
+    // One stored reference per asset, matching how assets are counted everywhere else
+    for (const asset of projectAssets) {
+      await AssetStore.storeBlob(asset.blobId, blobs.get(asset.blobId)!);
+    }
+
+    const existing = await CacheService.getProject(manifest.project.id);
+    const project: Project = {
+      ...manifest.project,
+      id: existing ? generateId() : manifest.project.id,
+      videoGenerations: manifest.project.videoGenerations ?? [],
+      updatedAt: Date.now()
+    };
+    await CacheService.saveProject(project);
+    return project;
+  }
+}
@@ -0,0 +1,77 @@
+import { Project } from '../types';
+import { CacheService } from './cacheService';
+import { AssetStore } from './assetStore';
+
+const SAVE_DEBOUNCE_MS = 800;
+
+// Debounced writer that keeps the active project mirrored in IndexedDB
+export class ProjectPersistence {
+  private pendingProject: Project | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  scheduleSave(project: Project): void {
+    // Switching projects must not drop the previous project's unsaved changes
+    if (this.pendingProject && this.pendingProject.id !== project.id) {
+      void this.flush();
+    }
+
+    this.pendingProject = project;
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => void this.flush(), SAVE_DEBOUNCE_MS);
+  }
+
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    const project = this.pendingProject;
+    this.pendingProject = null;
+    if (!project) return;
+
+    try {
+      await CacheService.saveProject(project);
+    } catch (error) {
+      console.error('Failed to save project:', error);
+    }
+  }
+
+  // Drops a queued save, e.g. when the project is being deleted
+  cancel(projectId: string): void {
+    if (this.pendingProject?.id !== projectId) return;
+    this.pendingProject = null;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+
+  // Loads a stored project, moving any legacy inline images into the asset store
+  async load(id: string): Promise<Project | null> {
+    const project = await CacheService.getProject(id);
+    return project ? this.migrate(project) : null;
+  }
+
+  // Picks the project to reopen on startup: the last active one, else the most recently updated
+  async restore(): Promise<Project | null> {
+    const [projects, activeId] = await Promise.all([
+      CacheService.getAllProjects(),
+      CacheService.getActiveProjectId(),
+    ]);
+    if (projects.length === 0) return null;
+
+    const active = activeId ? projects.find(p => p.id === activeId) : undefined;
+    return this.migrate(active ?? projects.reduce((latest, p) => (p.updatedAt > latest.updatedAt ? p : latest)));
+  }
+
+  private async migrate(project: Project): Promise<Project> {
+    const migrated = await AssetStore.migrateProject(project);
+    if (migrated !== project) {
+      await CacheService.saveProject(migrated);
+    }
+    return migrated;
+  }
+}
+
+export const projectPersistence = new ProjectPersistence();
@@ -0,0 +1,94 @@
+import { ServerJob, ServerJobEvent } from '../types';
+
+const EVENTS_URL = '/api/events';
+const JOB_EVENT_TYPES = ['job-state', 'job-progress', 'job-complete'] as const;
+// EventSource retries dropped connections itself, but gives up if the server answers with
+// an error (e.g. the API server is restarting behind the dev proxy)
+const REOPEN_DELAY_MS = 10_000;
+
+type ServerEventListener = (event: ServerJobEvent) => void;
+
+// One EventSource on /api/events shared by the whole app, open while anything is subscribed
+class ServerEventStream {
+  private source: EventSource | null = null;
+  private listeners = new Set<ServerEventListener>();
+  private connectionListeners = new Set<() => void>();
+  private connected = false;
+  private hasConnected = false;
+  private reopenTimer: ReturnType<typeof setTimeout> | undefined;
+
+  subscribe(listener: ServerEventListener): () => void {
+    this.listeners.add(listener);
+    this.open();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.close();
+    };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  onConnectionChange(listener: () => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  private emit(event: ServerJobEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.connectionListeners.forEach((listener) => listener());
+  }
+
+  private open() {
+    if (this.source || this.reopenTimer) return;
+
+    const source = new EventSource(EVENTS_URL);
+    this.source = source;
+
+    source.onopen = () => {
+      this.setConnected(true);
+      if (this.hasConnected) this.emit({ type: 'resync' });
+      this.hasConnected = true;
+    };
+
+    source.onerror = () => {
+      this.setConnected(false);
+      if (source.readyState !== EventSource.CLOSED) return;
+
+      this.source = null;
+      this.reopenTimer = setTimeout(() => {
+        this.reopenTimer = undefined;
+        if (this.listeners.size > 0) this.open();
+      }, REOPEN_DELAY_MS);
+    };
+
+    for (const type of JOB_EVENT_TYPES) {
+      source.addEventListener(type, (event) => {
+        const job: ServerJob = JSON.parse((event as MessageEvent<string>).data);
+        this.emit({ type, job });
+      });
+    }
+    source.addEventListener('job-deleted', (event) => {
+      const { id } = JSON.parse((event as MessageEvent<string>).data);
+      this.emit({ type: 'job-deleted', id });
+    });
+  }
+
+  private close() {
+    clearTimeout(this.reopenTimer);
+    this.reopenTimer = undefined;
+    this.source?.close();
+    this.source = null;
+    this.setConnected(false);
+  }
+}
+
+export const serverEvents = new ServerEventStream();
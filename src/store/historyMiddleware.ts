@@ -0,0 +1,145 @@
+import { StateCreator, StoreMutatorIdentifier } from 'zustand';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+const DEFAULT_COALESCE_MS = 1000;
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  historyLimit: number;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
+  setHistoryLimit: (limit: number) => void;
+}
+
+export interface HistoryOptions<T> {
+  // Keys restored by undo/redo; everything else is left alone
+  trackedKeys: (keyof T)[];
+  // Rapid changes touching only these keys (e.g. typing a prompt) become a single step
+  coalesceKeys?: (keyof T)[];
+  coalesceMs?: number;
+  limit?: number;
+}
+
+type History = <
+  T extends HistoryState,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = []
+>(
+  config: StateCreator<T, Mps, Mcs, Omit<T, keyof HistoryState>>,
+  options: HistoryOptions<T>
+) => StateCreator<T, Mps, Mcs>;
+
+type HistoryImpl = <T extends HistoryState>(
+  config: StateCreator<T, [], [], Omit<T, keyof HistoryState>>,
+  options: HistoryOptions<T>
+) => StateCreator<T, [], []>;
+
+const historyImpl: HistoryImpl = (config, options) => (set, get, api) => {
+  const { trackedKeys, coalesceKeys = [], coalesceMs = DEFAULT_COALESCE_MS } = options;
+  type State = ReturnType<typeof get>;
+  type Snapshot = Partial<State>;
+
+  let past: Snapshot[] = [];
+  let future: Snapshot[] = [];
+  // Every change made in the same synchronous run (e.g. one action calling several
+  // setters) is recorded as one step
+  let batchOpen = false;
+  let lastCoalescedAt = 0;
+
+  const snapshot = (state: State): Snapshot => {
+    const picked: Snapshot = {};
+    for (const key of trackedKeys) picked[key] = state[key];
+    return picked;
+  };
+
+  const changedKeys = (before: Snapshot, after: State) =>
+    trackedKeys.filter((key) => !Object.is(before[key], after[key]));
+
+  const syncFlags = () => {
+    const canUndo = past.length > 0;
+    const canRedo = future.length > 0;
+    if (get().canUndo !== canUndo || get().canRedo !== canRedo) {
+      set({ canUndo, canRedo } as Partial<State>);
+    }
+  };
+
+  const record = (before: Snapshot, changed: (keyof State)[]) => {
+    const now = Date.now();
+    const isCoalescable = coalesceKeys.length > 0 && changed.every((key) => coalesceKeys.includes(key));
+    const coalesce = isCoalescable && now - lastCoalescedAt < coalesceMs;
+    lastCoalescedAt = isCoalescable ? now : 0;
+
+    if (batchOpen || coalesce) return;
+
+    batchOpen = true;
+    queueMicrotask(() => {
+      batchOpen = false;
+    });
+
+    past = [...past, before].slice(-get().historyLimit);
+    future = [];
+  };
+
+  // set's overloads can't be forwarded generically, so pass the arguments through untyped
+  const forwardSet = set as (...args: unknown[]) => void;
+
+  const trackedSet = ((...args: unknown[]) => {
+    const before = snapshot(get());
+    forwardSet(...args);
+    const changed = changedKeys(before, get());
+    if (changed.length === 0) return;
+
+    record(before, changed);
+    syncFlags();
+  }) as typeof set;
+
+  // Restores go through the raw setter so they aren't recorded as new steps
+  const restore = (target: Snapshot) => {
+    set(target);
+    lastCoalescedAt = 0;
+    syncFlags();
+  };
+
+  const state = config(trackedSet, get, api);
+
+  return {
+    ...state,
+    canUndo: false,
+    canRedo: false,
+    historyLimit: options.limit ?? DEFAULT_HISTORY_LIMIT,
+
+    undo: () => {
+      const previous = past[past.length - 1];
+      if (!previous) return;
+      past = past.slice(0, -1);
+      future = [...future, snapshot(get())];
+      restore(previous);
+    },
+
+    redo: () => {
+      const next = future[future.length - 1];
+      if (!next) return;
+      future = future.slice(0, -1);
+      past = [...past, snapshot(get())];
+      restore(next);
+    },
+
+    clearHistory: () => {
+      past = [];
+      future = [];
+      lastCoalescedAt = 0;
+      syncFlags();
+    },
+
+    setHistoryLimit: (limit) => {
+      const historyLimit = Math.max(1, Math.floor(limit));
+      past = past.slice(-historyLimit);
+      set({ historyLimit } as Partial<State>);
+    },
+  } as State;
+};
+
+// Undo/redo over a chosen slice of store state
+export const history = historyImpl as unknown as History;
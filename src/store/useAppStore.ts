@@ -4,8 +4,15 @@ import {
   Project,
   Generation,
   Edit,
+  FailedAttempt,
   SegmentationMask,
   BrushStroke,
+  MaskTool,
+  MaskSettings,
+  DEFAULT_MASK_SETTINGS,
+  ExpandBounds,
+  EMPTY_EXPAND_BOUNDS,
+  CropRect,
   SafetySetting,
   HarmCategory,
   AspectRatio,
@@ -16,9 +23,38 @@ import {
   VideoResolution,
   VideoDuration,
   DEFAULT_SAFETY_SETTINGS,
+  BudgetSettings,
+  DEFAULT_BUDGET_SETTINGS,
+  SavedMask,
 } from '../types';
-
-interface AppState {
+import { generateId } from '../utils/imageUtils';
+import { AssetStore, getRecordAssets } from '../services/assetStore';
+import { keepChildSources } from '../utils/projectTree';
+import { CacheService } from '../services/cacheService';
+import { getDayKey } from '../utils/budget';
+import { history, HistoryState } from './historyMiddleware';
+
+const MAX_FAILED_ATTEMPTS = 20;
+
+// Expand bounds, crop boxes and rotation previews are measured against the image they
+// were drawn on, so a new canvas image starts them over
+const RESET_IMAGE_TOOLS = {
+  expandBounds: EMPTY_EXPAND_BOUNDS,
+  cropRect: null,
+  previewRotation: 0,
+};
+
+export const createEmptyProject = (title = 'Untitled Project'): Project => ({
+  id: generateId(),
+  title,
+  generations: [],
+  edits: [],
+  videoGenerations: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now()
+});
+
+interface AppState extends HistoryState {
   // Current project
   currentProject: Project | null;
 
@@ -36,8 +72,19 @@ interface AppState {
   // Brush strokes for painting masks
   brushStrokes: BrushStroke[];
   brushSize: number;
+  maskTool: MaskTool;
+  maskSettings: MaskSettings;
   showMasks: boolean;
 
+  // Extra canvas around the image for the Expand tool
+  expandBounds: ExpandBounds;
+
+  // The Transform tool's crop box (null for the default box at `cropAspectRatio`, 'auto'
+  // being the whole image) and the free rotation being previewed
+  cropRect: CropRect | null;
+  cropAspectRatio: AspectRatio;
+  previewRotation: number;
+
   // Generation state
   isGenerating: boolean;
   currentPrompt: string;
@@ -58,7 +105,15 @@ interface AppState {
   showPromptPanel: boolean;
 
   // UI state
-  selectedTool: 'generate' | 'edit' | 'mask' | 'video';
+  selectedTool: 'generate' | 'edit' | 'mask' | 'expand' | 'transform' | 'video';
+  // Edits continue the conversation of the edit on the canvas
+  chatMode: boolean;
+  // Composite masked edit results onto the source so nothing outside the mask changes
+  compositeEdits: boolean;
+
+  // Spending limits, and today's estimated spend across all projects
+  budgetSettings: BudgetSettings;
+  dailySpend: { day: string; amount: number };
 
   // Video canvas state
   canvasVideo: string | null;
@@ -83,6 +138,8 @@ interface AppState {
 
   // Actions
   setCurrentProject: (project: Project | null) => void;
+  openProject: (project: Project | null) => void;
+  setProjectTitle: (title: string) => void;
   setCanvasImage: (url: string | null) => void;
   setCanvasImages: (urls: string[]) => void;
   setCanvasImageIndex: (index: number) => void;
@@ -98,9 +155,16 @@ interface AppState {
   clearEditReferenceImages: () => void;
 
   addBrushStroke: (stroke: BrushStroke) => void;
+  setBrushStrokes: (strokes: BrushStroke[]) => void;
   clearBrushStrokes: () => void;
   setBrushSize: (size: number) => void;
+  setMaskTool: (tool: MaskTool) => void;
+  setMaskSettings: (settings: Partial<MaskSettings>) => void;
   setShowMasks: (show: boolean) => void;
+  setExpandBounds: (bounds: ExpandBounds) => void;
+  setCropRect: (rect: CropRect | null) => void;
+  setCropAspectRatio: (aspectRatio: AspectRatio) => void;
+  setPreviewRotation: (degrees: number) => void;
 
   setIsGenerating: (generating: boolean) => void;
   setCurrentPrompt: (prompt: string) => void;
@@ -115,13 +179,25 @@ interface AppState {
 
   addGeneration: (generation: Generation) => void;
   addEdit: (edit: Edit) => void;
+  removeGeneration: (id: string) => void;
+  removeEdit: (id: string) => void;
+  addSavedMask: (mask: SavedMask) => void;
+  removeSavedMask: (assetId: string) => void;
+  addFailedAttempt: (attempt: FailedAttempt) => void;
+  clearFailedAttempts: () => void;
   selectGeneration: (id: string | null) => void;
   selectEdit: (id: string | null) => void;
   setShowHistory: (show: boolean) => void;
 
   setShowPromptPanel: (show: boolean) => void;
 
-  setSelectedTool: (tool: 'generate' | 'edit' | 'mask' | 'video') => void;
+  setSelectedTool: (tool: 'generate' | 'edit' | 'mask' | 'expand' | 'transform' | 'video') => void;
+  setChatMode: (enabled: boolean) => void;
+  setCompositeEdits: (enabled: boolean) => void;
+  setBudgetSettings: (settings: BudgetSettings) => void;
+  setDailySpend: (dailySpend: { day: string; amount: number }) => void;
+  recordSpend: (amount: number) => void;
+  recordQueuedSpend: (amount: number) => void;
 
   // Video actions
   setCanvasVideo: (url: string | null) => void;
@@ -141,13 +217,14 @@ interface AppState {
   setVideoNegativePrompt: (prompt: string) => void;
 
   addVideoGeneration: (generation: VideoGeneration) => void;
+  removeVideoGeneration: (id: string) => void;
   selectVideoGeneration: (id: string | null) => void;
   clearVideoSession: () => void;
 }
 
 export const useAppStore = create<AppState>()(
   devtools(
-    (set, get) => ({
+    history<AppState>((set, get) => ({
       // Initial state
       currentProject: null,
       canvasImage: null,
@@ -161,8 +238,16 @@ export const useAppStore = create<AppState>()(
 
       brushStrokes: [],
       brushSize: 20,
+      maskTool: 'brush',
+      maskSettings: DEFAULT_MASK_SETTINGS,
       showMasks: true,
 
+      expandBounds: EMPTY_EXPAND_BOUNDS,
+
+      cropRect: null,
+      cropAspectRatio: 'auto',
+      previewRotation: 0,
+
       isGenerating: false,
       currentPrompt: '',
       temperature: 0.7,
@@ -180,6 +265,10 @@ export const useAppStore = create<AppState>()(
       showPromptPanel: true,
 
       selectedTool: 'generate',
+      chatMode: false,
+      compositeEdits: false,
+      budgetSettings: DEFAULT_BUDGET_SETTINGS,
+      dailySpend: { day: getDayKey(), amount: 0 },
 
       // Video canvas state
       canvasVideo: null,
@@ -204,15 +293,46 @@ export const useAppStore = create<AppState>()(
 
       // Actions
       setCurrentProject: (project) => set({ currentProject: project }),
+      // Switches projects and drops everything on the canvas that belonged to the previous one,
+      // including its undo history
+      openProject: (project) => {
+        set({
+          currentProject: project,
+          canvasImage: null,
+          canvasImages: [],
+          canvasImageIndex: 0,
+          canvasZoom: 1,
+          canvasPan: { x: 0, y: 0 },
+          brushStrokes: [],
+          selectedGenerationId: null,
+          selectedEditId: null,
+          selectedVideoGenerationId: null,
+          canvasVideo: null,
+          canvasVideoThumbnail: null,
+          isVideoPlaying: false,
+          videoCurrentTime: 0,
+          videoDuration: 0,
+        });
+        get().clearHistory();
+      },
+      setProjectTitle: (title) => set((state) => ({
+        currentProject: state.currentProject ? {
+          ...state.currentProject,
+          title,
+          updatedAt: Date.now()
+        } : null
+      })),
       setCanvasImage: (url) => set({
         canvasImage: url,
         canvasImages: url ? [url] : [],
-        canvasImageIndex: 0
+        canvasImageIndex: 0,
+        ...RESET_IMAGE_TOOLS
       }),
       setCanvasImages: (urls) => set({
         canvasImages: urls,
         canvasImage: urls[0] ?? null,
-        canvasImageIndex: 0
+        canvasImageIndex: 0,
+        ...RESET_IMAGE_TOOLS
       }),
       setCanvasImageIndex: (index) => set((state) => {
         if (state.canvasImages.length === 0) return state;
@@ -245,9 +365,18 @@ export const useAppStore = create<AppState>()(
       addBrushStroke: (stroke) => set((state) => ({
         brushStrokes: [...state.brushStrokes, stroke]
       })),
+      setBrushStrokes: (strokes) => set({ brushStrokes: strokes }),
       clearBrushStrokes: () => set({ brushStrokes: [] }),
       setBrushSize: (size) => set({ brushSize: size }),
+      setMaskTool: (tool) => set({ maskTool: tool }),
+      setMaskSettings: (settings) => set((state) => ({
+        maskSettings: { ...state.maskSettings, ...settings }
+      })),
       setShowMasks: (show) => set({ showMasks: show }),
+      setExpandBounds: (bounds) => set({ expandBounds: bounds }),
+      setCropRect: (rect) => set({ cropRect: rect }),
+      setCropAspectRatio: (aspectRatio) => set({ cropAspectRatio: aspectRatio, cropRect: null }),
+      setPreviewRotation: (degrees) => set({ previewRotation: degrees }),
 
       setIsGenerating: (generating) => set({ isGenerating: generating }),
       setCurrentPrompt: (prompt) => set({ currentPrompt: prompt }),
@@ -267,20 +396,106 @@ export const useAppStore = create<AppState>()(
       })),
       resetSafetySettings: () => set({ safetySettings: DEFAULT_SAFETY_SETTINGS }),
 
-      addGeneration: (generation) => set((state) => ({
-        currentProject: state.currentProject ? {
-          ...state.currentProject,
-          generations: [...state.currentProject.generations, generation],
-          updatedAt: Date.now()
-        } : null
-      })),
+      // History records start a project on demand so nothing is dropped before one exists
+      addGeneration: (generation) => set((state) => {
+        const project = state.currentProject ?? createEmptyProject();
+        return {
+          currentProject: {
+            ...project,
+            generations: [...project.generations, generation],
+            updatedAt: Date.now()
+          }
+        };
+      }),
 
-      addEdit: (edit) => set((state) => ({
-        currentProject: state.currentProject ? {
+      addEdit: (edit) => set((state) => {
+        const project = state.currentProject ?? createEmptyProject();
+        return {
+          currentProject: {
+            ...project,
+            edits: [...project.edits, edit],
+            updatedAt: Date.now()
+          }
+        };
+      }),
+
+      // Removing a record drops its references so unused blobs are freed
+      // Edits made from the removed node keep the image they were made from
+      removeGeneration: (id) => {
+        const project = get().currentProject;
+        const generation = project?.generations.find(g => g.id === id);
+        if (!project || !generation) return;
+        const { edits, keptAssets } = keepChildSources(project, { type: 'generation', id });
+        set((state) => ({
+          currentProject: state.currentProject && {
+            ...state.currentProject,
+            generations: state.currentProject.generations.filter(g => g.id !== id),
+            edits,
+            updatedAt: Date.now()
+          },
+          selectedGenerationId: state.selectedGenerationId === id ? null : state.selectedGenerationId
+        }));
+        void AssetStore.retain(keptAssets).then(() => AssetStore.release(getRecordAssets(generation)));
+      },
+
+      removeEdit: (id) => {
+        const project = get().currentProject;
+        const edit = project?.edits.find(e => e.id === id);
+        if (!project || !edit) return;
+        const { edits, keptAssets } = keepChildSources(project, { type: 'edit', id });
+        set((state) => ({
+          currentProject: state.currentProject && {
+            ...state.currentProject,
+            edits: edits.filter(e => e.id !== id),
+            updatedAt: Date.now()
+          },
+          selectedEditId: state.selectedEditId === id ? null : state.selectedEditId
+        }));
+        void AssetStore.retain(keptAssets).then(() => AssetStore.release(getRecordAssets(edit)));
+      },
+
+      addSavedMask: (mask) => set((state) => {
+        const project = state.currentProject ?? createEmptyProject();
+        return {
+          currentProject: {
+            ...project,
+            masks: [...(project.masks || []), mask],
+            updatedAt: Date.now()
+          }
+        };
+      }),
+
+      removeSavedMask: (assetId) => {
+        const mask = get().currentProject?.masks?.find(m => m.asset.id === assetId);
+        if (!mask) return;
+        set((state) => ({
+          currentProject: state.currentProject && {
+            ...state.currentProject,
+            masks: state.currentProject.masks?.filter(m => m.asset.id !== assetId),
+            updatedAt: Date.now()
+          }
+        }));
+        void AssetStore.release([mask.asset]);
+      },
+
+      // Only the most recent failures are kept; they have no assets to release
+      addFailedAttempt: (attempt) => set((state) => {
+        const project = state.currentProject ?? createEmptyProject();
+        return {
+          currentProject: {
+            ...project,
+            failedAttempts: [...(project.failedAttempts || []), attempt].slice(-MAX_FAILED_ATTEMPTS),
+            updatedAt: Date.now()
+          }
+        };
+      }),
+
+      clearFailedAttempts: () => set((state) => ({
+        currentProject: state.currentProject && {
           ...state.currentProject,
-          edits: [...state.currentProject.edits, edit],
+          failedAttempts: [],
           updatedAt: Date.now()
-        } : null
+        }
       })),
 
       selectGeneration: (id) => set({ selectedGenerationId: id }),
@@ -290,6 +505,35 @@ export const useAppStore = create<AppState>()(
       setShowPromptPanel: (show) => set({ showPromptPanel: show }),
 
       setSelectedTool: (tool) => set({ selectedTool: tool }),
+      setChatMode: (enabled) => set({ chatMode: enabled }),
+      setCompositeEdits: (enabled) => set({ compositeEdits: enabled }),
+
+      setBudgetSettings: (settings) => {
+        set({ budgetSettings: settings });
+        void CacheService.saveBudgetSettings(settings);
+      },
+      setDailySpend: (dailySpend) => set({ dailySpend }),
+      // Adds a request's estimate to today's spend, starting a new day when the date changes
+      recordSpend: (amount) => {
+        if (amount <= 0) return;
+        const day = getDayKey();
+        set((state) => ({
+          dailySpend: { day, amount: (state.dailySpend.day === day ? state.dailySpend.amount : 0) + amount },
+        }));
+        void CacheService.addDailySpend(day, amount);
+      },
+      // Queued requests have no history record to carry their estimate, so the project keeps it
+      recordQueuedSpend: (amount) => {
+        if (amount <= 0) return;
+        get().recordSpend(amount);
+        set((state) => ({
+          currentProject: state.currentProject && {
+            ...state.currentProject,
+            queuedSpend: (state.currentProject.queuedSpend ?? 0) + amount,
+            updatedAt: Date.now()
+          }
+        }));
+      },
 
       // Video actions
       setCanvasVideo: (url) => set({
@@ -312,13 +556,30 @@ export const useAppStore = create<AppState>()(
       setVideoSourceVideo: (video) => set({ videoSourceVideo: video }),
       setVideoNegativePrompt: (prompt) => set({ videoNegativePrompt: prompt }),
 
-      addVideoGeneration: (generation) => set((state) => ({
-        currentProject: state.currentProject ? {
-          ...state.currentProject,
-          videoGenerations: [...(state.currentProject.videoGenerations || []), generation],
-          updatedAt: Date.now()
-        } : null
-      })),
+      addVideoGeneration: (generation) => set((state) => {
+        const project = state.currentProject ?? createEmptyProject();
+        return {
+          currentProject: {
+            ...project,
+            videoGenerations: [...(project.videoGenerations || []), generation],
+            updatedAt: Date.now()
+          }
+        };
+      }),
+
+      removeVideoGeneration: (id) => {
+        const videoGeneration = get().currentProject?.videoGenerations?.find(v => v.id === id);
+        if (!videoGeneration) return;
+        set((state) => ({
+          currentProject: state.currentProject && {
+            ...state.currentProject,
+            videoGenerations: (state.currentProject.videoGenerations || []).filter(v => v.id !== id),
+            updatedAt: Date.now()
+          },
+          selectedVideoGenerationId: state.selectedVideoGenerationId === id ? null : state.selectedVideoGenerationId
+        }));
+        void AssetStore.release(getRecordAssets(videoGeneration));
+      },
 
       selectVideoGeneration: (id) => set({ selectedVideoGenerationId: id }),
 
@@ -334,6 +595,26 @@ export const useAppStore = create<AppState>()(
         videoNegativePrompt: '',
         videoMuted: false,
       }),
+    }), {
+      // Canvas, mask, prompt/settings and selection state can be stepped back through
+      trackedKeys: [
+        'canvasImage',
+        'canvasImages',
+        'canvasImageIndex',
+        'brushStrokes',
+        'maskSettings',
+        'currentPrompt',
+        'temperature',
+        'seed',
+        'selectedModel',
+        'aspectRatio',
+        'resolutionTier',
+        'variantCount',
+        'selectedGenerationId',
+        'selectedEditId',
+        'selectedVideoGenerationId',
+      ],
+      coalesceKeys: ['currentPrompt', 'temperature', 'seed', 'maskSettings'],
     }),
     { name: 'nano-banana-store' }
   )
@@ -1,7 +1,10 @@
 export interface Asset {
   id: string;
   type: 'original' | 'mask' | 'output';
-  url: string;
+  // Content hash of the blob held by AssetStore; resolve with AssetStore.resolveUrl
+  blobId: string;
+  // Inline data URL, only present on assets saved before blob storage
+  url?: string;
   mime: string;
   width: number;
   height: number;
@@ -24,17 +27,52 @@ export interface Generation {
   outputAssets: Asset[];
   modelVersion: string;
   timestamp: number;
+  // Estimated USD cost at the time of the request (see utils/pricing)
   costEstimate?: number;
+  // Token counts the model reported for the request
+  usage?: UsageMetadata;
+  // Text the model returned alongside the images, and a summary of its reasoning
+  responseText?: string;
+  thoughtSummary?: string;
+}
+
+// The history node (and which of its variants) an edit was made from
+export interface EditParent {
+  type: 'generation' | 'edit';
+  id: string;
+  assetId?: string;
 }
 
 export interface Edit {
   id: string;
-  parentGenerationId: string;
+  parent?: EditParent;
+  // Only set on edits saved before `parent`; always refers to a generation
+  parentGenerationId?: string;
+  // The edited image when it didn't come from history (e.g. an upload), or once the node
+  // it was made from has been deleted
+  sourceAsset?: Asset;
+  // The saved mask (see Project.masks) the edit was made with. Edits saved before masks
+  // could be saved have an ID here that matches none.
   maskAssetId?: string;
   maskReferenceAsset?: Asset;
   instruction: string;
   outputAssets: Asset[];
+  // The model's images as returned, when `outputAssets` are those images composited onto
+  // the source inside the mask
+  rawOutputAssets?: Asset[];
   timestamp: number;
+  // Missing on edits saved before it was recorded
+  modelVersion?: string;
+  costEstimate?: number;
+  usage?: UsageMetadata;
+  responseText?: string;
+  thoughtSummary?: string;
+  // Made by a tool rather than a plain instruction
+  operation?: EditOperation;
+  // Made in chat mode: the edit continues the conversation its parent belongs to
+  conversational?: boolean;
+  // The model's reply for each variant, replayed as history by the next chat turn
+  replies?: ChatReplyPart[][];
 }
 
 export interface Project {
@@ -43,10 +81,83 @@ export interface Project {
   generations: Generation[];
   edits: Edit[];
   videoGenerations: VideoGeneration[];
+  // Missing on projects saved before failed attempts were recorded
+  failedAttempts?: FailedAttempt[];
+  // Missing on projects saved before masks could be saved
+  masks?: SavedMask[];
+  // Estimated cost of the batch and video requests queued from the project, which don't
+  // become history records. Missing on projects saved before queued spend was counted.
+  queuedSpend?: number;
   createdAt: number;
   updatedAt: number;
 }
 
+// Canvas the Expand tool adds around an image, in image pixels
+export interface ExpandBounds {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+  // The aspect ratio the bounds were picked for; unset when dragged by hand
+  aspectRatio?: AspectRatio;
+}
+
+export const EMPTY_EXPAND_BOUNDS: ExpandBounds = { top: 0, right: 0, bottom: 0, left: 0 };
+
+// A region of an image, in image pixels
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type FlipDirection = 'horizontal' | 'vertical';
+
+export type EditOperation =
+  | { type: 'expand'; bounds: ExpandBounds }
+  // Made in the browser without a request; the output is the source with the change applied
+  | { type: 'crop'; rect: CropRect; aspectRatio?: AspectRatio }
+  // Clockwise; the output grows to fit the rotated image, leaving the corners transparent
+  | { type: 'rotate'; degrees: number }
+  | { type: 'flip'; direction: FlipDirection }
+  | { type: 'resize'; width: number; height: number };
+
+export type LocalEditOperation = Exclude<EditOperation, { type: 'expand' }>;
+
+// A named mask kept with the project for reuse; edits made with it refer to its asset's ID
+export interface SavedMask {
+  name: string;
+  // White-on-black PNG at the size of the image it was made on
+  asset: Asset;
+  createdAt: number;
+}
+
+// Spending limits in USD (null for no limit). Requests that would go over one are
+// either flagged or refused.
+export interface BudgetSettings {
+  dailyLimit: number | null;
+  projectLimit: number | null;
+  enforcement: 'warn' | 'block';
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  dailyLimit: null,
+  projectLimit: null,
+  enforcement: 'warn',
+};
+
+// A generate or edit request that came back without images
+export interface FailedAttempt {
+  id: string;
+  type: 'generate' | 'edit';
+  prompt: string;
+  modelVersion: string;
+  reason: string;
+  feedback?: GenerationFeedback;
+  timestamp: number;
+}
+
 export interface SegmentationMask {
   id: string;
   imageData: ImageData;
@@ -61,11 +172,42 @@ export interface SegmentationMask {
 
 export interface BrushStroke {
   id: string;
+  // Freehand path, or for shapes the drag corners [x1, y1, x2, y2] / polygon vertices
   points: number[];
   brushSize: number;
   color: string;
+  // Filled shape drawn from `points`; freehand brush when unset
+  shape?: 'rectangle' | 'ellipse' | 'polygon';
+  // Cuts the stroke out of the mask instead of adding to it
+  erase?: boolean;
+  // Selections from segmentation and imported masks: a white-on-black base64 PNG at the
+  // image's resolution, drawn instead of `points`
+  bitmap?: string;
+  // Set on a bitmap loaded from one of the project's saved masks
+  maskAssetId?: string;
 }
 
+// Mask editor tools; 'select' picks objects with segmentation
+export type MaskTool = 'brush' | 'eraser' | 'rectangle' | 'ellipse' | 'lasso' | 'select';
+
+// Adjustments applied to the whole mask after its strokes are drawn
+export interface MaskSettings {
+  invert: boolean;
+  // Pixels to grow the selection by; negative shrinks it
+  grow: number;
+  // Edge softness in pixels
+  feather: number;
+  // How strongly the mask shows over the image on the canvas
+  opacity: number;
+}
+
+export const DEFAULT_MASK_SETTINGS: MaskSettings = {
+  invert: false,
+  grow: 0,
+  feather: 0,
+  opacity: 0.6,
+};
+
 export interface PromptHint {
   category: 'subject' | 'scene' | 'action' | 'style' | 'camera';
   text: string;
@@ -87,9 +229,14 @@ export interface BatchQueueRequest {
   temperature?: number;
   seed?: number;
   variantCount?: number;
+  model?: string;
   batchJobName?: string;
+  // ID of the server's job registry entry for this request
+  jobId?: string;
   status: QueueStatus;
-  resultImages?: string[];
+  // Bare base64 on requests saved before results carried their mime type
+  resultImages?: Array<GeneratedImage | string>;
+  usage?: UsageMetadata;
   createdAt: number;
   submittedAt?: number;
   completedAt?: number;
@@ -121,11 +268,13 @@ export type AspectRatio = 'auto' | '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '9:16
 export type ResolutionTier = '1K' | '2K' | '4K';
 
 // Video generation types
+// Veo models; other server providers may offer their own IDs
 export type VideoModel =
   | 'veo-3.1-generate-preview'
   | 'veo-3.1-fast-generate-preview'
   | 'veo-3.0-generate-001'
-  | 'veo-3.0-fast-generate-001';
+  | 'veo-3.0-fast-generate-001'
+  | (string & {});
 
 export type VideoAspectRatio = '16:9' | '9:16';
 export type VideoResolution = '720p' | '1080p';
@@ -134,7 +283,8 @@ export type VideoDuration = 4 | 6 | 8;
 export interface VideoAsset {
   id: string;
   type: 'video_output';
-  url: string;
+  blobId: string;
+  url?: string;
   mimeType: string;
   width: number;
   height: number;
@@ -160,6 +310,7 @@ export interface VideoGeneration {
   outputAsset?: VideoAsset;
   modelVersion: string;
   timestamp: number;
+  costEstimate?: number;
 }
 
 export interface VideoBatchQueueRequest {
@@ -177,6 +328,7 @@ export interface VideoBatchQueueRequest {
   seed?: number;
   operationName?: string;
   batchJobName?: string;
+  jobId?: string;
   status: QueueStatus;
   progressPercent?: number;
   resultVideo?: string;
@@ -198,13 +350,43 @@ export interface GenerateRequest {
   safetySettings?: SafetySetting[];
   aspectRatio?: AspectRatio;
   resolutionTier?: ResolutionTier;
+  // ID of the queue entry a batch or queued video was submitted for, kept on its server job
+  clientRequestId?: string;
+}
+
+// One part of a chat turn. Images are base64 without a data: prefix. Gemini 3 models sign
+// the parts of their replies, and those signatures have to be sent back with the history.
+export interface ChatPart {
+  text?: string;
+  image?: string;
+  thoughtSignature?: string;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+// A part of the model's reply to an edit. Images point into the returned images (or an
+// edit's output assets) instead of repeating their data.
+export interface ChatReplyPart {
+  text?: string;
+  imageIndex?: number;
+  thoughtSignature?: string;
 }
 
+// 'outpaint' fills the masked border of an image padded onto a larger canvas
+export type EditMode = 'edit' | 'outpaint';
+
 export interface EditRequest {
   instruction: string;
   originalImage: string;
+  // Earlier turns of a chat edit, oldest first. The image being edited is the last
+  // model turn's, so originalImage isn't sent again.
+  history?: ChatTurn[];
   referenceImages?: string[];
   maskImage?: string;
+  mode?: EditMode;
   temperature?: number;
   seed?: number;
   variantCount?: number;
@@ -212,10 +394,15 @@ export interface EditRequest {
   safetySettings?: SafetySetting[];
   aspectRatio?: AspectRatio;
   resolutionTier?: ResolutionTier;
+  // ID of the queue entry a batch or queued video was submitted for, kept on its server job
+  clientRequestId?: string;
 }
 
 export interface SegmentRequest {
-  query: string;
+  // What to select, a point on it, or both
+  query?: string;
+  // [y, x] normalized to 0-1000, the convention Gemini uses for points and boxes
+  point?: [number, number];
   image?: string;
   maskImage?: string;
   temperature?: number;
@@ -226,9 +413,73 @@ export interface SegmentRequest {
   resolutionTier?: ResolutionTier;
 }
 
+// Safety and finish metadata from the model's response, explaining missing images
+export interface SafetyRatingInfo {
+  // A HarmCategory, or a category newer than this app
+  category: string;
+  // NEGLIGIBLE, LOW, MEDIUM or HIGH
+  probability: string;
+  blocked?: boolean;
+}
+
+export interface CandidateFeedback {
+  finishReason?: string;
+  finishMessage?: string;
+  safetyRatings: SafetyRatingInfo[];
+}
+
+export interface GenerationFeedback {
+  // Set when the prompt itself was blocked
+  blockReason?: string;
+  blockReasonMessage?: string;
+  promptSafetyRatings: SafetyRatingInfo[];
+  candidates: CandidateFeedback[];
+  // Text the model returned alongside (or instead of) images
+  texts: string[];
+  // Summaries of the model's reasoning, from models that think before drawing
+  thoughts?: string[];
+}
+
+// Base64 image data and the mime type the model reported for it
+export interface GeneratedImage {
+  data: string;
+  mimeType: string;
+}
+
+// Token counts from the model's usage metadata, summed over the calls of one request
+// (one per variant)
+export interface UsageMetadata {
+  calls: number;
+  promptTokens: number;
+  // Output tokens, images included
+  candidatesTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+  // The image share of the prompt and output counts
+  promptImageTokens: number;
+  outputImageTokens: number;
+}
+
+export interface ImageResponse {
+  images: GeneratedImage[];
+  feedback?: GenerationFeedback;
+  usage?: UsageMetadata;
+  // One per variant, in the order of `images`
+  replies?: ChatReplyPart[][];
+}
+
+// An object found by segmentation: its box as [ymin, xmin, ymax, xmax] normalized to
+// 0-1000, and a PNG probability map covering just that box
+export interface SegmentMask {
+  label?: string;
+  box_2d: [number, number, number, number];
+  mask?: string;
+}
+
 export interface SegmentResponse {
-  masks: string[];
-  boxes?: { x: number; y: number; width: number; height: number }[];
+  masks: SegmentMask[];
+  // The model's reply when it wasn't segmentation JSON
+  raw?: string;
 }
 
 // Video API Request interfaces
@@ -244,6 +495,10 @@ export interface VideoGenerateRequest {
   referenceImages?: string[];
   video?: string;
   seed?: number;
+  // Started from the Video tool rather than the queue, so it's never recovered into the queue
+  interactive?: boolean;
+  // ID of the queue entry a batch or queued video was submitted for, kept on its server job
+  clientRequestId?: string;
 }
 
 export interface VideoOperationStatus {
@@ -253,6 +508,55 @@ export interface VideoOperationStatus {
   progress?: number;
 }
 
+// A batch or video job recorded by the server (see server/jobStore.ts)
+export type ServerJobKind = 'batch-generate' | 'batch-edit' | 'batch-segment' | 'video';
+
+// Output file the server's job poller saved for a finished job
+export interface ServerJobResult {
+  file: string;
+  mimeType: string;
+  size: number;
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface ServerJob {
+  id: string;
+  kind: ServerJobKind;
+  provider?: string;
+  externalName: string;
+  model: string;
+  prompt: string;
+  params: Record<string, unknown>;
+  // The queue entry that submitted the job, if it came from this app's queue
+  clientRequestId?: string;
+  status: Exclude<QueueStatus, 'pending'>;
+  remoteState?: string;
+  progress?: number;
+  error?: string;
+  results?: ServerJobResult[];
+  usage?: UsageMetadata;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+export type ServerJobEvent =
+  | { type: 'job-state' | 'job-progress' | 'job-complete'; job: ServerJob }
+  | { type: 'job-deleted'; id: string }
+  // Raised locally when the stream reconnects, since events may have been missed meanwhile
+  | { type: 'resync' };
+
+// A model offered by one of the server's providers (see server/providers)
+export interface ProviderModel {
+  id: string;
+  name: string;
+  kind: 'image' | 'video';
+  provider: string;
+  isDefault: boolean;
+}
+
 export interface VideoResult {
   video: string;
   mimeType: string;
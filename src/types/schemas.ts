@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import type { GenerateRequest, EditRequest, SegmentRequest, VideoGenerateRequest } from './index';
+
+// Runtime schemas for the API request bodies, shared by the client and the server. Each
+// one is checked against its interface in ./index so the two can't drift apart.
+
+const base64Image = z.base64({ error: 'Must be base64-encoded image data (no data: URL prefix)' });
+
+// Validates without trimming, so prompts reach the model exactly as typed
+const requiredText = (message: string) => z.string({ error: message }).regex(/\S/, message);
+
+const harmCategory = z.enum([
+  'HARM_CATEGORY_HARASSMENT',
+  'HARM_CATEGORY_HATE_SPEECH',
+  'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  'HARM_CATEGORY_DANGEROUS_CONTENT',
+  'HARM_CATEGORY_CIVIC_INTEGRITY',
+]);
+
+const safetyThreshold = z.enum(['OFF', 'BLOCK_NONE', 'BLOCK_ONLY_HIGH', 'BLOCK_MEDIUM_AND_ABOVE', 'BLOCK_LOW_AND_ABOVE']);
+
+const imageOptions = {
+  temperature: z.number().min(0).max(2).optional(),
+  seed: z.number().int().optional(),
+  model: z.string().min(1).optional(),
+  safetySettings: z.array(z.object({ category: harmCategory, threshold: safetyThreshold })).optional(),
+  aspectRatio: z.enum(['auto', '1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9']).optional(),
+  resolutionTier: z.enum(['1K', '2K', '4K']).optional(),
+};
+
+const variantCount = z.number().int().min(1).max(8).optional();
+// Gemini 3 Pro Image accepts up to 14 reference images
+const referenceImages = z.array(base64Image).max(14).optional();
+
+export const generateRequestSchema = z.object({
+  prompt: requiredText('Prompt is required'),
+  referenceImages,
+  variantCount,
+  ...imageOptions,
+  clientRequestId: z.string().optional(),
+}) satisfies z.ZodType<GenerateRequest>;
+
+const chatTurn = z.object({
+  role: z.enum(['user', 'model']),
+  parts: z.array(z.object({
+    text: z.string().optional(),
+    image: base64Image.optional(),
+    thoughtSignature: z.string().optional(),
+  }).refine((part) => part.text !== undefined || part.image !== undefined, 'A part needs text or an image')).min(1),
+});
+
+export const editRequestSchema = z.object({
+  instruction: requiredText('Instruction is required'),
+  originalImage: base64Image,
+  history: z.array(chatTurn).optional(),
+  referenceImages,
+  maskImage: base64Image.optional(),
+  mode: z.enum(['edit', 'outpaint']).optional(),
+  variantCount,
+  ...imageOptions,
+  clientRequestId: z.string().optional(),
+}) satisfies z.ZodType<EditRequest>;
+
+// Points and boxes are normalized to 0-1000
+const normalized = z.number().min(0, 'Must be between 0 and 1000').max(1000, 'Must be between 0 and 1000');
+
+export const segmentRequestSchema = z.object({
+  query: z.string().optional(),
+  point: z.tuple([normalized, normalized], { error: 'Must be [y, x]' }).optional(),
+  image: base64Image.optional(),
+  maskImage: base64Image.optional(),
+  ...imageOptions,
+}).refine((request) => !!request.image !== !!request.maskImage, {
+  message: 'Provide either image or maskImage, but not both',
+  path: ['image'],
+}).refine((request) => /\S/.test(request.query ?? '') || !!request.point, {
+  message: 'Provide a query or a point',
+  path: ['query'],
+}) satisfies z.ZodType<SegmentRequest>;
+
+export const videoGenerateRequestSchema = z.object({
+  prompt: requiredText('Prompt is required'),
+  negativePrompt: z.string().optional(),
+  model: z.string().min(1).optional(),
+  aspectRatio: z.enum(['16:9', '9:16']).optional(),
+  resolution: z.enum(['720p', '1080p']).optional(),
+  durationSeconds: z.union([z.literal(4), z.literal(6), z.literal(8)], { error: 'Must be 4, 6 or 8 seconds' }).optional(),
+  image: base64Image.optional(),
+  lastFrame: base64Image.optional(),
+  referenceImages: z.array(base64Image).max(3).optional(),
+  video: z.base64({ error: 'Must be base64-encoded video data' }).optional(),
+  seed: z.number().int().optional(),
+  interactive: z.boolean().optional(),
+  clientRequestId: z.string().optional(),
+}) satisfies z.ZodType<VideoGenerateRequest>;
+
+// Stable `code` on every API error response, for callers that branch on the kind of failure
+export type ApiErrorCode =
+  | 'VALIDATION_ERROR'   // 400, with per-field details
+  | 'NOT_FOUND'
+  | 'NOT_READY'          // Video requested before its operation finished
+  | 'GENERATION_FAILED'  // The provider finished the job but it failed
+  | 'PROVIDER_ERROR'
+  | 'INTERNAL_ERROR';
+
+// One entry per invalid field in a VALIDATION_ERROR response
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  fields?: FieldError[];
+}
+
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join('.') || '(body)',
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,49 @@
+import { BudgetSettings } from '../types';
+import { formatCost } from './pricing';
+
+export interface BudgetOverrun {
+  scope: 'daily' | 'project';
+  limit: number;
+  // Spend including the request being checked
+  total: number;
+}
+
+export interface BudgetCheck {
+  overruns: BudgetOverrun[];
+  // Over a limit with enforcement set to block
+  blocked: boolean;
+}
+
+// Thrown before sending a request that a blocking budget doesn't allow
+export class BudgetExceededError extends Error {
+  constructor(readonly check: BudgetCheck) {
+    super(describeBudgetCheck(check));
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Local calendar day, the period the daily budget covers
+export const getDayKey = (date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const checkBudget = (
+  cost: number,
+  spend: { daily: number; project: number },
+  settings: BudgetSettings
+): BudgetCheck => {
+  const overruns: BudgetOverrun[] = [];
+  if (settings.dailyLimit !== null && spend.daily + cost > settings.dailyLimit) {
+    overruns.push({ scope: 'daily', limit: settings.dailyLimit, total: spend.daily + cost });
+  }
+  if (settings.projectLimit !== null && spend.project + cost > settings.projectLimit) {
+    overruns.push({ scope: 'project', limit: settings.projectLimit, total: spend.project + cost });
+  }
+  return { overruns, blocked: overruns.length > 0 && settings.enforcement === 'block' };
+};
+
+export const describeBudgetCheck = ({ overruns, blocked }: BudgetCheck): string => {
+  const details = overruns
+    .map(({ scope, limit, total }) => `${formatCost(total)} against the ${formatCost(limit)} ${scope} budget`)
+    .join(' and ');
+  return blocked ? `Request blocked: it would bring spend to ${details}.` : `Over budget: ${details}.`;
+};
@@ -0,0 +1,65 @@
+import { AspectRatio, ExpandBounds, EMPTY_EXPAND_BOUNDS } from '../types';
+import { loadImage } from './maskUtils';
+
+// Fill for the new area before the model paints it
+const PADDING_COLOR = '#808080';
+// How far the mask reaches into the original along each expanded edge, so the model can
+// blend the seam instead of butting new content against a hard line
+const SEAM_OVERLAP = 8;
+
+// Sent when an expansion is asked for without saying what should fill the new area
+export const DEFAULT_EXPAND_INSTRUCTION = 'Continue the scene beyond its current edges';
+
+export const hasExpansion = (bounds: ExpandBounds): boolean =>
+  bounds.top > 0 || bounds.right > 0 || bounds.bottom > 0 || bounds.left > 0;
+
+export const getExpandedSize = (width: number, height: number, bounds: ExpandBounds) => ({
+  width: width + bounds.left + bounds.right,
+  height: height + bounds.top + bounds.bottom,
+});
+
+// The smallest bounds that bring the image to `aspectRatio`, split evenly between the two
+// sides that grow
+export function getAspectRatioBounds(width: number, height: number, aspectRatio: AspectRatio): ExpandBounds {
+  if (aspectRatio === 'auto') return EMPTY_EXPAND_BOUNDS;
+  const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+  const target = ratioWidth / ratioHeight;
+
+  if (width / height < target) {
+    const extra = Math.round(height * target) - width;
+    const left = Math.floor(extra / 2);
+    return { ...EMPTY_EXPAND_BOUNDS, left, right: extra - left, aspectRatio };
+  }
+  const extra = Math.round(width / target) - height;
+  const top = Math.floor(extra / 2);
+  return { ...EMPTY_EXPAND_BOUNDS, top, bottom: extra - top, aspectRatio };
+}
+
+// The image on its expanded canvas and a mask over the new area, both base64 PNGs
+export async function padImageForExpand(imageUrl: string, bounds: ExpandBounds): Promise<{ image: string; mask: string }> {
+  const source = await loadImage(imageUrl);
+  const { width, height } = getExpandedSize(source.width, source.height, bounds);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = PADDING_COLOR;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(source, bounds.left, bounds.top);
+  const image = canvas.toDataURL('image/png').split('base64,')[1];
+
+  const inset = (side: keyof Omit<ExpandBounds, 'aspectRatio'>) => (bounds[side] > 0 ? SEAM_OVERLAP : 0);
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = 'black';
+  ctx.fillRect(
+    bounds.left + inset('left'),
+    bounds.top + inset('top'),
+    source.width - inset('left') - inset('right'),
+    source.height - inset('top') - inset('bottom')
+  );
+  const mask = canvas.toDataURL('image/png').split('base64,')[1];
+
+  return { image, mask };
+}
@@ -0,0 +1,66 @@
+import { GenerationFeedback, HarmCategory, SafetyRatingInfo } from '../types';
+
+// Human-readable category names
+export const HARM_CATEGORY_LABELS: Record<HarmCategory, string> = {
+  HARM_CATEGORY_HARASSMENT: 'Harassment',
+  HARM_CATEGORY_HATE_SPEECH: 'Hate Speech',
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: 'Sexually Explicit',
+  HARM_CATEGORY_DANGEROUS_CONTENT: 'Dangerous Content',
+  HARM_CATEGORY_CIVIC_INTEGRITY: 'Civic Integrity',
+};
+
+// Finish reasons other than STOP, as the API reports them
+const FINISH_REASON_LABELS: Record<string, string> = {
+  SAFETY: 'the image was blocked by safety filters',
+  IMAGE_SAFETY: 'the image was blocked by safety filters',
+  PROHIBITED_CONTENT: 'the request involves prohibited content',
+  IMAGE_PROHIBITED_CONTENT: 'the image involves prohibited content',
+  BLOCKLIST: 'the request contains blocked terms',
+  SPII: 'the request may contain sensitive personal information',
+  RECITATION: 'the output was too close to existing content',
+  IMAGE_RECITATION: 'the image was too close to existing content',
+  NO_IMAGE: 'the model did not produce an image',
+  MAX_TOKENS: 'the response hit the output token limit',
+};
+
+export const getCategoryLabel = (category: string) =>
+  HARM_CATEGORY_LABELS[category as HarmCategory] ?? category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+// Ratings that explain a block: flagged ones, or anything rated medium or high
+export const getTriggeredRatings = (feedback: GenerationFeedback): SafetyRatingInfo[] => {
+  const ratings = [
+    ...feedback.promptSafetyRatings,
+    ...feedback.candidates.flatMap((candidate) => candidate.safetyRatings),
+  ];
+  const triggered = ratings.filter((rating) => rating.blocked || rating.probability === 'MEDIUM' || rating.probability === 'HIGH');
+  // The same category can be rated for the prompt and for each variant
+  return triggered.filter((rating, index) => triggered.findIndex((r) => r.category === rating.category) === index);
+};
+
+// One-line explanation of why a response has no images
+export const describeFeedback = (feedback?: GenerationFeedback): string => {
+  if (!feedback) return 'The model returned no images.';
+
+  if (feedback.blockReason) {
+    const categories = getTriggeredRatings(feedback).map((rating) => getCategoryLabel(rating.category));
+    const reason = feedback.blockReasonMessage
+      || (categories.length > 0 ? `flagged for ${categories.join(', ')}` : feedback.blockReason.toLowerCase().replace(/_/g, ' '));
+    return `The prompt was blocked: ${reason}.`;
+  }
+
+  const finishReason = feedback.candidates.find((c) => c.finishReason && c.finishReason !== 'STOP')?.finishReason;
+  if (finishReason) {
+    return `No image was returned: ${FINISH_REASON_LABELS[finishReason] ?? finishReason.toLowerCase().replace(/_/g, ' ')}.`;
+  }
+
+  if (feedback.texts.length > 0) {
+    return 'The model replied with text instead of an image.';
+  }
+  return 'The model returned no images.';
+};
+
+// Response text and thought summary to keep on a history record; empty ones are left unset
+export const getResponseNotes = (feedback?: GenerationFeedback): { responseText?: string; thoughtSummary?: string } => ({
+  responseText: feedback?.texts.join('\n\n') || undefined,
+  thoughtSummary: feedback?.thoughts?.join('\n\n') || undefined,
+});
@@ -23,12 +23,78 @@ export function blobToBase64(blob: Blob): Promise<string> {
   });
 }
 
+// Raw base64 for a data URL or any fetchable URL (e.g. asset object URLs)
+export async function urlToBase64(url: string): Promise<string> {
+  if (url.startsWith('data:')) {
+    return url.split('base64,')[1];
+  }
+  const response = await fetch(url);
+  return blobToBase64(await response.blob());
+}
+
+// Identifies PNG, JPEG and WebP from their magic numbers
+export function sniffImageMime(bytes: Uint8Array): string | undefined {
+  const matches = (offset: number, signature: number[]) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+  if (matches(0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (matches(0, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (matches(0, [0x52, 0x49, 0x46, 0x46]) && matches(8, [0x57, 0x45, 0x42, 0x50])) return 'image/webp';
+  return undefined;
+}
+
+export function detectImageMime(base64: string): string | undefined {
+  try {
+    // 16 characters decode to the first 12 bytes, enough for every signature
+    return sniffImageMime(Uint8Array.from(atob(base64.slice(0, 16)), (char) => char.charCodeAt(0)));
+  } catch {
+    return undefined;
+  }
+}
+
+// `mimeType` (e.g. what the API reported) is only used when the format isn't recognised
+export function toImageDataUrl(base64: string, mimeType = 'image/png'): string {
+  return `data:${detectImageMime(base64) ?? mimeType};base64,${base64}`;
+}
+
+// Pixel size after decoding, rather than what the request asked for
+export async function getImageSize(blob: Blob): Promise<{ width: number; height: number }> {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return { width: bitmap.width, height: bitmap.height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+export function getFileExtension(mime: string): string {
+  const subtype = mime.split('/')[1]?.split(';')[0] ?? '';
+  const extension = subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^a-z0-9]/gi, '');
+  return extension || 'bin';
+}
+
+// Saves an image URL (data:, blob: or remote) with the extension of its actual format
+export async function downloadImageUrl(url: string, basename: string): Promise<void> {
+  const blob = await (await fetch(url)).blob();
+  const mime = sniffImageMime(new Uint8Array(await blob.slice(0, 12).arrayBuffer())) ?? blob.type;
+  const objectUrl = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = `${basename}.${getFileExtension(mime)}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(objectUrl);
+}
+
 export function createImageFromBase64(base64: string): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.onload = () => resolve(img);
     img.onerror = reject;
-    img.src = `data:image/png;base64,${base64}`;
+    img.src = toImageDataUrl(base64);
   });
 }
 
@@ -0,0 +1,247 @@
+import { BrushStroke, MaskSettings } from '../types';
+import { ImageProcessor } from '../services/imageProcessing';
+import { createImageFromBase64, generateId } from './imageUtils';
+
+// Color used to show the mask over the image
+export const MASK_PREVIEW_COLOR = '#A855F7';
+
+// How strongly the masked reference image sent with edits shows the mask
+const REFERENCE_OVERLAY_ALPHA = 0.4;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = reject;
+  image.src = src;
+});
+
+// A white-on-black mask as `color` with the mask's brightness as alpha, for drawing over
+// the image (or onto another mask) without covering what's unselected
+export function tintMask(mask: HTMLImageElement, color: string): HTMLCanvasElement {
+  const canvas = createCanvas(mask.width, mask.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(mask, 0, 0);
+
+  const value = parseInt(color.replace('#', ''), 16);
+  const [r, g, b] = [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i + 3] = data[i];
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+async function drawStroke(ctx: CanvasRenderingContext2D, stroke: BrushStroke): Promise<void> {
+  const { width, height } = ctx.canvas;
+
+  if (stroke.bitmap) {
+    const mask = await createImageFromBase64(stroke.bitmap);
+    ctx.drawImage(tintMask(mask, '#FFFFFF'), 0, 0, width, height);
+    return;
+  }
+
+  const { points } = stroke;
+  ctx.beginPath();
+  switch (stroke.shape) {
+    case 'rectangle': {
+      const [x1, y1, x2, y2] = points;
+      ctx.rect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+      ctx.fill();
+      return;
+    }
+    case 'ellipse': {
+      const [x1, y1, x2, y2] = points;
+      ctx.ellipse((x1 + x2) / 2, (y1 + y2) / 2, Math.abs(x2 - x1) / 2, Math.abs(y2 - y1) / 2, 0, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    }
+    case 'polygon':
+      if (points.length < 6) return;
+      ctx.moveTo(points[0], points[1]);
+      for (let i = 2; i < points.length; i += 2) ctx.lineTo(points[i], points[i + 1]);
+      ctx.closePath();
+      ctx.fill();
+      return;
+    default:
+      if (points.length < 4) return;
+      ctx.lineWidth = stroke.brushSize;
+      ctx.moveTo(points[0], points[1]);
+      for (let i = 2; i < points.length; i += 2) ctx.lineTo(points[i], points[i + 1]);
+      ctx.stroke();
+  }
+}
+
+// The mask as white with the selection as alpha, at the image's resolution: strokes in
+// order (erasers cut away what's under them), then invert, grow/shrink and feather
+export async function rasterizeMask(
+  strokes: BrushStroke[],
+  settings: Omit<MaskSettings, 'opacity'>,
+  width: number,
+  height: number
+): Promise<HTMLCanvasElement> {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.fillStyle = ctx.strokeStyle = '#FFFFFF';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  for (const stroke of strokes) {
+    ctx.globalCompositeOperation = stroke.erase ? 'destination-out' : 'source-over';
+    await drawStroke(ctx, stroke);
+  }
+
+  if (settings.invert) {
+    ctx.globalCompositeOperation = 'xor';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.globalCompositeOperation = 'source-over';
+
+  if (settings.grow === 0 && settings.feather === 0) return canvas;
+
+  let imageData = ImageProcessor.growMask(ctx.getImageData(0, 0, width, height), settings.grow);
+  if (settings.feather > 0) {
+    imageData = ImageProcessor.applyFeathering({
+      id: 'mask',
+      imageData,
+      bounds: { x: 0, y: 0, width, height },
+      feather: settings.feather
+    }, settings.feather);
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+// A rasterized mask filled with `color`, keeping its alpha
+export function colorizeMask(mask: HTMLCanvasElement, color: string): HTMLCanvasElement {
+  const canvas = createCanvas(mask.width, mask.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(mask, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// A rasterized mask as the white-on-black base64 PNG the API expects
+export function maskToBase64(mask: HTMLCanvasElement): string {
+  const canvas = createCanvas(mask.width, mask.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(mask, 0, 0);
+  return canvas.toDataURL('image/png').split('base64,')[1];
+}
+
+// The mask for an edit of `imageUrl`, plus the image with the mask drawn over it so the
+// model can see the selection in context. Both base64 PNGs.
+export async function buildEditMask(
+  strokes: BrushStroke[],
+  settings: MaskSettings,
+  imageUrl: string
+): Promise<{ maskImage: string; maskedReferenceImage: string }> {
+  const image = await loadImage(imageUrl);
+  const mask = await rasterizeMask(strokes, settings, image.width, image.height);
+
+  const reference = createCanvas(image.width, image.height);
+  const ctx = reference.getContext('2d')!;
+  ctx.drawImage(image, 0, 0);
+  ctx.globalAlpha = REFERENCE_OVERLAY_ALPHA;
+  ctx.drawImage(colorizeMask(mask, MASK_PREVIEW_COLOR), 0, 0);
+
+  return {
+    maskImage: maskToBase64(mask),
+    maskedReferenceImage: reference.toDataURL('image/png').split('base64,')[1],
+  };
+}
+
+// Reads a mask made elsewhere (white-on-black, or any image with transparency, where the
+// opaque parts are selected) as a white-on-black base64 PNG of the given size
+export function readMaskImage(image: HTMLImageElement, width: number, height: number): string {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  let hasAlpha = false;
+  for (let i = 3; i < data.length && !hasAlpha; i += 4) hasAlpha = data[i] < 255;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const value = hasAlpha ? data[i + 3] : Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    data[i] = data[i + 1] = data[i + 2] = value;
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png').split('base64,')[1];
+}
+
+// A whole mask as a single stroke, replacing what was drawn
+export const createBitmapStroke = (bitmap: string, maskAssetId?: string): BrushStroke => ({
+  id: `stroke-${generateId()}`,
+  points: [],
+  brushSize: 0,
+  color: MASK_PREVIEW_COLOR,
+  bitmap,
+  maskAssetId,
+});
+
+// The saved mask the current one is, if it was loaded and hasn't been changed since
+export const getSavedMaskId = (strokes: BrushStroke[], settings: MaskSettings): string | undefined =>
+  strokes.length === 1 && !settings.invert && settings.grow === 0 && settings.feather === 0
+    ? strokes[0].maskAssetId
+    : undefined;
+
+// Softens the seam between the source and the edit, on top of the mask's own feathering
+const COMPOSITE_FEATHER = 4;
+
+// Keeps an edit inside its mask: the edited image (scaled to cover the source and centred,
+// when the model returned a different size) drawn over the source through the feathered
+// mask. `mask` is the white-on-black mask sent with the edit. Returns a base64 PNG.
+export async function compositeWithinMask(source: string, output: string, mask: string): Promise<string> {
+  const [sourceImage, outputImage, maskImage] = await Promise.all([
+    createImageFromBase64(source),
+    createImageFromBase64(output),
+    createImageFromBase64(mask),
+  ]);
+  const { width, height } = sourceImage;
+
+  const alpha = createCanvas(width, height);
+  const alphaCtx = alpha.getContext('2d', { willReadFrequently: true })!;
+  alphaCtx.drawImage(tintMask(maskImage, '#FFFFFF'), 0, 0, width, height);
+  const feathered = ImageProcessor.applyFeathering({
+    id: 'composite',
+    imageData: alphaCtx.getImageData(0, 0, width, height),
+    bounds: { x: 0, y: 0, width, height },
+    feather: COMPOSITE_FEATHER
+  }, COMPOSITE_FEATHER);
+  alphaCtx.putImageData(feathered, 0, 0);
+
+  const scale = Math.max(width / outputImage.width, height / outputImage.height);
+  const drawWidth = outputImage.width * scale;
+  const drawHeight = outputImage.height * scale;
+  const edit = createCanvas(width, height);
+  const editCtx = edit.getContext('2d')!;
+  editCtx.imageSmoothingQuality = 'high';
+  editCtx.drawImage(outputImage, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  editCtx.globalCompositeOperation = 'destination-in';
+  editCtx.drawImage(alpha, 0, 0);
+
+  const result = createCanvas(width, height);
+  const ctx = result.getContext('2d')!;
+  ctx.drawImage(sourceImage, 0, 0);
+  ctx.drawImage(edit, 0, 0);
+  return result.toDataURL('image/png').split('base64,')[1];
+}
@@ -0,0 +1,62 @@
+import { Project, ResolutionTier, VideoModel } from '../types';
+
+// Published Gemini API list prices in USD. Estimates only: actual billing depends on
+// token counts, and prices change, so keep these in line with
+// https://ai.google.dev/gemini-api/docs/pricing
+
+interface ImagePricing {
+  // Per output image, by resolution tier
+  output: Record<ResolutionTier, number>;
+  // Per image sent with the request (source, references, mask, chat history)
+  input: number;
+}
+
+export const IMAGE_PRICING: Record<string, ImagePricing> = {
+  // 1120 output tokens (1K/2K) or 2000 (4K) at $120/M; 560 input tokens at $2/M
+  'gemini-3-pro-image-preview': { output: { '1K': 0.134, '2K': 0.134, '4K': 0.24 }, input: 0.0011 },
+  // 1290 output tokens at $30/M, always 1K; 258 input tokens at $0.30/M
+  'gemini-2.5-flash-image': { output: { '1K': 0.039, '2K': 0.039, '4K': 0.039 }, input: 0.0001 },
+};
+
+// Per second of generated video, with audio
+export const VIDEO_PRICING_PER_SECOND: Record<string, number> = {
+  'veo-3.1-generate-preview': 0.4,
+  'veo-3.1-fast-generate-preview': 0.15,
+  'veo-3.0-generate-001': 0.4,
+  'veo-3.0-fast-generate-001': 0.15,
+};
+
+// Batch API jobs are billed at half the interactive price
+export const BATCH_DISCOUNT = 0.5;
+
+// Models missing from the tables are priced like the most expensive known one, so
+// budgets err on the safe side
+const FALLBACK_IMAGE_PRICING = IMAGE_PRICING['gemini-3-pro-image-preview'];
+const FALLBACK_VIDEO_PRICE = VIDEO_PRICING_PER_SECOND['veo-3.1-generate-preview'];
+
+export interface ImageCostRequest {
+  model: string;
+  resolutionTier: ResolutionTier;
+  variantCount: number;
+  // Images sent with each variant's request
+  inputImages: number;
+  batch?: boolean;
+}
+
+// Every variant is its own request, so input images are paid for once per variant
+export const estimateImageCost = ({ model, resolutionTier, variantCount, inputImages, batch }: ImageCostRequest): number => {
+  const pricing = IMAGE_PRICING[model] ?? FALLBACK_IMAGE_PRICING;
+  const perVariant = pricing.output[resolutionTier] + inputImages * pricing.input;
+  return perVariant * Math.max(1, variantCount) * (batch ? BATCH_DISCOUNT : 1);
+};
+
+export const estimateVideoCost = (model: VideoModel, durationSeconds: number): number =>
+  (VIDEO_PRICING_PER_SECOND[model] ?? FALLBACK_VIDEO_PRICE) * durationSeconds;
+
+// Estimated spend on everything in the project's history and its queued requests
+export const getProjectSpend = (project: Project): number =>
+  [...project.generations, ...project.edits, ...(project.videoGenerations ?? [])]
+    .reduce((total, record) => total + (record.costEstimate ?? 0), project.queuedSpend ?? 0);
+
+export const formatCost = (usd: number): string =>
+  `$${usd < 1 ? usd.toFixed(3) : usd.toFixed(2)}`;
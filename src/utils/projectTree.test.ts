@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, Edit, Generation, Project } from '../types';
+import { findDuplicateAssets, getEditSourceAsset, keepChildSources } from './projectTree';
+
+const asset = (id: string): Asset => ({
+  id,
+  type: 'output',
+  blobId: `blob-${id}`,
+  mime: 'image/png',
+  width: 64,
+  height: 64,
+  checksum: `blob-${id}`,
+});
+
+const generation: Generation = {
+  id: 'gen',
+  prompt: 'A harbour',
+  parameters: {},
+  sourceAssets: [],
+  outputAssets: [asset('gen-1'), asset('gen-2')],
+  modelVersion: 'model',
+  timestamp: 1,
+};
+
+const edit = (id: string, fields: Partial<Edit>): Edit => ({
+  id,
+  instruction: id,
+  outputAssets: [asset(`${id}-out`)],
+  timestamp: 2,
+  ...fields,
+});
+
+const project = (edits: Edit[]): Project => ({
+  id: 'project',
+  title: 'Project',
+  generations: [generation],
+  edits,
+  videoGenerations: [],
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('keepChildSources', () => {
+  it('gives edits made from the removed node the variant they were made from', () => {
+    const child = edit('child', { parent: { type: 'generation', id: 'gen', assetId: 'gen-2' } });
+    const { edits, keptAssets } = keepChildSources(project([child]), { type: 'generation', id: 'gen' });
+
+    expect(keptAssets).toEqual([asset('gen-2')]);
+    expect(edits[0].sourceAsset).toEqual(asset('gen-2'));
+    // Still resolvable once the generation is gone
+    expect(getEditSourceAsset({ ...project(edits), generations: [] }, edits[0])).toEqual(asset('gen-2'));
+  });
+
+  it('leaves other edits alone', () => {
+    const grandchild = edit('grandchild', { parent: { type: 'edit', id: 'child', assetId: 'child-out' } });
+    const upload = edit('upload', { sourceAsset: asset('upload-src') });
+    const child = edit('child', { parent: { type: 'generation', id: 'gen' } });
+    const before = project([child, grandchild, upload]);
+    const { edits, keptAssets } = keepChildSources(before, { type: 'edit', id: 'child' });
+
+    expect(keptAssets).toEqual([asset('child-out')]);
+    expect(edits[0]).toBe(child);
+    expect(edits[1].sourceAsset).toEqual(asset('child-out'));
+    expect(edits[2]).toBe(upload);
+  });
+});
+
+describe('findDuplicateAssets', () => {
+  it('includes the raw outputs kept by compositing', () => {
+    const composited = edit('composited', { sourceAsset: asset('upload'), rawOutputAssets: [asset('gen-1')] });
+    const [group] = findDuplicateAssets(project([composited]));
+
+    expect(group.checksum).toBe('blob-gen-1');
+    expect(group.usages.map(usage => usage.role)).toEqual(['output', 'raw output']);
+  });
+});
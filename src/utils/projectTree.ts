@@ -0,0 +1,166 @@
+import { Project, Generation, Edit, EditParent, Asset } from '../types';
+
+export type HistoryNode =
+  | { type: 'generation'; id: string; record: Generation; timestamp: number; children: HistoryNode[] }
+  | { type: 'edit'; id: string; record: Edit; timestamp: number; children: HistoryNode[] };
+
+export interface FlatHistoryNode {
+  node: HistoryNode;
+  depth: number;
+  isLastChild: boolean;
+}
+
+// Resolves an edit's parent, falling back to the legacy generation-only link
+export const getEditParent = (edit: Edit): EditParent | undefined => {
+  if (edit.parent) return edit.parent;
+  if (edit.parentGenerationId) return { type: 'generation', id: edit.parentGenerationId };
+  return undefined;
+};
+
+export const findRecord = (project: Project, ref: Pick<EditParent, 'type' | 'id'>): Generation | Edit | undefined =>
+  ref.type === 'generation'
+    ? project.generations.find(g => g.id === ref.id)
+    : project.edits.find(e => e.id === ref.id);
+
+// The image an edit was applied to: the chosen variant of its parent, or its own source
+export const getEditSourceAsset = (project: Project, edit: Edit): Asset | undefined => {
+  const parent = getEditParent(edit);
+  const parentRecord = parent && findRecord(project, parent);
+  if (parentRecord) {
+    return parentRecord.outputAssets.find(a => a.id === parent?.assetId) ?? parentRecord.outputAssets[0];
+  }
+  return edit.sourceAsset;
+};
+
+// The project's edits with those made from `ref` holding their own copy of the image they
+// were made from, so they keep it once `ref` is deleted. Returns the assets now referenced
+// a second time, which need retaining before `ref`'s are released.
+export const keepChildSources = (project: Project, ref: Pick<EditParent, 'type' | 'id'>): { edits: Edit[]; keptAssets: Asset[] } => {
+  const keptAssets: Asset[] = [];
+  const edits = project.edits.map(edit => {
+    const parent = getEditParent(edit);
+    if (edit.sourceAsset || parent?.type !== ref.type || parent.id !== ref.id) return edit;
+    const sourceAsset = getEditSourceAsset(project, edit);
+    if (!sourceAsset) return edit;
+    keptAssets.push(sourceAsset);
+    return { ...edit, sourceAsset };
+  });
+  return { edits, keptAssets };
+};
+
+// A chat edit and the variant its conversation went on from
+export interface ConversationTurn {
+  edit: Edit;
+  assetId?: string;
+}
+
+// Chat edits from the start of the conversation down to `ref`, oldest first. Each turn's
+// variant is the one the next turn (or `ref` itself) was made from.
+export const getConversation = (project: Project, ref?: EditParent): ConversationTurn[] => {
+  const turns: ConversationTurn[] = [];
+  const seen = new Set<string>();
+  let current = ref;
+  while (current?.type === 'edit' && !seen.has(current.id)) {
+    const { id, assetId } = current;
+    const edit = project.edits.find(e => e.id === id);
+    if (!edit?.conversational) break;
+    seen.add(id);
+    turns.unshift({ edit, assetId });
+    current = getEditParent(edit);
+  }
+  return turns;
+};
+
+// Builds the lineage forest: generations and parentless edits are roots, edits hang off
+// whatever they were made from. Edits whose parent was deleted become roots too.
+export const buildProjectTree = (project: Project): HistoryNode[] => {
+  const nodes = new Map<string, HistoryNode>();
+  const keyOf = (type: EditParent['type'], id: string) => `${type}:${id}`;
+
+  for (const generation of project.generations) {
+    nodes.set(keyOf('generation', generation.id), {
+      type: 'generation',
+      id: generation.id,
+      record: generation,
+      timestamp: generation.timestamp,
+      children: []
+    });
+  }
+  for (const edit of project.edits) {
+    nodes.set(keyOf('edit', edit.id), {
+      type: 'edit',
+      id: edit.id,
+      record: edit,
+      timestamp: edit.timestamp,
+      children: []
+    });
+  }
+
+  const roots: HistoryNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.type === 'edit' ? getEditParent(node.record) : undefined;
+    const parentNode = parent && nodes.get(keyOf(parent.type, parent.id));
+    if (parentNode && parentNode !== node) {
+      parentNode.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const sortByTime = (list: HistoryNode[]) => {
+    list.sort((a, b) => a.timestamp - b.timestamp);
+    list.forEach(node => sortByTime(node.children));
+  };
+  sortByTime(roots);
+  return roots;
+};
+
+// Depth-first order for rendering the tree as an indented list
+export const flattenProjectTree = (roots: HistoryNode[]): FlatHistoryNode[] => {
+  const flat: FlatHistoryNode[] = [];
+  const visit = (node: HistoryNode, depth: number, isLastChild: boolean) => {
+    flat.push({ node, depth, isLastChild });
+    node.children.forEach((child, index) => visit(child, depth + 1, index === node.children.length - 1));
+  };
+  roots.forEach((root, index) => visit(root, 0, index === roots.length - 1));
+  return flat;
+};
+
+// Where an image asset is used: which record, and as what
+export interface AssetUsage {
+  ref: Pick<EditParent, 'type' | 'id'>;
+  label: string;
+  role: 'output' | 'raw output' | 'reference' | 'source' | 'mask';
+  asset: Asset;
+}
+
+export interface DuplicateGroup {
+  checksum: string;
+  usages: AssetUsage[];
+}
+
+// Image content used more than once across generations and edits, most repeated first
+export const findDuplicateAssets = (project: Project): DuplicateGroup[] => {
+  const usages: AssetUsage[] = [];
+  for (const generation of project.generations) {
+    const ref = { type: 'generation' as const, id: generation.id };
+    generation.outputAssets.forEach(asset => usages.push({ ref, label: generation.prompt, role: 'output', asset }));
+    generation.sourceAssets.forEach(asset => usages.push({ ref, label: generation.prompt, role: 'reference', asset }));
+  }
+  for (const edit of project.edits) {
+    const ref = { type: 'edit' as const, id: edit.id };
+    edit.outputAssets.forEach(asset => usages.push({ ref, label: edit.instruction, role: 'output', asset }));
+    edit.rawOutputAssets?.forEach(asset => usages.push({ ref, label: edit.instruction, role: 'raw output', asset }));
+    if (edit.sourceAsset) usages.push({ ref, label: edit.instruction, role: 'source', asset: edit.sourceAsset });
+    if (edit.maskReferenceAsset) usages.push({ ref, label: edit.instruction, role: 'mask', asset: edit.maskReferenceAsset });
+  }
+
+  const groups = new Map<string, AssetUsage[]>();
+  for (const usage of usages) {
+    groups.set(usage.asset.checksum, [...(groups.get(usage.asset.checksum) ?? []), usage]);
+  }
+  return [...groups.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([checksum, group]) => ({ checksum, usages: group }))
+    .sort((a, b) => b.usages.length - a.usages.length);
+};
@@ -0,0 +1,116 @@
+import { AspectRatio, CropRect, LocalEditOperation } from '../types';
+import { loadImage } from './maskUtils';
+
+// Smallest crop box and largest resize, in image pixels
+export const MIN_CROP_SIZE = 8;
+export const MAX_RESIZE_DIMENSION = 8192;
+
+const getRatio = (aspectRatio: AspectRatio) => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width / height;
+};
+
+// The largest box at `aspectRatio` centred on the image; 'auto' is the whole image
+export function getAspectRatioCrop(width: number, height: number, aspectRatio: AspectRatio): CropRect {
+  if (aspectRatio === 'auto') return { x: 0, y: 0, width, height };
+  const ratio = getRatio(aspectRatio);
+  const cropWidth = Math.round(Math.min(width, height * ratio));
+  const cropHeight = Math.round(Math.min(height, width / ratio));
+  return {
+    x: Math.round((width - cropWidth) / 2),
+    y: Math.round((height - cropHeight) / 2),
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+// Keeps a dragged or resized box inside the image, whole pixels and at `aspectRatio`
+// (shrinking the longer side) unless that's 'auto'
+export function clampCropRect(rect: CropRect, width: number, height: number, aspectRatio: AspectRatio): CropRect {
+  let cropWidth = Math.max(MIN_CROP_SIZE, Math.min(width, Math.round(rect.width)));
+  let cropHeight = Math.max(MIN_CROP_SIZE, Math.min(height, Math.round(rect.height)));
+  if (aspectRatio !== 'auto') {
+    const ratio = getRatio(aspectRatio);
+    if (cropWidth / cropHeight > ratio) cropWidth = Math.round(cropHeight * ratio);
+    else cropHeight = Math.round(cropWidth / ratio);
+  }
+  return {
+    x: Math.min(Math.max(0, Math.round(rect.x)), width - cropWidth),
+    y: Math.min(Math.max(0, Math.round(rect.y)), height - cropHeight),
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+export const isWholeImage = (rect: CropRect, width: number, height: number) =>
+  rect.x === 0 && rect.y === 0 && rect.width === width && rect.height === height;
+
+// The size an image of `width` × `height` takes up once rotated by `degrees`
+export function getRotatedSize(width: number, height: number, degrees: number) {
+  const radians = (degrees * Math.PI) / 180;
+  // Rounded so quarter turns come out exact rather than a pixel over
+  const cos = Math.abs(Math.round(Math.cos(radians) * 1e6) / 1e6);
+  const sin = Math.abs(Math.round(Math.sin(radians) * 1e6) / 1e6);
+  return {
+    width: Math.round(width * cos + height * sin),
+    height: Math.round(width * sin + height * cos),
+  };
+}
+
+// Short description of an operation, recorded as its edit's instruction
+export function describeOperation(operation: LocalEditOperation): string {
+  switch (operation.type) {
+    case 'crop':
+      return `Crop to ${operation.rect.width}×${operation.rect.height}${operation.aspectRatio ? ` (${operation.aspectRatio})` : ''}`;
+    case 'rotate':
+      return `Rotate ${operation.degrees}°`;
+    case 'flip':
+      return `Flip ${operation.direction}ly`;
+    case 'resize':
+      return `Resize to ${operation.width}×${operation.height}`;
+  }
+}
+
+// The image with the operation applied, as a base64 PNG
+export async function applyLocalOperation(imageUrl: string, operation: LocalEditOperation): Promise<string> {
+  const source = await loadImage(imageUrl);
+  const size = operation.type === 'crop'
+    ? { width: operation.rect.width, height: operation.rect.height }
+    : operation.type === 'rotate'
+      ? getRotatedSize(source.width, source.height, operation.degrees)
+      : operation.type === 'resize'
+        ? { width: operation.width, height: operation.height }
+        : { width: source.width, height: source.height };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+
+  switch (operation.type) {
+    case 'crop':
+      ctx.drawImage(source, -operation.rect.x, -operation.rect.y);
+      break;
+    case 'rotate':
+      ctx.translate(size.width / 2, size.height / 2);
+      ctx.rotate((operation.degrees * Math.PI) / 180);
+      ctx.drawImage(source, -source.width / 2, -source.height / 2);
+      break;
+    case 'flip':
+      if (operation.direction === 'horizontal') {
+        ctx.translate(size.width, 0);
+        ctx.scale(-1, 1);
+      } else {
+        ctx.translate(0, size.height);
+        ctx.scale(1, -1);
+      }
+      ctx.drawImage(source, 0, 0);
+      break;
+    case 'resize':
+      ctx.drawImage(source, 0, 0, size.width, size.height);
+      break;
+  }
+
+  return canvas.toDataURL('image/png').split('base64,')[1];
+}
@@ -0,0 +1,137 @@
+import { BatchQueueRequest, Project, UsageMetadata } from '../types';
+import { getDayKey } from './budget';
+
+export type UsageGrouping = 'model' | 'day' | 'project';
+
+// One request's token usage and what the dashboard groups it by
+export interface UsageEntry {
+  source: 'generation' | 'edit' | 'batch';
+  model: string;
+  day: string;
+  // Batch jobs run outside any project
+  projectId: string | null;
+  projectTitle: string;
+  prompt: string;
+  timestamp: number;
+  usage: UsageMetadata;
+}
+
+export interface UsageRow {
+  key: string;
+  label: string;
+  usage: UsageMetadata;
+}
+
+const UNKNOWN_MODEL = 'Unknown model';
+const BATCH_QUEUE_LABEL = 'Batch queue';
+
+export const EMPTY_USAGE: UsageMetadata = {
+  calls: 0,
+  promptTokens: 0,
+  candidatesTokens: 0,
+  thoughtsTokens: 0,
+  totalTokens: 0,
+  promptImageTokens: 0,
+  outputImageTokens: 0,
+};
+
+export const addUsage = (a: UsageMetadata, b: UsageMetadata): UsageMetadata => ({
+  calls: a.calls + b.calls,
+  promptTokens: a.promptTokens + b.promptTokens,
+  candidatesTokens: a.candidatesTokens + b.candidatesTokens,
+  thoughtsTokens: a.thoughtsTokens + b.thoughtsTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+  promptImageTokens: a.promptImageTokens + b.promptImageTokens,
+  outputImageTokens: a.outputImageTokens + b.outputImageTokens,
+});
+
+// Every generation, edit and finished batch job that recorded usage. Records from before
+// usage was kept are left out.
+export const collectUsageEntries = (projects: Project[], batches: BatchQueueRequest[]): UsageEntry[] => {
+  const entries: UsageEntry[] = [];
+  const add = (entry: Omit<UsageEntry, 'day'>) =>
+    entries.push({ ...entry, day: getDayKey(new Date(entry.timestamp)) });
+
+  for (const project of projects) {
+    const projectFields = { projectId: project.id, projectTitle: project.title };
+    for (const generation of project.generations) {
+      if (!generation.usage) continue;
+      add({
+        source: 'generation',
+        model: generation.modelVersion,
+        prompt: generation.prompt,
+        timestamp: generation.timestamp,
+        usage: generation.usage,
+        ...projectFields,
+      });
+    }
+    for (const edit of project.edits) {
+      if (!edit.usage) continue;
+      add({
+        source: 'edit',
+        model: edit.modelVersion ?? UNKNOWN_MODEL,
+        prompt: edit.instruction,
+        timestamp: edit.timestamp,
+        usage: edit.usage,
+        ...projectFields,
+      });
+    }
+  }
+
+  for (const batch of batches) {
+    if (!batch.usage) continue;
+    add({
+      source: 'batch',
+      model: batch.model ?? UNKNOWN_MODEL,
+      prompt: batch.prompt,
+      timestamp: batch.completedAt ?? batch.createdAt,
+      usage: batch.usage,
+      projectId: null,
+      projectTitle: BATCH_QUEUE_LABEL,
+    });
+  }
+
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Totals per model, day or project; days newest first, the rest by total tokens
+export const groupUsage = (entries: UsageEntry[], grouping: UsageGrouping): UsageRow[] => {
+  const rows = new Map<string, UsageRow>();
+  for (const entry of entries) {
+    const key = grouping === 'project' ? entry.projectId ?? '' : entry[grouping];
+    const label = grouping === 'project' ? entry.projectTitle : key;
+    const row = rows.get(key) ?? { key, label, usage: EMPTY_USAGE };
+    rows.set(key, { ...row, usage: addUsage(row.usage, entry.usage) });
+  }
+
+  return [...rows.values()].sort((a, b) =>
+    grouping === 'day' ? b.key.localeCompare(a.key) : b.usage.totalTokens - a.usage.totalTokens
+  );
+};
+
+const CSV_COLUMNS: [string, (entry: UsageEntry) => string | number][] = [
+  ['date', (entry) => new Date(entry.timestamp).toISOString()],
+  ['project', (entry) => entry.projectTitle],
+  ['source', (entry) => entry.source],
+  ['model', (entry) => entry.model],
+  ['prompt', (entry) => entry.prompt],
+  ['calls', (entry) => entry.usage.calls],
+  ['prompt_tokens', (entry) => entry.usage.promptTokens],
+  ['prompt_image_tokens', (entry) => entry.usage.promptImageTokens],
+  ['output_tokens', (entry) => entry.usage.candidatesTokens],
+  ['output_image_tokens', (entry) => entry.usage.outputImageTokens],
+  ['thought_tokens', (entry) => entry.usage.thoughtsTokens],
+  ['total_tokens', (entry) => entry.usage.totalTokens],
+];
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per request, for spreadsheets
+export const usageToCsv = (entries: UsageEntry[]): string =>
+  [
+    CSV_COLUMNS.map(([header]) => header).join(','),
+    ...entries.map((entry) => CSV_COLUMNS.map(([, getValue]) => escapeCsv(getValue(entry))).join(',')),
+  ].join('\n');